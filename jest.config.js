@@ -11,6 +11,7 @@ module.exports = {
     'src/**/*.ts',
     '!src/**/*.d.ts',
     '!src/tests/testUtils.ts',
+    '!src/tests/mockIdentityProvider.ts',
     '!src/app.ts',
     '!src/utils/**/*',
     '!src/server/server.ts'
@@ -1,2 +1,5 @@
 // Jest setup file
-jest.setTimeout(30000);
\ No newline at end of file
+jest.setTimeout(30000);
+
+// Suites log in and post repeatedly from one address; the rate limit tests enable limits themselves.
+process.env.RATE_LIMIT_ENABLED = process.env.RATE_LIMIT_ENABLED || 'false';
@@ -0,0 +1,92 @@
+import mongoose from 'mongoose';
+import postModel, { IAttachment } from '../models/post';
+import { deleteFiles, getFileStorage } from '../utils/fileStorage';
+import { processImage } from '../utils/images';
+import env from '../utils/env';
+
+export interface UploadedFile {
+    originalname: string,
+    size: number,
+    buffer: Buffer
+}
+
+/**
+ * Stores uploaded images and their thumbnails. Every file is processed before any is
+ * stored, so one invalid file rejects the whole upload without leaving files behind.
+ */
+export const saveAttachments = async (files: UploadedFile[]) => {
+    const images = await Promise.all(files.map(file => processImage(file.buffer)));
+    const storage = getFileStorage();
+    const attachments: IAttachment[] = [];
+
+    try {
+        for (const [index, file] of files.entries()) {
+            const image = images[index];
+            const _id = new mongoose.Types.ObjectId();
+            const attachment = {
+                _id,
+                key: `attachments/${_id}.${image.extension}`,
+                thumbnailKey: `attachments/${_id}-thumbnail.webp`,
+                filename: file.originalname.slice(0, 255),
+                mimeType: image.mimeType,
+                size: image.data.length,
+                width: image.width,
+                height: image.height
+            };
+
+            await storage.put(attachment.key, image.data, attachment.mimeType);
+            attachments.push(attachment);
+            await storage.put(attachment.thumbnailKey, image.thumbnail, 'image/webp');
+        }
+    } catch (error) {
+        await deleteAttachmentFiles(attachments);
+        throw error;
+    }
+
+    return attachments;
+}
+
+// Removes the stored files of attachments that were removed from their post.
+export const deleteAttachmentFiles = async (attachments: IAttachment[]) => {
+    await deleteFiles(attachments.flatMap(attachment => [attachment.key, attachment.thumbnailKey]));
+}
+
+/**
+ * Stores uploaded images and adds them to a post unless it would exceed
+ * ATTACHMENT_MAX_COUNT. Returns null, with nothing stored, when the post does not
+ * exist or has no room for them.
+ */
+export const addAttachments = async (postId: string, files: UploadedFile[]) => {
+    const attachments = await saveAttachments(files);
+    const roomFor = env.ATTACHMENT_MAX_COUNT - attachments.length;
+
+    try {
+        const post = await postModel.findOneAndUpdate(
+            { _id: postId, [`attachments.${roomFor}`]: { $exists: false } },
+            { $push: { attachments: { $each: attachments } } },
+            { new: true }
+        );
+
+        if (!post) {
+            await deleteAttachmentFiles(attachments);
+        }
+        return post;
+    } catch (error) {
+        await deleteAttachmentFiles(attachments);
+        throw error;
+    }
+}
+
+// Removes an attachment from its post and returns it, or null when there is no such attachment.
+export const removeAttachment = async (postId: string, attachmentId: string) => {
+    const post = await postModel.findOneAndUpdate(
+        { _id: postId, 'attachments._id': attachmentId },
+        { $pull: { attachments: { _id: attachmentId } } }
+    );
+    const attachment = post?.attachments.find(attachment => attachment._id.equals(attachmentId));
+
+    if (attachment) {
+        await deleteAttachmentFiles([attachment]);
+    }
+    return attachment ?? null;
+}
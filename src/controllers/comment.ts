@@ -1,25 +1,223 @@
+import mongoose from 'mongoose';
 import commentModel from '../models/comment'
+import postModel from '../models/post'
+import { DELETED_COMMENT_CONTENT, IComment } from '../models/comment'
+import { ReactionTarget } from '../models/reaction'
+import { RevisionTarget } from '../models/revision'
+import { countReactions, deleteReactionsOn, ReactionCounts, withReactionCounts } from './reaction'
+import { deleteNotificationsAbout } from './notification'
+import { addedMentions, parseReferences } from './reference'
+import { deleteRevisionsOf, recordRevision } from './revision'
+import { createdAtFilter, DateRange, PageOptions, paginate } from '../utils/pagination';
+import { renderMarkdown } from '../utils/markdown';
+import { emitEvent } from '../utils/events';
 
-export const createComment = async (postId: string, sender: string, content: string) => {
-    return await commentModel.create({postId , sender, content});
+export interface CommentFilters extends DateRange {
+    postId?: string,
+    parentCommentId?: string,
+    sender?: string,
+    mentioned?: string
 }
 
-export const getComments = async () => {
-    return await commentModel.find();
+export type CommentNode = IComment & {
+    _id: mongoose.Types.ObjectId,
+    replyCount: number,
+    reactions: ReactionCounts,
+    replies: CommentNode[]
+};
+
+type ParentComment = Pick<IComment, 'depth'> & { _id: mongoose.Types.ObjectId };
+
+/**
+ * Adds a comment to a post, or returns null when the post does not exist. The post is
+ * written in the same transaction, so a concurrent `deletePost` conflicts with it and
+ * either sees the comment or makes this transaction retry and find the post gone.
+ */
+export const createComment = async (postId: string, sender: string, content: string, parent?: ParentComment | null) => {
+    const references = await parseReferences(content);
+
+    const comment = await mongoose.connection.transaction(async (session) => {
+        const post = await postModel.findByIdAndUpdate(postId, { lastCommentedAt: new Date() }, { session, timestamps: false });
+
+        if (!post) {
+            return null;
+        }
+
+        const [created] = await commentModel.create([{
+            postId,
+            sender,
+            content,
+            contentHtml: renderMarkdown(content),
+            ...references,
+            parentCommentId: parent?._id ?? null,
+            depth: parent ? parent.depth + 1 : 0
+        }], { session });
+
+        return created;
+    });
+
+    if (comment) {
+        await emitEvent('commentCreated', { comment });
+    }
+    return comment;
+}
+
+export const getComments = async (filters: CommentFilters, options: PageOptions) => {
+    const filter = {
+        ...(filters.postId && { postId: new mongoose.Types.ObjectId(filters.postId) }),
+        ...(filters.parentCommentId && { parentCommentId: new mongoose.Types.ObjectId(filters.parentCommentId) }),
+        ...(filters.sender && { sender: new mongoose.Types.ObjectId(filters.sender), deleted: { $ne: true } }),
+        ...(filters.mentioned && { mentions: new mongoose.Types.ObjectId(filters.mentioned) }),
+        ...createdAtFilter(filters)
+    };
+
+    const withReplyCount = [
+        { $lookup: { from: commentModel.collection.name, localField: '_id', foreignField: 'parentCommentId', pipeline: [{ $project: { _id: 1 } }], as: 'replies' } },
+        { $addFields: { replyCount: { $size: '$replies' } } },
+        { $project: { replies: 0 } }
+    ];
+
+    return await paginate(commentModel, filter, [...withReplyCount, ...withReactionCounts(ReactionTarget.COMMENT)], options);
 }
 
 export const getCommentById = async (commentId: string) => {
     return await commentModel.findById(commentId);
 }
 
+export const countReplies = async (commentId: string) => {
+    return await commentModel.countDocuments({ parentCommentId: commentId });
+}
+
+/**
+ * Returns all comments of a post as a tree of top-level comments, each holding its
+ * replies oldest first.
+ */
+export const getCommentTree = async (postId: string) => {
+    const comments = await commentModel.find({ postId }).sort({ createdAt: 1, _id: 1 }).lean();
+    const reactions = await countReactions(ReactionTarget.COMMENT, comments.map(comment => comment._id));
+    const nodes = new Map<string, CommentNode>(comments.map(comment => [
+        comment._id.toString(),
+        { ...comment, replyCount: 0, reactions: reactions.get(comment._id.toString()) ?? {}, replies: [] }
+    ]));
+    const roots: CommentNode[] = [];
+
+    for (const node of nodes.values()) {
+        const parent = node.parentCommentId && nodes.get(node.parentCommentId.toString());
+
+        if (parent) {
+            parent.replies.push(node);
+            parent.replyCount++;
+        } else {
+            roots.push(node);
+        }
+    }
+
+    return roots;
+}
+
+/**
+ * Removes comments without breaking the threads they belong to. A comment that still
+ * has replies is blanked to a "[deleted]" placeholder instead, and placeholders left
+ * without replies afterwards are removed as well. Placeholders keep no revisions.
+ */
+export const removeComments = async (commentIds: mongoose.Types.ObjectId[], session: mongoose.ClientSession) => {
+    const removed = new Map(commentIds.map(id => [id.toString(), id]));
+    const kept: mongoose.Types.ObjectId[] = [];
+
+    // Keeping one comment may in turn keep its ancestors, so repeat until nothing changes.
+    for (;;) {
+        const parentIds = await commentModel.distinct('parentCommentId', {
+            parentCommentId: { $in: [...removed.values()] },
+            _id: { $nin: [...removed.values()] }
+        }).session(session);
+
+        if (parentIds.length === 0) {
+            break;
+        }
+
+        for (const parentId of parentIds) {
+            removed.delete(parentId.toString());
+            kept.push(parentId);
+        }
+    }
+
+    await deleteReactionsOn(kept, session);
+    await deleteNotificationsAbout(kept, session);
+    await deleteRevisionsOf(kept, session);
+    await commentModel.updateMany(
+        { _id: { $in: kept } },
+        {
+            $set: { content: DELETED_COMMENT_CONTENT, contentHtml: renderMarkdown(DELETED_COMMENT_CONTENT), mentions: [], tags: [], deleted: true },
+            $unset: { editedAt: 1, editedBy: 1 }
+        },
+        { session }
+    );
+
+    let orphanIds = [...removed.values()];
+    let parentIds = await commentModel.distinct('parentCommentId', { _id: { $in: orphanIds } }).session(session);
+
+    while (orphanIds.length > 0) {
+        await deleteReactionsOn(orphanIds, session);
+        await deleteNotificationsAbout(orphanIds, session);
+        await deleteRevisionsOf(orphanIds, session);
+        await commentModel.deleteMany({ _id: { $in: orphanIds } }, { session });
+
+        const withReplies = await commentModel.distinct('parentCommentId', { parentCommentId: { $in: parentIds } }).session(session);
+        const placeholders = await commentModel.find(
+            { _id: { $in: parentIds, $nin: withReplies }, deleted: true },
+            { parentCommentId: 1 },
+            { session }
+        );
+
+        orphanIds = placeholders.map(placeholder => placeholder._id);
+        parentIds = placeholders.flatMap(placeholder => placeholder.parentCommentId ? [placeholder.parentCommentId] : []);
+    }
+
+    return { deleted: removed.size, kept: kept.length };
+}
+
 export const deleteComment = async (commentId: string) => {
-    return await commentModel.findByIdAndDelete(commentId);
-} 
+    const deleted = await mongoose.connection.transaction(async (session) => {
+        const comment = await commentModel.findOne({ _id: commentId, deleted: { $ne: true } }, null, { session });
+
+        if (!comment) {
+            return null;
+        }
 
-export const updateComment = async (commentId: string, content: string) => {
-    return await commentModel.findByIdAndUpdate(commentId, { content }, { new: true });
+        const { kept } = await removeComments([comment._id], session);
+
+        return kept > 0 ? await commentModel.findById(comment._id, null, { session }) : comment;
+    });
+
+    if (deleted) {
+        await emitEvent('commentDeleted', { comment: deleted });
+    }
+    return deleted;
 }
 
-export const getCommentsByPostId = async (postId: string) => {
-    return await commentModel.find({ postId: postId });
-}
\ No newline at end of file
+// Applies an edit by `editor`, keeping the replaced version as a revision when the content changes.
+export const updateComment = async (commentId: string, content: string, editor: string) => {
+    const derived = { contentHtml: renderMarkdown(content), ...await parseReferences(content) };
+
+    const updated = await mongoose.connection.transaction(async (session) => {
+        const previous = await commentModel.findOne({ _id: commentId, deleted: { $ne: true } }, null, { session });
+
+        if (!previous) {
+            return null;
+        }
+
+        const edited = content !== previous.content;
+
+        if (edited) {
+            await recordRevision(RevisionTarget.COMMENT, previous, session);
+        }
+
+        const comment = await commentModel.findByIdAndUpdate(commentId, { content, ...derived, ...(edited && { editedAt: new Date(), editedBy: editor }) }, { new: true, session });
+        return comment && { comment, previousMentions: previous.mentions };
+    });
+
+    if (updated) {
+        await emitEvent('commentUpdated', { comment: updated.comment, newMentions: addedMentions(updated.comment.mentions, updated.previousMentions) });
+    }
+    return updated?.comment ?? null;
+}
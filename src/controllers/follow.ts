@@ -0,0 +1,83 @@
+import mongoose, { PipelineStage } from 'mongoose';
+import { MongoServerError } from 'mongodb';
+import followModel, { IFollow } from '../models/follow'
+import userModel, { IUser } from '../models/user'
+import { createdAtFilter, DateRange, PageOptions, paginate } from '../utils/pagination';
+import { emitEvent } from '../utils/events';
+
+export type FollowWithUser = Omit<IFollow, 'follower' | 'following'> & {
+    _id: mongoose.Types.ObjectId,
+    user: Pick<IUser, 'username' | 'displayName' | 'avatarKey'> & { _id: mongoose.Types.ObjectId }
+};
+
+// Following the same user twice is a no-op, also when both requests arrive at once.
+export const followUser = async (followerId: string, followingId: string) => {
+    let followed = false;
+
+    try {
+        const result = await followModel.updateOne(
+            { follower: followerId, following: followingId },
+            { $setOnInsert: { follower: followerId, following: followingId } },
+            { upsert: true }
+        );
+        followed = result.upsertedCount > 0;
+    } catch (error) {
+        // A concurrent request inserted the follow first and reports it.
+        if (!(error instanceof MongoServerError && error.code === 11000)) throw error;
+    }
+
+    if (followed) {
+        await emitEvent('userFollowed', {
+            follower: new mongoose.Types.ObjectId(followerId),
+            following: new mongoose.Types.ObjectId(followingId)
+        });
+    }
+}
+
+export const unfollowUser = async (followerId: string, followingId: string) => {
+    await followModel.deleteOne({ follower: followerId, following: followingId });
+}
+
+export const isFollowing = async (followerId: string, followingId: string) => {
+    return Boolean(await followModel.exists({ follower: followerId, following: followingId }));
+}
+
+export const countFollows = async (userId: mongoose.Types.ObjectId) => {
+    const [followers, following] = await Promise.all([
+        followModel.countDocuments({ following: userId }),
+        followModel.countDocuments({ follower: userId })
+    ]);
+    return { followers, following };
+}
+
+export const getFollowedIds = async (userId: string) => {
+    return await followModel.distinct('following', { follower: userId }) as mongoose.Types.ObjectId[];
+}
+
+// Pages through one side of a user's follows, with the user on the other side as `user`.
+const getFollows = async (side: 'follower' | 'following', userId: string, range: DateRange, options: PageOptions) => {
+    const other = side === 'follower' ? 'following' : 'follower';
+    const filter = {
+        [side]: new mongoose.Types.ObjectId(userId),
+        ...createdAtFilter(range)
+    };
+
+    const withUser: PipelineStage[] = [
+        { $lookup: { from: userModel.collection.name, localField: other, foreignField: '_id', pipeline: [{ $project: { username: 1, displayName: 1, avatarKey: 1 } }], as: 'user' } },
+        { $unwind: '$user' }
+    ];
+
+    return await paginate<IFollow, FollowWithUser>(followModel, filter, withUser, options);
+}
+
+export const getFollowers = async (userId: string, range: DateRange, options: PageOptions) => {
+    return await getFollows('following', userId, range, options);
+}
+
+export const getFollowing = async (userId: string, range: DateRange, options: PageOptions) => {
+    return await getFollows('follower', userId, range, options);
+}
+
+export const deleteFollowsOf = async (userId: mongoose.Types.ObjectId, session: mongoose.ClientSession) => {
+    return await followModel.deleteMany({ $or: [{ follower: userId }, { following: userId }] }, { session });
+}
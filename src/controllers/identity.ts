@@ -0,0 +1,38 @@
+import mongoose from 'mongoose';
+import { MongoServerError } from 'mongodb';
+import identityModel from '../models/identity'
+import { OidcClaims } from '../utils/oidc';
+import { ConflictError, ErrorCode } from '../utils/errors';
+
+export const getIdentity = async (provider: string, subject: string) => {
+    return await identityModel.findOne({ provider, subject });
+}
+
+export const getIdentities = async (userId: string) => {
+    return await identityModel.find({ user: userId }).sort({ createdAt: 1 });
+}
+
+export const countIdentities = async (userId: string) => {
+    return await identityModel.countDocuments({ user: userId });
+}
+
+// Fails with a conflict when the identity is already linked, also by a concurrent request.
+export const linkIdentity = async (userId: mongoose.Types.ObjectId, provider: string, claims: OidcClaims) => {
+    try {
+        return await identityModel.create({ user: userId, provider, subject: claims.subject, email: claims.email });
+    } catch (error) {
+        if (error instanceof MongoServerError && error.code === 11000) {
+            throw new ConflictError(ErrorCode.DUPLICATE_RESOURCE, 'Identity Already Linked');
+        }
+        throw error;
+    }
+}
+
+// Keeps the email in sync with the provider, which the user may have changed there.
+export const recordIdentityLogin = async (identityId: mongoose.Types.ObjectId, claims: OidcClaims) => {
+    await identityModel.updateOne({ _id: identityId }, { email: claims.email, lastLoginAt: new Date() });
+}
+
+export const unlinkIdentity = async (identityId: string, userId: string) => {
+    return await identityModel.findOneAndDelete({ _id: identityId, user: userId });
+}
@@ -0,0 +1,139 @@
+import mongoose, { PipelineStage } from 'mongoose';
+import notificationModel, { INotification, NotificationType } from '../models/notification'
+import userModel, { IUser } from '../models/user'
+import postModel from '../models/post'
+import commentModel from '../models/comment'
+import { DELETED_USER_ID } from './user'
+import { createdAtFilter, DateRange, PageOptions, paginate } from '../utils/pagination';
+import { DomainEvents, emitEvent, onEvent } from '../utils/events';
+
+export interface NotificationFilters extends DateRange {
+    unread?: boolean
+}
+
+export type NotificationPreferences = Partial<Record<NotificationType, boolean>>;
+
+export type NotificationWithActor = Omit<INotification, 'actor'> & {
+    _id: mongoose.Types.ObjectId,
+    // Null once the actor's account is gone.
+    actor: (Pick<IUser, 'username' | 'displayName' | 'avatarKey'> & { _id: mongoose.Types.ObjectId }) | null
+};
+
+interface NotificationSubject {
+    postId?: mongoose.Types.ObjectId,
+    commentId?: mongoose.Types.ObjectId
+}
+
+/**
+ * Notifies the given users of something `actor` did, except the actor themselves, the
+ * placeholder of deleted accounts and users who turned the type off. Returns the IDs
+ * of the users that were notified.
+ */
+const notify = async (type: NotificationType, recipientIds: mongoose.Types.ObjectId[], actor: mongoose.Types.ObjectId, subject: NotificationSubject = {}) => {
+    const candidates = recipientIds.filter(id => !id.equals(actor) && !id.equals(DELETED_USER_ID));
+
+    if (candidates.length === 0) {
+        return [];
+    }
+
+    const recipients = await userModel.find(
+        { _id: { $in: candidates }, [`notificationPreferences.${type}`]: { $ne: false } },
+        { _id: 1 }
+    );
+    const notifications = await notificationModel.insertMany(recipients.map(recipient => ({ recipient: recipient._id, actor, type, ...subject })));
+
+    if (notifications.length > 0) {
+        await emitEvent('notificationsCreated', { notifications: notifications.map(notification => notification.toObject()) });
+    }
+    return recipients.map(recipient => recipient._id);
+}
+
+const excluding = (ids: mongoose.Types.ObjectId[], notified: mongoose.Types.ObjectId[]) => ids.filter(id => !notified.some(other => other.equals(id)));
+
+const notifyMentionsInPost = async ({ post }: DomainEvents['postCreated']) => {
+    await notify(NotificationType.MENTION, post.mentions, post.sender, { postId: post._id });
+}
+
+const notifyMentionsInEditedPost = async ({ post, newMentions }: DomainEvents['postUpdated']) => {
+    await notify(NotificationType.MENTION, newMentions, post.sender, { postId: post._id });
+}
+
+// Everyone gets at most one notification per comment: a reply beats a comment on their post, which beats a mention.
+const notifyCommentRecipients = async ({ comment }: DomainEvents['commentCreated']) => {
+    const subject = { postId: comment.postId, commentId: comment._id };
+    const post = await postModel.findById(comment.postId, { sender: 1 });
+    const parent = comment.parentCommentId ? await commentModel.findById(comment.parentCommentId, { sender: 1 }) : null;
+    const notified: mongoose.Types.ObjectId[] = [];
+
+    if (parent) {
+        notified.push(...await notify(NotificationType.REPLY, [parent.sender], comment.sender, subject));
+    }
+    if (post) {
+        notified.push(...await notify(NotificationType.COMMENT, excluding([post.sender], notified), comment.sender, subject));
+    }
+    await notify(NotificationType.MENTION, excluding(comment.mentions, notified), comment.sender, subject);
+}
+
+const notifyMentionsInEditedComment = async ({ comment, newMentions }: DomainEvents['commentUpdated']) => {
+    await notify(NotificationType.MENTION, newMentions, comment.sender, { postId: comment.postId, commentId: comment._id });
+}
+
+const notifyFollowed = async ({ follower, following }: DomainEvents['userFollowed']) => {
+    await notify(NotificationType.FOLLOW, [following], follower);
+}
+
+// Creates notifications from domain events. Subscribing again has no effect.
+export const subscribeNotifications = () => {
+    onEvent('postCreated', notifyMentionsInPost);
+    onEvent('postUpdated', notifyMentionsInEditedPost);
+    onEvent('commentCreated', notifyCommentRecipients);
+    onEvent('commentUpdated', notifyMentionsInEditedComment);
+    onEvent('userFollowed', notifyFollowed);
+}
+
+export const getNotifications = async (recipient: string, filters: NotificationFilters, options: PageOptions) => {
+    const filter = {
+        recipient: new mongoose.Types.ObjectId(recipient),
+        ...(filters.unread !== undefined && { read: !filters.unread }),
+        ...createdAtFilter(filters)
+    };
+
+    const withActor: PipelineStage[] = [
+        { $lookup: { from: userModel.collection.name, localField: 'actor', foreignField: '_id', pipeline: [{ $project: { username: 1, displayName: 1, avatarKey: 1 } }], as: 'actor' } },
+        { $unwind: { path: '$actor', preserveNullAndEmptyArrays: true } },
+        { $addFields: { actor: { $ifNull: ['$actor', null] } } }
+    ];
+
+    return await paginate<INotification, NotificationWithActor>(notificationModel, filter, withActor, options);
+}
+
+export const countUnread = async (recipient: string) => {
+    return await notificationModel.countDocuments({ recipient, read: false });
+}
+
+// Returns null if the notification does not exist or belongs to someone else.
+export const markRead = async (recipient: string, notificationId: string) => {
+    return await notificationModel.findOneAndUpdate({ _id: notificationId, recipient }, { read: true }, { new: true });
+}
+
+export const markAllRead = async (recipient: string) => {
+    return await notificationModel.updateMany({ recipient, read: false }, { read: true });
+}
+
+export const updateNotificationPreferences = async (userId: string, preferences: NotificationPreferences) => {
+    const update = Object.fromEntries(Object.entries(preferences).map(([type, enabled]) => [`notificationPreferences.${type}`, enabled]));
+
+    return await userModel.findByIdAndUpdate(userId, { $set: update }, { new: true });
+}
+
+// Removes the notifications about posts or comments that are being deleted.
+export const deleteNotificationsAbout = async (subjectIds: mongoose.Types.ObjectId[], session: mongoose.ClientSession) => {
+    return await notificationModel.deleteMany(
+        { $or: [{ postId: { $in: subjectIds } }, { commentId: { $in: subjectIds } }] },
+        { session }
+    );
+}
+
+export const deleteNotificationsOf = async (userId: mongoose.Types.ObjectId, session: mongoose.ClientSession) => {
+    return await notificationModel.deleteMany({ $or: [{ recipient: userId }, { actor: userId }] }, { session });
+}
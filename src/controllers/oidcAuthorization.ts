@@ -0,0 +1,38 @@
+import mongoose from 'mongoose';
+import { randomBytes } from 'crypto';
+import oidcAuthorizationModel from '../models/oidcAuthorization'
+import env from '../utils/env';
+import { hashToken } from '../utils/jwt';
+import { AuthorizationRequest } from '../utils/oidc';
+
+const randomToken = () => randomBytes(32).toString('base64url');
+
+// Only the hash of the state is stored; the state itself travels through the provider and back.
+export const createOidcAuthorization = async (provider: string, linkUser?: mongoose.Types.ObjectId): Promise<AuthorizationRequest> => {
+    const authorization = { state: randomToken(), nonce: randomToken(), codeVerifier: randomToken() };
+
+    await oidcAuthorizationModel.create({
+        stateHash: hashToken(authorization.state),
+        provider,
+        codeVerifier: authorization.codeVerifier,
+        nonce: authorization.nonce,
+        linkUser,
+        expiresAt: new Date(Date.now() + env.OIDC_AUTHORIZATION_TTL_MINUTES * 60 * 1000)
+    });
+
+    return authorization;
+}
+
+/**
+ * Returns the authorization a callback's state belongs to, or null when it is unknown,
+ * expired, already used, or was started for another provider or purpose. Logins pass
+ * no `linkUser`; links pass the user that started them.
+ */
+export const consumeOidcAuthorization = async (state: string, provider: string, linkUser?: mongoose.Types.ObjectId) => {
+    return await oidcAuthorizationModel.findOneAndDelete({
+        stateHash: hashToken(state),
+        provider,
+        linkUser: linkUser ?? { $exists: false },
+        expiresAt: { $gt: new Date() }
+    });
+}
@@ -1,22 +1,126 @@
+import mongoose from 'mongoose';
 import postModel from '../models/post'
+import commentModel from '../models/comment'
 import { IPost } from '../models/post'
+import { ReactionTarget } from '../models/reaction'
+import { RevisionTarget } from '../models/revision'
+import { deleteReactionsOn, withReactionCounts } from './reaction'
+import { deleteAttachmentFiles, saveAttachments, UploadedFile } from './attachment'
+import { getFollowedIds } from './follow'
+import { deleteNotificationsAbout } from './notification'
+import { addedMentions, parseReferences } from './reference'
+import { deleteRevisionsOf, recordRevision } from './revision'
+import { createdAtFilter, DateRange, PageOptions, paginate } from '../utils/pagination';
+import { renderMarkdown } from '../utils/markdown';
+import { emitEvent } from '../utils/events';
 
-export const createPost = async (title: string, sender: string, content: string) => {
-    return await postModel.create({ title, sender, content });
+export interface PostFilters extends DateRange {
+    sender?: string,
+    senders?: mongoose.Types.ObjectId[],
+    tag?: string,
+    mentioned?: string
+}
+
+// Creates a post with the uploaded images attached. The images are removed again if the post cannot be saved.
+export const createPost = async (title: string, sender: string, content: string, files: UploadedFile[] = []) => {
+    const references = await parseReferences(content);
+    const attachments = await saveAttachments(files);
+    let post;
+
+    try {
+        post = await postModel.create({ title, sender, content, contentHtml: renderMarkdown(content), attachments, ...references });
+    } catch (error) {
+        await deleteAttachmentFiles(attachments);
+        throw error;
+    }
+
+    await emitEvent('postCreated', { post });
+    return post;
 }
 
 export const getPostById = async (id: string) => {
     return await postModel.findById(id);
 }
 
-export const getPosts = async () => {
-    return await postModel.find();
+export const getPosts = async (filters: PostFilters, options: PageOptions) => {
+    const filter = {
+        ...(filters.sender && { sender: new mongoose.Types.ObjectId(filters.sender) }),
+        ...(filters.senders && { sender: { $in: filters.senders } }),
+        ...(filters.tag && { tags: filters.tag }),
+        ...(filters.mentioned && { mentions: new mongoose.Types.ObjectId(filters.mentioned) }),
+        ...createdAtFilter(filters)
+    };
+
+    const withCommentCount = [
+        { $lookup: { from: commentModel.collection.name, localField: '_id', foreignField: 'postId', pipeline: [{ $match: { deleted: { $ne: true } } }, { $project: { _id: 1 } }], as: 'comments' } },
+        { $addFields: { commentCount: { $size: '$comments' } } },
+        { $project: { comments: 0 } }
+    ];
+
+    return await paginate(postModel, filter, [...withCommentCount, ...withReactionCounts(ReactionTarget.POST)], options);
 }
 
-export const getPostsBySender = async (sender: string) => {
-    return await postModel.find({ sender: sender });
+// Posts of the users `userId` follows.
+export const getFeed = async (userId: string, range: DateRange, options: PageOptions) => {
+    const senders = await getFollowedIds(userId);
+
+    return await getPosts({ ...range, senders }, options);
 }
 
-export const updatePost = async (id: string, postBody: IPost) => {
-    return await postModel.findByIdAndUpdate(id, postBody, { new: true });
+/**
+ * Applies an edit by `editor`. The HTML, mentions and hashtags are derived again when the
+ * content changes, and when the title or content changes the replaced version is kept
+ * as a revision in the same transaction.
+ */
+export const updatePost = async (id: string, postBody: Partial<IPost>, editor: string) => {
+    const derived = postBody.content !== undefined
+        ? { contentHtml: renderMarkdown(postBody.content), ...await parseReferences(postBody.content) }
+        : {};
+
+    const updated = await mongoose.connection.transaction(async (session) => {
+        const previous = await postModel.findById(id, null, { session });
+
+        if (!previous) {
+            return null;
+        }
+
+        const edited = (postBody.title !== undefined && postBody.title !== previous.title)
+            || (postBody.content !== undefined && postBody.content !== previous.content);
+
+        if (edited) {
+            await recordRevision(RevisionTarget.POST, previous, session);
+        }
+
+        const post = await postModel.findByIdAndUpdate(id, { ...postBody, ...derived, ...(edited && { editedAt: new Date(), editedBy: editor }) }, { new: true, session });
+        return post && { post, previousMentions: previous.mentions };
+    });
+
+    if (updated) {
+        await emitEvent('postUpdated', { post: updated.post, newMentions: addedMentions(updated.post.mentions, updated.previousMentions) });
+    }
+    return updated?.post ?? null;
+}
+
+
+// Deletes a post with its comments, reactions, notifications and revisions in one transaction, then its attachment files.
+export const deletePost = async (id: string) => {
+    const deletedPost = await mongoose.connection.transaction(async (session) => {
+        const post = await postModel.findByIdAndDelete(id, { session });
+
+        if (post) {
+            const commentIds = (await commentModel.find({ postId: post._id }, { _id: 1 }, { session })).map(comment => comment._id);
+            await deleteReactionsOn([post._id, ...commentIds], session);
+            await deleteNotificationsAbout([post._id], session);
+            await deleteRevisionsOf([post._id, ...commentIds], session);
+            await commentModel.deleteMany({ postId: post._id }, { session });
+        }
+
+        return post;
+    });
+
+    if (deletedPost) {
+        await deleteAttachmentFiles(deletedPost.attachments);
+        await emitEvent('postDeleted', { post: deletedPost });
+    }
+    return deletedPost;
 }
\ No newline at end of file
@@ -0,0 +1,92 @@
+import mongoose, { PipelineStage } from 'mongoose';
+import { MongoServerError } from 'mongodb';
+import reactionModel from '../models/reaction'
+import userModel from '../models/user'
+import { IReaction, ReactionTarget, ReactionType } from '../models/reaction'
+import { PageOptions, paginate } from '../utils/pagination';
+
+export type ReactionCounts = Partial<Record<ReactionType, number>>;
+
+export interface ReactionFilters {
+    type?: ReactionType
+}
+
+export type ReactionWithUser = Omit<IReaction, 'user'> & {
+    _id: mongoose.Types.ObjectId,
+    user: { _id: mongoose.Types.ObjectId, username: string }
+};
+
+/**
+ * Aggregation stages adding `reactions` (counts per reaction type) and `likeCount`
+ * to posts or comments, for use as `paginate` stages.
+ */
+export const withReactionCounts = (targetType: ReactionTarget): PipelineStage[] => [
+    {
+        $lookup: {
+            from: reactionModel.collection.name,
+            localField: '_id',
+            foreignField: 'targetId',
+            pipeline: [
+                { $match: { targetType } },
+                { $group: { _id: '$type', count: { $sum: 1 } } }
+            ],
+            as: 'reactions'
+        }
+    },
+    { $addFields: { reactions: { $arrayToObject: { $map: { input: '$reactions', in: { k: '$$this._id', v: '$$this.count' } } } } } },
+    { $addFields: { likeCount: { $ifNull: [`$reactions.${ReactionType.LIKE}`, 0] } } }
+];
+
+export const countReactions = async (targetType: ReactionTarget, targetIds: mongoose.Types.ObjectId[]) => {
+    const groups = await reactionModel.aggregate<{ _id: { targetId: mongoose.Types.ObjectId, type: ReactionType }, count: number }>([
+        { $match: { targetType, targetId: { $in: targetIds } } },
+        { $group: { _id: { targetId: '$targetId', type: '$type' }, count: { $sum: 1 } } }
+    ]);
+
+    const counts = new Map<string, ReactionCounts>(targetIds.map(id => [id.toString(), {}]));
+    for (const group of groups) {
+        counts.get(group._id.targetId.toString())![group._id.type] = group.count;
+    }
+
+    return counts;
+}
+
+export const getUserReactions = async (targetType: ReactionTarget, targetId: string, userId: string) => {
+    return await reactionModel.distinct('type', { targetType, targetId, user: userId });
+}
+
+export const addReaction = async (targetType: ReactionTarget, targetId: string, userId: string, type: ReactionType) => {
+    try {
+        await reactionModel.updateOne(
+            { targetType, targetId, user: userId, type },
+            { $setOnInsert: { targetType, targetId, user: userId, type } },
+            { upsert: true }
+        );
+    } catch (error) {
+        // A concurrent request inserted the same reaction first, so it exists as wanted.
+        if (!(error instanceof MongoServerError && error.code === 11000)) throw error;
+    }
+}
+
+export const removeReaction = async (targetType: ReactionTarget, targetId: string, userId: string, type: ReactionType) => {
+    await reactionModel.deleteOne({ targetType, targetId, user: userId, type });
+}
+
+export const getReactions = async (targetType: ReactionTarget, targetId: string, filters: ReactionFilters, options: PageOptions) => {
+    const filter = {
+        targetType,
+        targetId: new mongoose.Types.ObjectId(targetId),
+        ...(filters.type && { type: filters.type })
+    };
+
+    const withUser: PipelineStage[] = [
+        { $lookup: { from: userModel.collection.name, localField: 'user', foreignField: '_id', pipeline: [{ $project: { username: 1 } }], as: 'user' } },
+        { $unwind: '$user' }
+    ];
+
+    return await paginate<IReaction, ReactionWithUser>(reactionModel, filter, withUser, options);
+}
+
+export const deleteReactionsOn = async (targetIds: mongoose.Types.ObjectId[], session: mongoose.ClientSession) => {
+    return await reactionModel.deleteMany({ targetId: { $in: targetIds } }, { session });
+}
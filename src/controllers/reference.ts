@@ -0,0 +1,43 @@
+import mongoose from 'mongoose';
+import postModel from '../models/post'
+import commentModel from '../models/comment'
+import { getUsersByUsernames } from './user'
+import { createdAtFilter, DateRange } from '../utils/pagination';
+import { extractHashtags, extractMentions } from '../utils/references';
+
+export interface TrendingTag {
+    tag: string,
+    // Posts and comments of the window using the tag.
+    count: number,
+    postCount: number
+}
+
+// Resolves the mentions of a text to user IDs, dropping unknown usernames, and extracts its hashtags.
+export const parseReferences = async (text: string) => {
+    const usernames = extractMentions(text);
+    const users = usernames.length > 0 ? await getUsersByUsernames(usernames) : [];
+
+    return { mentions: users.map(user => user._id), tags: extractHashtags(text) };
+}
+
+// The users of `mentions` that `previous` did not mention yet, e.g. after an edit.
+export const addedMentions = (mentions: mongoose.Types.ObjectId[], previous: mongoose.Types.ObjectId[]) => {
+    return mentions.filter(id => !previous.some(other => other.equals(id)));
+}
+
+// Ranks the tags by how many posts and comments of the window use them.
+export const getTrendingTags = async (range: DateRange, limit: number) => {
+    const inWindow = { ...createdAtFilter(range), 'tags.0': { $exists: true } };
+
+    const tags = await postModel.aggregate<{ _id: string, count: number, postCount: number }>([
+        { $match: inWindow },
+        { $project: { tags: 1, isPost: { $literal: 1 } } },
+        { $unionWith: { coll: commentModel.collection.name, pipeline: [{ $match: inWindow }, { $project: { tags: 1, isPost: { $literal: 0 } } }] } },
+        { $unwind: '$tags' },
+        { $group: { _id: '$tags', count: { $sum: 1 }, postCount: { $sum: '$isPost' } } },
+        { $sort: { count: -1, _id: 1 } },
+        { $limit: limit }
+    ]);
+
+    return tags.map((tag): TrendingTag => ({ tag: tag._id, count: tag.count, postCount: tag.postCount }));
+}
@@ -0,0 +1,75 @@
+import mongoose, { PipelineStage } from 'mongoose';
+import revisionModel from '../models/revision'
+import userModel from '../models/user'
+import { IRevision, RevisionTarget } from '../models/revision'
+import { createdAtFilter, DateRange, PageOptions, paginate } from '../utils/pagination';
+import { diffText, TextChange } from '../utils/diff';
+
+// The fields of a post or comment that revisions keep. Comments have no title.
+export interface Version {
+    title?: string,
+    content: string
+}
+
+export interface VersionDiff {
+    title?: TextChange[],
+    content: TextChange[]
+}
+
+export type RevisionWithEditor = Omit<IRevision, 'editor'> & {
+    _id: mongoose.Types.ObjectId,
+    // Null once the editor's account is gone.
+    editor: { _id: mongoose.Types.ObjectId, username: string } | null
+};
+
+// A post or comment as stored, with who wrote its current version and when.
+type EditedVersion = Version & {
+    _id: mongoose.Types.ObjectId,
+    sender: mongoose.Types.ObjectId,
+    editedBy?: mongoose.Types.ObjectId,
+    editedAt?: Date,
+    createdAt?: Date
+};
+
+// Keeps the current version of a post or comment, which an edit is about to replace.
+export const recordRevision = async (targetType: RevisionTarget, previous: EditedVersion, session: mongoose.ClientSession) => {
+    await revisionModel.create([{
+        targetType,
+        targetId: previous._id,
+        title: previous.title,
+        content: previous.content,
+        // Versions from before an edit was ever made were written by the sender.
+        editor: previous.editedBy ?? previous.sender,
+        editedAt: previous.editedAt ?? previous.createdAt
+    }], { session });
+}
+
+export const getRevisions = async (targetType: RevisionTarget, targetId: string, range: DateRange, options: PageOptions) => {
+    const filter = { targetType, targetId: new mongoose.Types.ObjectId(targetId), ...createdAtFilter(range) };
+
+    const withEditor: PipelineStage[] = [
+        { $lookup: { from: userModel.collection.name, localField: 'editor', foreignField: '_id', pipeline: [{ $project: { username: 1 } }], as: 'editor' } },
+        { $unwind: { path: '$editor', preserveNullAndEmptyArrays: true } },
+        { $addFields: { editor: { $ifNull: ['$editor', null] } } }
+    ];
+
+    return await paginate<IRevision, RevisionWithEditor>(revisionModel, filter, withEditor, options);
+}
+
+export const getRevision = async (targetType: RevisionTarget, targetId: string, revisionId: string) => {
+    return await revisionModel.findOne({ _id: revisionId, targetType, targetId });
+}
+
+// The changes turning one version into another. Titles are only compared between post versions.
+export const diffVersions = (from: Version, to: Version): VersionDiff => ({
+    ...(from.title !== undefined && to.title !== undefined && { title: diffText(from.title, to.title) }),
+    content: diffText(from.content, to.content)
+});
+
+export const deleteRevisionsOf = async (targetIds: mongoose.Types.ObjectId[], session: mongoose.ClientSession) => {
+    return await revisionModel.deleteMany({ targetId: { $in: targetIds } }, { session });
+}
+
+export const reassignRevisionsOf = async (editor: mongoose.Types.ObjectId, to: mongoose.Types.ObjectId, session: mongoose.ClientSession) => {
+    return await revisionModel.updateMany({ editor }, { editor: to }, { session });
+}
@@ -0,0 +1,137 @@
+import mongoose, { Model, PipelineStage } from 'mongoose';
+import postModel from '../models/post'
+import commentModel from '../models/comment'
+import userModel from '../models/user'
+import { IPost } from '../models/post'
+import { IComment } from '../models/comment'
+import { IUser } from '../models/user'
+import { DELETED_USER_ID } from './user'
+import { InvalidQueryError, Page } from '../utils/pagination';
+
+export enum SearchType {
+    POST = 'post',
+    COMMENT = 'comment',
+    USER = 'user',
+}
+
+// Ties in relevance are broken by type in this order, then by newest ID.
+const SEARCH_TYPES = Object.values(SearchType);
+
+type Scored<T> = T & { _id: mongoose.Types.ObjectId, score: number };
+
+export type SearchHit =
+    | { type: SearchType.POST, score: number, document: Scored<IPost> }
+    | { type: SearchType.COMMENT, score: number, document: Scored<IComment> }
+    | { type: SearchType.USER, score: number, document: Scored<IUser> };
+
+export interface SearchOptions {
+    types: SearchType[],
+    limit: number,
+    cursor?: string
+}
+
+interface SearchCursor {
+    score: number,
+    type: SearchType,
+    id: mongoose.Types.ObjectId
+}
+
+const encodeCursor = (hit: SearchHit) => {
+    return Buffer.from(JSON.stringify({ s: hit.score, t: hit.type, id: hit.document._id.toString() })).toString('base64url');
+}
+
+const decodeCursor = (cursor: string): SearchCursor => {
+    let decoded;
+    try {
+        decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    } catch {
+        throw new InvalidQueryError('Invalid Cursor');
+    }
+
+    if (!decoded || typeof decoded.s !== 'number' || !SEARCH_TYPES.includes(decoded.t) || !mongoose.isValidObjectId(decoded.id)) {
+        throw new InvalidQueryError('Invalid Cursor');
+    }
+
+    return { score: decoded.s, type: decoded.t, id: new mongoose.Types.ObjectId(decoded.id as string) };
+}
+
+// Matches the documents of one collection that come after the cursor in the merged order.
+const afterCursor = (type: SearchType, cursor: SearchCursor) => {
+    const order = SEARCH_TYPES.indexOf(type) - SEARCH_TYPES.indexOf(cursor.type);
+
+    if (order > 0) {
+        return { score: { $lte: cursor.score } };
+    }
+    if (order < 0) {
+        return { score: { $lt: cursor.score } };
+    }
+    return {
+        $or: [
+            { score: { $lt: cursor.score } },
+            { score: cursor.score, _id: { $lt: cursor.id } }
+        ]
+    };
+}
+
+const searchCollection = async <T>(
+    model: Model<T>,
+    type: SearchType,
+    query: string,
+    filter: Record<string, unknown>,
+    cursor: SearchCursor | undefined,
+    limit: number
+) => {
+    const pipeline: PipelineStage[] = [
+        { $match: { $text: { $search: query }, ...filter } },
+        { $addFields: { score: { $meta: 'textScore' } } },
+    ];
+
+    if (cursor) {
+        pipeline.push({ $match: afterCursor(type, cursor) });
+    }
+
+    pipeline.push(
+        { $sort: { score: -1, _id: -1 } },
+        { $limit: limit }
+    );
+
+    return await model.aggregate<Scored<T>>(pipeline);
+}
+
+const compareHits = (a: SearchHit, b: SearchHit) => {
+    return b.score - a.score
+        || SEARCH_TYPES.indexOf(a.type) - SEARCH_TYPES.indexOf(b.type)
+        || b.document._id.toString().localeCompare(a.document._id.toString());
+}
+
+/**
+ * Runs a text search over every requested collection and merges the results by
+ * relevance. Scores come from separate text indexes, so they rank well within a
+ * type but are only roughly comparable across types.
+ */
+export const search = async (query: string, options: SearchOptions): Promise<Page<SearchHit>> => {
+    const cursor = options.cursor ? decodeCursor(options.cursor) : undefined;
+    const fetch = options.limit + 1;
+    const hits: SearchHit[] = [];
+
+    if (options.types.includes(SearchType.POST)) {
+        const posts = await searchCollection(postModel, SearchType.POST, query, {}, cursor, fetch);
+        hits.push(...posts.map(document => ({ type: SearchType.POST as const, score: document.score, document })));
+    }
+
+    if (options.types.includes(SearchType.COMMENT)) {
+        const comments = await searchCollection(commentModel, SearchType.COMMENT, query, { deleted: { $ne: true } }, cursor, fetch);
+        hits.push(...comments.map(document => ({ type: SearchType.COMMENT as const, score: document.score, document })));
+    }
+
+    if (options.types.includes(SearchType.USER)) {
+        const users = await searchCollection(userModel, SearchType.USER, query, { _id: { $ne: DELETED_USER_ID } }, cursor, fetch);
+        hits.push(...users.map(document => ({ type: SearchType.USER as const, score: document.score, document })));
+    }
+
+    hits.sort(compareHits);
+    const items = hits.slice(0, options.limit);
+    const nextCursor = hits.length > options.limit ? encodeCursor(items[items.length - 1]) : null;
+
+    return { items, nextCursor };
+}
@@ -0,0 +1,49 @@
+import mongoose from 'mongoose';
+import sessionModel from '../models/session'
+
+export interface ClientInfo {
+    userAgent?: string,
+    ip?: string
+}
+
+export interface SessionToken {
+    tokenHash: string,
+    expiresAt: Date
+}
+
+export const createSession = async (sessionId: mongoose.Types.ObjectId, userId: mongoose.Types.ObjectId, token: SessionToken, client: ClientInfo) => {
+    return await sessionModel.create({ _id: sessionId, user: userId, ...token, ...client, lastUsedAt: new Date() });
+}
+
+export const getSessionById = async (sessionId: string) => {
+    return await sessionModel.findOne({ _id: sessionId, expiresAt: { $gt: new Date() } });
+}
+
+// Expired sessions are filtered out as well, since Mongo only prunes them periodically.
+export const getSessions = async (userId: string) => {
+    return await sessionModel.find({ user: userId, expiresAt: { $gt: new Date() } }).sort({ lastUsedAt: -1 });
+}
+
+/**
+ * Replaces the session's token only while it still holds `previousHash`, so of two
+ * refreshes racing with the same token only one rotates. Returns null for the other.
+ */
+export const rotateSession = async (sessionId: mongoose.Types.ObjectId, previousHash: string, token: SessionToken, client: ClientInfo) => {
+    return await sessionModel.findOneAndUpdate(
+        { _id: sessionId, tokenHash: previousHash },
+        { ...token, ...client, lastUsedAt: new Date() },
+        { new: true }
+    );
+}
+
+export const deleteSession = async (sessionId: string, userId: string) => {
+    return await sessionModel.findOneAndDelete({ _id: sessionId, user: userId });
+}
+
+export const deleteOtherSessions = async (userId: string, currentSessionId?: string) => {
+    const result = await sessionModel.deleteMany({
+        user: userId,
+        ...(currentSessionId && { _id: { $ne: currentSessionId } })
+    });
+    return result.deletedCount;
+}
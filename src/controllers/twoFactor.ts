@@ -0,0 +1,88 @@
+import mongoose from 'mongoose';
+import { randomBytes } from 'crypto';
+import userModel from '../models/user'
+import { IUser } from '../models/user'
+import { hashToken } from '../utils/jwt';
+import { generateTotpSecret, verifyTotp } from '../utils/totp';
+
+const RECOVERY_CODE_COUNT = 10;
+
+type TwoFactorUser = Pick<IUser, 'twoFactorSecret'> & { _id: mongoose.Types.ObjectId };
+
+// Codes look like `3f9a1-c07e2`. Users may type them in upper case.
+const normalizeRecoveryCode = (code: string) => code.trim().toLowerCase();
+
+const generateRecoveryCodes = () => Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+});
+
+// Starts over with a new secret, which takes effect once a code for it is confirmed.
+export const startTwoFactorEnrollment = async (userId: string) => {
+    const secret = generateTotpSecret();
+
+    await userModel.updateOne({ _id: userId }, { twoFactorSecret: secret, $unset: { twoFactorLastStep: 1 } });
+
+    return secret;
+}
+
+// Returns the recovery codes in plain text. Only their hashes are stored, so they cannot be shown again.
+export const enableTwoFactor = async (userId: string) => {
+    const recoveryCodes = generateRecoveryCodes();
+
+    await userModel.updateOne({ _id: userId }, {
+        twoFactorEnabled: true,
+        recoveryCodeHashes: recoveryCodes.map(hashToken)
+    });
+
+    return recoveryCodes;
+}
+
+export const regenerateRecoveryCodes = async (userId: string) => {
+    const recoveryCodes = generateRecoveryCodes();
+
+    await userModel.updateOne({ _id: userId }, { recoveryCodeHashes: recoveryCodes.map(hashToken) });
+
+    return recoveryCodes;
+}
+
+export const disableTwoFactor = async (userId: string) => {
+    await userModel.updateOne({ _id: userId }, {
+        twoFactorEnabled: false,
+        recoveryCodeHashes: [],
+        $unset: { twoFactorSecret: 1, twoFactorLastStep: 1 }
+    });
+}
+
+/**
+ * Checks a TOTP code or, when `allowRecoveryCode` is set, an unused recovery code.
+ * Accepted codes are used up: the matched time step and any earlier one are
+ * rejected from then on, and a recovery code is removed. Both updates are
+ * conditional, so concurrent requests cannot use the same code twice.
+ */
+export const verifySecondFactor = async (user: TwoFactorUser, code: string, allowRecoveryCode = true) => {
+    if (!user.twoFactorSecret) {
+        return false;
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, code.trim());
+
+    if (step !== null) {
+        const result = await userModel.updateOne(
+            { _id: user._id, twoFactorSecret: user.twoFactorSecret, twoFactorLastStep: { $not: { $gte: step } } },
+            { twoFactorLastStep: step }
+        );
+        return result.modifiedCount === 1;
+    }
+
+    if (!allowRecoveryCode) {
+        return false;
+    }
+
+    const codeHash = hashToken(normalizeRecoveryCode(code));
+    const result = await userModel.updateOne(
+        { _id: user._id, recoveryCodeHashes: codeHash },
+        { $pull: { recoveryCodeHashes: codeHash } }
+    );
+    return result.modifiedCount === 1;
+}
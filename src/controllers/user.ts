@@ -1,26 +1,198 @@
+import mongoose from 'mongoose';
 import userModel from '../models/user'
+import postModel, { IAttachment } from '../models/post'
+import commentModel from '../models/comment'
 import { IUser } from '../models/user'
+import reactionModel from '../models/reaction'
+import sessionModel from '../models/session'
+import userTokenModel from '../models/userToken'
+import identityModel from '../models/identity'
+import { removeComments } from './comment'
+import { deleteReactionsOn } from './reaction'
+import { deleteFollowsOf } from './follow'
+import { deleteNotificationsAbout, deleteNotificationsOf } from './notification'
+import { deleteRevisionsOf, reassignRevisionsOf } from './revision'
+import { deleteAttachmentFiles, UploadedFile } from './attachment'
+import { deleteFiles, getFileStorage } from '../utils/fileStorage'
+import { renderAvatar } from '../utils/images'
+
+export enum DeletionMode {
+    HARD = 'hard',
+    ANONYMIZE = 'anonymize',
+}
+
+// Content of anonymized accounts is reassigned to this placeholder user.
+export const DELETED_USER_ID = new mongoose.Types.ObjectId('000000000000000000000000');
+const DELETED_USER_USERNAME = '[deleted]';
+
+// Not a valid bcrypt hash, so no password can ever match it.
+export const NO_PASSWORD_HASH = '!';
 
 export const createUser = async (username: string, email: string, passwordHash: string) => {
     return await userModel.create({ username, email, passwordHash });
 }
 
+// Accounts created by social login can log in with a password only after setting one through a password reset.
+export const createUserWithoutPassword = async (username: string, email: string) => {
+    return await userModel.create({ username, email, passwordHash: NO_PASSWORD_HASH, emailVerified: true });
+}
+
+export const hasPassword = (user: Pick<IUser, 'passwordHash'>) => user.passwordHash !== NO_PASSWORD_HASH;
+
+/**
+ * Turns a name suggested by an identity provider into an unused username, appending
+ * random digits when it is taken. Characters usernames may not contain are dropped.
+ */
+export const availableUsername = async (suggestion: string) => {
+    const base = suggestion.replace(/[^a-zA-Z0-9_.-]/g, '').slice(0, 24).padEnd(3, '_');
+
+    let username = base;
+    while (await userModel.exists({ username })) {
+        username = `${base}${Math.floor(Math.random() * 1000000)}`;
+    }
+    return username;
+}
+
 export const getUserById = async (id: string) => {
     return await userModel.findById(id);
 }
 
 export const getUsers = async () => {
-    return await userModel.find();
+    return await userModel.find({ _id: { $ne: DELETED_USER_ID } });
 }
 
 export const getUserByUsername = async (username: string) => {
     return await userModel.findOne({ username: username });
 }
 
-export const updateUser = async (id: string, userBody: IUser) => {  
-    return await userModel.findByIdAndUpdate(id, userBody, { new: true });
+export const getUsersByUsernames = async (usernames: string[]) => {
+    return await userModel.find({ username: { $in: usernames } });
+}
+
+export const getUserByEmail = async (email: string) => {
+    return await userModel.findOne({ email: email });
+}
+
+// Sets the fields of `userBody` and removes the `unset` ones.
+export const updateUser = async (id: string, userBody: Partial<IUser>, unset: (keyof IUser)[] = []) => {
+    const update = {
+        $set: userBody,
+        ...(unset.length > 0 && { $unset: Object.fromEntries(unset.map(field => [field, 1])) })
+    };
+
+    return await userModel.findByIdAndUpdate(id, update, { new: true });
+}
+
+// Stores a resized copy of an uploaded avatar and returns its key. Each upload gets a new key, so caches never serve the old image.
+export const saveAvatar = async (userId: string, file: UploadedFile) => {
+    const avatar = await renderAvatar(file.buffer);
+    const key = `avatars/${userId}-${new mongoose.Types.ObjectId()}.webp`;
+
+    await getFileStorage().put(key, avatar, 'image/webp');
+    return key;
+}
+
+// Counts the posts and the comments that are not deleted, for profile pages.
+export const countUserContent = async (id: mongoose.Types.ObjectId) => {
+    const [posts, comments] = await Promise.all([
+        postModel.countDocuments({ sender: id }),
+        commentModel.countDocuments({ sender: id, deleted: { $ne: true } })
+    ]);
+    return { posts, comments };
+}
+
+const ensureDeletedUser = async (session: mongoose.ClientSession) => {
+    await userModel.updateOne(
+        { _id: DELETED_USER_ID },
+        {
+            $setOnInsert: {
+                username: DELETED_USER_USERNAME,
+                email: 'deleted-user@invalid',
+                passwordHash: NO_PASSWORD_HASH
+            }
+        },
+        { upsert: true, session }
+    );
 }
 
-export const deleteUser = async (id: string) => {
-    return await userModel.findByIdAndDelete(id);
-}
\ No newline at end of file
+/**
+ * Deletes a user account and everything that references it in one transaction.
+ * HARD removes the user's posts (with all their comments) and comments, leaving a
+ * placeholder for comments that have replies. ANONYMIZE reassigns them to the
+ * placeholder user. Sessions are revoked, linked identities unlinked and the user's
+ * reactions, follows, notifications and mentions removed in both modes. Revisions go
+ * with the posts and comments they belong to, and edits the user made to content that
+ * stays are attributed to the placeholder user. The avatar and the files attached to
+ * removed posts are deleted once the transaction has committed.
+ */
+export const deleteUser = async (id: string, mode: DeletionMode) => {
+    let removedAttachments: IAttachment[] = [];
+
+    const deletion = await mongoose.connection.transaction(async (session) => {
+        const user = await userModel.findByIdAndDelete(id, { session });
+
+        if (!user) {
+            return null;
+        }
+
+        const report = {
+            user,
+            mode,
+            posts: 0,
+            comments: 0,
+            commentsOnDeletedPosts: 0,
+            reactions: 0,
+            sessionsRevoked: 0
+        };
+
+        await ensureDeletedUser(session);
+
+        if (mode === DeletionMode.HARD) {
+            const posts = await postModel.find({ sender: user._id }, { _id: 1, attachments: 1 }, { session });
+            const postIds = posts.map(post => post._id);
+            removedAttachments = posts.flatMap(post => post.attachments);
+            const commentIdsOnPosts = (await commentModel.find({ postId: { $in: postIds } }, { _id: 1 }, { session })).map(comment => comment._id);
+            await deleteReactionsOn([...postIds, ...commentIdsOnPosts], session);
+            await deleteNotificationsAbout(postIds, session);
+            await deleteRevisionsOf([...postIds, ...commentIdsOnPosts], session);
+            const commentsOnPosts = await commentModel.deleteMany({ postId: { $in: postIds }, sender: { $ne: user._id } }, { session });
+            const ownCommentsOnPosts = await commentModel.deleteMany({ postId: { $in: postIds } }, { session });
+            const commentIds = (await commentModel.find({ sender: user._id, deleted: { $ne: true } }, { _id: 1 }, { session })).map(comment => comment._id);
+            await removeComments(commentIds, session);
+            const deletedPosts = await postModel.deleteMany({ _id: { $in: postIds } }, { session });
+
+            report.posts = deletedPosts.deletedCount;
+            report.comments = ownCommentsOnPosts.deletedCount + commentIds.length;
+            report.commentsOnDeletedPosts = commentsOnPosts.deletedCount;
+        } else {
+            const posts = await postModel.updateMany({ sender: user._id }, { sender: DELETED_USER_ID }, { session });
+            const comments = await commentModel.updateMany({ sender: user._id }, { sender: DELETED_USER_ID }, { session });
+
+            report.posts = posts.modifiedCount;
+            report.comments = comments.modifiedCount;
+        }
+
+        const reactions = await reactionModel.deleteMany({ user: user._id }, { session });
+        report.reactions = reactions.deletedCount;
+
+        const sessions = await sessionModel.deleteMany({ user: user._id }, { session });
+        report.sessionsRevoked = sessions.deletedCount;
+        await userTokenModel.deleteMany({ user: user._id }, { session });
+        await identityModel.deleteMany({ user: user._id }, { session });
+        await deleteFollowsOf(user._id, session);
+        await deleteNotificationsOf(user._id, session);
+        await postModel.updateMany({ mentions: user._id }, { $pull: { mentions: user._id } }, { session });
+        await commentModel.updateMany({ mentions: user._id }, { $pull: { mentions: user._id } }, { session });
+        await postModel.updateMany({ editedBy: user._id }, { editedBy: DELETED_USER_ID }, { session });
+        await commentModel.updateMany({ editedBy: user._id }, { editedBy: DELETED_USER_ID }, { session });
+        await reassignRevisionsOf(user._id, DELETED_USER_ID, session);
+
+        return report;
+    });
+
+    if (deletion?.user.avatarKey) {
+        await deleteFiles([deletion.user.avatarKey]);
+    }
+    await deleteAttachmentFiles(removedAttachments);
+    return deletion;
+}
@@ -0,0 +1,45 @@
+import mongoose from 'mongoose';
+import { randomBytes } from 'crypto';
+import userTokenModel from '../models/userToken'
+import { TokenPurpose } from '../models/userToken'
+import { hashToken } from '../utils/jwt';
+
+/**
+ * Issues a single-use token for the user, replacing any earlier token issued for
+ * the same purpose. Only the hash is stored; the returned token is sent by email.
+ */
+export const issueUserToken = async (userId: mongoose.Types.ObjectId, purpose: TokenPurpose, ttlMinutes: number) => {
+    const token = randomBytes(32).toString('base64url');
+
+    await userTokenModel.deleteMany({ user: userId, purpose });
+    await userTokenModel.create({
+        user: userId,
+        purpose,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000)
+    });
+
+    return token;
+}
+
+// Returns the ID of the token's user without using the token up, or null when it is unknown or expired.
+export const getUserTokenOwner = async (token: string, purpose: TokenPurpose) => {
+    const userToken = await userTokenModel.findOne({
+        tokenHash: hashToken(token),
+        purpose,
+        expiresAt: { $gt: new Date() }
+    });
+
+    return userToken?.user ?? null;
+}
+
+// Returns the ID of the token's user, or null when the token is unknown, expired or already used.
+export const consumeUserToken = async (token: string, purpose: TokenPurpose) => {
+    const userToken = await userTokenModel.findOneAndDelete({
+        tokenHash: hashToken(token),
+        purpose,
+        expiresAt: { $gt: new Date() }
+    });
+
+    return userToken?.user ?? null;
+}
@@ -1,21 +1,40 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt, { JwtPayload } from 'jsonwebtoken';
+import jwt, { JwtPayload, TokenExpiredError } from 'jsonwebtoken';
 import env from '../utils/env';
+import { ACCESS_TOKEN_COOKIE, hasValidCsrfToken, isSafeMethod } from '../utils/authCookies';
+import { ErrorCode, ForbiddenError, UnauthorizedError } from '../utils/errors';
+import { getUserById } from '../controllers/user';
 
 const authenticate = async (req: Request, res: Response, next: NextFunction) => {
     const authHeader = req.headers['authorization'];
-    const token = authHeader?.split(" ")[1];
+    const headerToken = authHeader?.split(" ")[1];
+    const cookieToken: string | undefined = req.cookies?.[ACCESS_TOKEN_COOKIE];
+    const token = headerToken || cookieToken;
     const secret = env.ACCESS_TOKEN_SECRET;
 
     if (!token) {
-        return res.status(401).send({ message: 'Missing Authorization' });
+        return next(new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Missing Authorization'));
+    }
+
+    // Browsers attach cookies to cross-site requests too, unlike the Authorization header.
+    if (!headerToken && !hasValidCsrfToken(req)) {
+        return next(new ForbiddenError(ErrorCode.INVALID_CSRF_TOKEN, 'Invalid CSRF Token'));
     }
 
     jwt.verify(token, secret, (error, user) => {
-        if (error) return res.status(403).send(error.message);
+        if (error instanceof TokenExpiredError) return next(new ForbiddenError(ErrorCode.TOKEN_EXPIRED, 'Token Expired'));
+        if (error) return next(new ForbiddenError(ErrorCode.INVALID_TOKEN, 'Invalid Token'));
         req.user = user as JwtPayload;
-        next();
+
+        if (isSafeMethod(req)) {
+            return next();
+        }
+
+        // Access tokens outlive a deleted account, which must not add content again.
+        getUserById(req.user._id)
+            .then(account => next(account ? undefined : new UnauthorizedError(ErrorCode.INVALID_TOKEN, 'User No Longer Exists')))
+            .catch(next);
     })
 }
 
-export default authenticate
\ No newline at end of file
+export default authenticate
@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction } from 'express';
+import { ErrorCode, ForbiddenError, UnauthorizedError } from '../utils/errors';
+import { hasPermission, Permission } from '../utils/permissions';
+
+/**
+ * Resolves the id of the user owning the resource a request targets. Resolvers
+ * should throw a NotFoundError when the resource does not exist.
+ */
+export type OwnerResolver = (req: Request) => Promise<unknown>;
+
+const authorize = (permission: Permission, ownerOf?: OwnerResolver) => async (req: Request, res: Response, next: NextFunction) => {
+    const user = req.user;
+
+    if (!user) {
+        throw new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Unauthenticated');
+    }
+
+    if (hasPermission(user.role, permission)) {
+        return next();
+    }
+
+    if (ownerOf) {
+        const ownerId = await ownerOf(req);
+        if (ownerId !== undefined && String(ownerId) === user._id) {
+            return next();
+        }
+    }
+
+    throw new ForbiddenError(ErrorCode.FORBIDDEN, 'Forbidden');
+}
+
+export default authorize
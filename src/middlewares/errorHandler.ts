@@ -0,0 +1,58 @@
+import { Request, Response, NextFunction } from 'express';
+import { ErrorCode, HttpError, NotFoundError, TooManyRequestsError } from '../utils/errors';
+
+const isBodyParserError = (error: unknown): error is { status: number, type: string } => {
+    return typeof error === 'object' && error !== null
+        && 'type' in error && typeof error.type === 'string'
+        && 'status' in error && typeof error.status === 'number';
+}
+
+// Messages for the body-parser errors clients cause, by their `type`; other types get a generic one.
+const bodyParserMessages: Record<string, string> = {
+    'entity.parse.failed': 'Malformed JSON Body',
+    'entity.too.large': 'Body Too Large',
+    'charset.unsupported': 'Unsupported Charset',
+    'encoding.unsupported': 'Unsupported Content Encoding',
+};
+
+const toHttpError = (error: unknown) => {
+    if (error instanceof HttpError) {
+        return error;
+    }
+
+    // body-parser sets the status a client error deserves, e.g. 413 for a body over the limit.
+    if (isBodyParserError(error) && error.status >= 400 && error.status < 500) {
+        const code = error.type === 'entity.parse.failed' ? ErrorCode.INVALID_JSON : ErrorCode.INVALID_BODY;
+        return new HttpError(error.status, code, bodyParserMessages[error.type] ?? 'Invalid Body');
+    }
+
+    console.error(error);
+    return new HttpError(500, ErrorCode.INTERNAL_ERROR, 'Internal Server Error');
+}
+
+export const notFoundHandler = (req: Request, res: Response, next: NextFunction) => {
+    next(new NotFoundError(`Route ${req.method} ${req.path} Not Found`));
+}
+
+const errorHandler = (error: unknown, req: Request, res: Response, next: NextFunction) => {
+    // A response that already started, such as an event stream, can only be ended by Express.
+    if (res.headersSent) {
+        return next(error);
+    }
+
+    const httpError = toHttpError(error);
+
+    if (httpError instanceof TooManyRequestsError) {
+        res.set('Retry-After', String(httpError.retryAfterSeconds));
+    }
+
+    res.status(httpError.status).send({
+        error: {
+            code: httpError.code,
+            message: httpError.message,
+            details: httpError.details
+        }
+    });
+}
+
+export default errorHandler
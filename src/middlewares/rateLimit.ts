@@ -0,0 +1,48 @@
+import { Request, Response, NextFunction } from 'express';
+import env from '../utils/env';
+import { ErrorCode, TooManyRequestsError } from '../utils/errors';
+import { getRateLimitStore, secondsUntil } from '../utils/rateLimitStore';
+
+export interface RateLimitOptions {
+    // Separates the counters of different limits that share a key.
+    name: string,
+    limit: number,
+    windowMs: number,
+    // Requests without a key are not limited.
+    key: (req: Request) => string | undefined
+}
+
+export const byIp = (req: Request) => req.ip;
+
+// Must run after `authenticate`.
+export const byUser = (req: Request) => req.user?._id.toString();
+
+/**
+ * Allows `limit` requests per key in each fixed window of `windowMs` and rejects
+ * the rest with 429 and `Retry-After`. Every limited response carries the
+ * `RateLimit-Limit`, `RateLimit-Remaining` and `RateLimit-Reset` headers.
+ */
+const rateLimit = (options: RateLimitOptions) => async (req: Request, res: Response, next: NextFunction) => {
+    const key = options.key(req);
+
+    if (!env.RATE_LIMIT_ENABLED || !key) {
+        return next();
+    }
+
+    const { count, resetAt } = await getRateLimitStore().increment(`${options.name}:${key}`, options.windowMs);
+    const reset = secondsUntil(resetAt);
+
+    res.set({
+        'RateLimit-Limit': String(options.limit),
+        'RateLimit-Remaining': String(Math.max(0, options.limit - count)),
+        'RateLimit-Reset': String(reset)
+    });
+
+    if (count > options.limit) {
+        throw new TooManyRequestsError(ErrorCode.RATE_LIMITED, 'Too Many Requests', reset);
+    }
+
+    next();
+}
+
+export default rateLimit
@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from 'express';
+import { getUserById } from '../controllers/user';
+import env, { EmailVerificationRequirement } from '../utils/env';
+import { ErrorCode, ForbiddenError, UnauthorizedError } from '../utils/errors';
+
+/**
+ * Rejects users whose email is not verified when `EMAIL_VERIFICATION_REQUIRED` is
+ * set. Access tokens may predate the verification, so the user is read from the
+ * database rather than the token.
+ */
+const requireVerifiedEmail = async (req: Request, res: Response, next: NextFunction) => {
+    if (env.EMAIL_VERIFICATION_REQUIRED === EmailVerificationRequirement.NONE) {
+        return next();
+    }
+
+    if (!req.user) {
+        throw new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Unauthenticated');
+    }
+
+    const user = await getUserById(req.user._id);
+
+    if (!user?.emailVerified) {
+        throw new ForbiddenError(ErrorCode.EMAIL_NOT_VERIFIED, 'Email Not Verified');
+    }
+
+    next();
+}
+
+export default requireVerifiedEmail
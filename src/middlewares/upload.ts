@@ -0,0 +1,57 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import env from '../utils/env';
+import { ALLOWED_IMAGE_MIME_TYPES } from '../utils/images';
+import { BadRequestError, ErrorCode, PayloadTooLargeError } from '../utils/errors';
+
+interface UploadOptions {
+    field: string,
+    maxCount: number,
+    maxSizeMb: number
+}
+
+const toHttpError = (error: multer.MulterError, options: UploadOptions) => {
+    switch (error.code) {
+        case 'LIMIT_FILE_SIZE':
+            return new PayloadTooLargeError(ErrorCode.ATTACHMENT_TOO_LARGE, `Files Must Be At Most ${options.maxSizeMb} MB`);
+        case 'LIMIT_FILE_COUNT':
+            return new BadRequestError(ErrorCode.TOO_MANY_ATTACHMENTS, `Too Many Files, At Most ${options.maxCount} Allowed`);
+        case 'LIMIT_UNEXPECTED_FILE':
+            return new BadRequestError(ErrorCode.INVALID_ATTACHMENT, `Files Must Be Sent As "${options.field}"`);
+        default:
+            return new BadRequestError(ErrorCode.VALIDATION_FAILED, error.message);
+    }
+}
+
+/**
+ * Parses `multipart/form-data` requests, keeping the images of `field` in memory as
+ * `req.files` and the other fields as `req.body`. Other requests pass through.
+ */
+const uploadImages = (options: UploadOptions) => {
+    const upload = multer({
+        storage: multer.memoryStorage(),
+        // Browsers send UTF-8 file names.
+        defParamCharset: 'utf8',
+        limits: {
+            fileSize: options.maxSizeMb * 1024 * 1024,
+            files: options.maxCount
+        },
+        // Only a first check; the content is checked again when the image is processed.
+        fileFilter: (req, file, callback) => {
+            if (!ALLOWED_IMAGE_MIME_TYPES.includes(file.mimetype)) {
+                return callback(new BadRequestError(ErrorCode.INVALID_ATTACHMENT, 'Unsupported Image Type', { filename: file.originalname }));
+            }
+            callback(null, true);
+        }
+    }).array(options.field);
+
+    return (req: Request, res: Response, next: NextFunction) => {
+        upload(req, res, (error: unknown) => {
+            next(error instanceof multer.MulterError ? toHttpError(error, options) : error);
+        });
+    }
+}
+
+export const uploadAttachments = uploadImages({ field: 'attachments', maxCount: env.ATTACHMENT_MAX_COUNT, maxSizeMb: env.ATTACHMENT_MAX_SIZE_MB });
+
+export const uploadAvatar = uploadImages({ field: 'avatar', maxCount: 1, maxSizeMb: env.AVATAR_MAX_SIZE_MB });
@@ -0,0 +1,79 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { BadRequestError, ErrorCode } from '../utils/errors';
+
+export interface RequestSchema {
+    body?: z.ZodType,
+    params?: z.ZodType,
+    query?: z.ZodType
+}
+
+const errorCodes = {
+    body: ErrorCode.VALIDATION_FAILED,
+    params: ErrorCode.INVALID_ID,
+    query: ErrorCode.INVALID_QUERY,
+}
+
+// The parsed query of each request together with the schema it was validated against.
+const parsedQueries = new WeakMap<Request, { schema: z.ZodType, value: unknown }>();
+
+const parse = (part: keyof RequestSchema, schema: z.ZodType, value: unknown) => {
+    const result = schema.safeParse(value);
+
+    if (!result.success) {
+        const details = result.error.issues.map(issue => ({
+            path: issue.path.join('.'),
+            message: issue.message
+        }));
+        throw new BadRequestError(errorCodes[part], details[0].message, details);
+    }
+
+    return result.data;
+}
+
+/**
+ * Validates the request against the given schemas and replaces each part with
+ * its parsed value, so handlers only ever see trimmed, coerced and known fields.
+ */
+const validate = (schema: RequestSchema) => (req: Request, res: Response, next: NextFunction) => {
+    if (schema.params) {
+        req.params = parse('params', schema.params, req.params) as Request['params'];
+    }
+
+    if (schema.query) {
+        const query = parse('query', schema.query, req.query);
+        parsedQueries.set(req, { schema: schema.query, value: query });
+
+        // req.query is a getter in Express 5, so it has to be redefined rather than assigned.
+        Object.defineProperty(req, 'query', {
+            value: query,
+            writable: true,
+            enumerable: true,
+            configurable: true
+        });
+    }
+
+    if (schema.body) {
+        if (req.body === undefined) {
+            throw new BadRequestError(ErrorCode.MISSING_BODY, 'Missing Body');
+        }
+        req.body = parse('body', schema.body, req.body);
+    }
+
+    next();
+}
+
+/**
+ * The query as parsed by `validate`, typed by the schema it was validated against.
+ * Express still types `req.query` as raw strings.
+ */
+export const validatedQuery = <S extends z.ZodType>(req: Request, schema: S): z.output<S> => {
+    const parsed = parsedQueries.get(req);
+
+    if (parsed?.schema !== schema) {
+        throw new Error('Query Not Validated Against This Schema');
+    }
+    return parsed.value as z.output<S>;
+}
+
+export default validate
@@ -1,9 +1,28 @@
 import mongoose, { Schema } from 'mongoose';
 
+// Replies nested deeper than this are rejected.
+export const MAX_COMMENT_DEPTH = 5;
+
+// Content stored on a deleted comment that is kept because it still has replies.
+export const DELETED_COMMENT_CONTENT = '[deleted]';
+
 interface IComment {
     postId: mongoose.Types.ObjectId,
+    parentCommentId: mongoose.Types.ObjectId | null,
+    depth: number,
     sender: mongoose.Types.ObjectId,
-    content: string
+    // Markdown source, and the sanitized HTML rendered from it.
+    content: string,
+    contentHtml?: string,
+    // Users mentioned and lowercased hashtags used in the content.
+    mentions: mongoose.Types.ObjectId[],
+    tags: string[],
+    deleted: boolean,
+    // When and by whom the content was last changed; earlier versions are kept as revisions.
+    editedAt?: Date,
+    editedBy?: mongoose.Types.ObjectId,
+    createdAt?: Date,
+    updatedAt?: Date
 }
 
 const commentSchema = new mongoose.Schema<IComment>({
@@ -12,6 +31,17 @@ const commentSchema = new mongoose.Schema<IComment>({
         ref: "posts",
         required: true
     },
+    parentCommentId: {
+        type: Schema.Types.ObjectId,
+        ref: "comments",
+        default: null
+    },
+    depth: {
+        type: Number,
+        default: 0,
+        min: 0,
+        max: MAX_COMMENT_DEPTH
+    },
     sender: {
         type: Schema.Types.ObjectId,
         ref: "users",
@@ -20,10 +50,41 @@ const commentSchema = new mongoose.Schema<IComment>({
     content: {
         type: String,
         required: true
+    },
+    contentHtml: {
+        type: String
+    },
+    mentions: {
+        type: [Schema.Types.ObjectId],
+        ref: "users",
+        default: []
+    },
+    tags: {
+        type: [String],
+        default: []
+    },
+    deleted: {
+        type: Boolean,
+        default: false
+    },
+    editedAt: {
+        type: Date
+    },
+    editedBy: {
+        type: Schema.Types.ObjectId,
+        ref: "users"
     }
-});
+}, { timestamps: true });
+
+commentSchema.index({ postId: 1, createdAt: -1 });
+commentSchema.index({ sender: 1, createdAt: -1 });
+commentSchema.index({ parentCommentId: 1, createdAt: -1 });
+commentSchema.index({ mentions: 1, createdAt: -1, _id: -1 });
+// Trending tags count the comments of a time window.
+commentSchema.index({ createdAt: -1 });
+commentSchema.index({ content: 'text' }, { name: 'comment_text' });
 
 const commentModel = mongoose.model<IComment>("comments", commentSchema);
 
 export default commentModel;
-export { IComment };
\ No newline at end of file
+export { IComment };
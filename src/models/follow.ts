@@ -0,0 +1,31 @@
+import mongoose from 'mongoose';
+
+interface IFollow {
+    follower: mongoose.Types.ObjectId,
+    following: mongoose.Types.ObjectId,
+    createdAt?: Date,
+    updatedAt?: Date
+}
+
+const followSchema = new mongoose.Schema<IFollow>({
+    follower: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "users",
+        required: true
+    },
+    following: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "users",
+        required: true
+    }
+}, { timestamps: true });
+
+followSchema.index({ follower: 1, following: 1 }, { unique: true });
+// Follower and following lists are paginated newest first.
+followSchema.index({ following: 1, createdAt: -1, _id: -1 });
+followSchema.index({ follower: 1, createdAt: -1, _id: -1 });
+
+const followModel = mongoose.model<IFollow>("follows", followSchema);
+
+export default followModel;
+export { IFollow };
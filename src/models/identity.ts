@@ -0,0 +1,43 @@
+import mongoose, { Schema } from 'mongoose';
+
+// An account at an OpenID Connect provider that can be used to log in as the user.
+interface IIdentity {
+    user: mongoose.Types.ObjectId,
+    provider: string,
+    // The provider's stable ID of the account (the `sub` claim).
+    subject: string,
+    email?: string,
+    lastLoginAt?: Date,
+    createdAt?: Date,
+    updatedAt?: Date
+}
+
+const identitySchema = new mongoose.Schema<IIdentity>({
+    user: {
+        type: Schema.Types.ObjectId,
+        ref: "users",
+        required: true
+    },
+    provider: {
+        type: String,
+        required: true
+    },
+    subject: {
+        type: String,
+        required: true
+    },
+    email: {
+        type: String
+    },
+    lastLoginAt: {
+        type: Date
+    }
+}, { timestamps: true });
+
+identitySchema.index({ provider: 1, subject: 1 }, { unique: true });
+identitySchema.index({ user: 1 });
+
+const identityModel = mongoose.model<IIdentity>("identities", identitySchema);
+
+export default identityModel;
+export { IIdentity };
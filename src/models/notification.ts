@@ -0,0 +1,62 @@
+import mongoose, { Schema } from 'mongoose';
+
+export enum NotificationType {
+    COMMENT = 'comment', // Someone commented on your post
+    REPLY = 'reply',     // Someone replied to your comment
+    MENTION = 'mention', // Someone mentioned you in a post or comment
+    FOLLOW = 'follow',   // Someone followed you
+}
+
+interface INotification {
+    recipient: mongoose.Types.ObjectId,
+    // The user whose action caused the notification.
+    actor: mongoose.Types.ObjectId,
+    type: NotificationType,
+    postId?: mongoose.Types.ObjectId,
+    commentId?: mongoose.Types.ObjectId,
+    read: boolean,
+    createdAt?: Date,
+    updatedAt?: Date
+}
+
+const notificationSchema = new mongoose.Schema<INotification>({
+    recipient: {
+        type: Schema.Types.ObjectId,
+        ref: "users",
+        required: true
+    },
+    actor: {
+        type: Schema.Types.ObjectId,
+        ref: "users",
+        required: true
+    },
+    type: {
+        type: String,
+        enum: Object.values(NotificationType),
+        required: true
+    },
+    postId: {
+        type: Schema.Types.ObjectId,
+        ref: "posts"
+    },
+    commentId: {
+        type: Schema.Types.ObjectId,
+        ref: "comments"
+    },
+    read: {
+        type: Boolean,
+        default: false
+    }
+}, { timestamps: true });
+
+// Serves the paginated inbox, with or without only the unread notifications.
+notificationSchema.index({ recipient: 1, createdAt: -1, _id: -1 });
+notificationSchema.index({ recipient: 1, read: 1, createdAt: -1, _id: -1 });
+notificationSchema.index({ actor: 1 });
+notificationSchema.index({ postId: 1 }, { sparse: true });
+notificationSchema.index({ commentId: 1 }, { sparse: true });
+
+const notificationModel = mongoose.model<INotification>("notifications", notificationSchema);
+
+export default notificationModel;
+export { INotification };
@@ -0,0 +1,49 @@
+import mongoose, { Schema } from 'mongoose';
+
+// A login or account link started at an OpenID Connect provider, waiting for its callback.
+interface IOidcAuthorization {
+    stateHash: string,
+    provider: string,
+    codeVerifier: string,
+    nonce: string,
+    // Set when an authenticated user links a new identity instead of logging in.
+    linkUser?: mongoose.Types.ObjectId,
+    expiresAt: Date
+}
+
+const oidcAuthorizationSchema = new mongoose.Schema<IOidcAuthorization>({
+    stateHash: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    provider: {
+        type: String,
+        required: true
+    },
+    // PKCE verifier, sent with the authorization code to prove this server started the flow.
+    codeVerifier: {
+        type: String,
+        required: true
+    },
+    nonce: {
+        type: String,
+        required: true
+    },
+    linkUser: {
+        type: Schema.Types.ObjectId,
+        ref: "users"
+    },
+    // Mongo deletes abandoned authorizations once they have expired.
+    expiresAt: {
+        type: Date,
+        required: true
+    }
+});
+
+oidcAuthorizationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const oidcAuthorizationModel = mongoose.model<IOidcAuthorization>("oidcAuthorizations", oidcAuthorizationSchema);
+
+export default oidcAuthorizationModel;
+export { IOidcAuthorization };
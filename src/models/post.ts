@@ -1,11 +1,46 @@
 import mongoose from 'mongoose';
 
+interface IAttachment {
+    _id: mongoose.Types.ObjectId,
+    // Storage keys of the uploaded file and its generated thumbnail.
+    key: string,
+    thumbnailKey: string,
+    filename: string,
+    mimeType: string,
+    size: number,
+    width: number,
+    height: number
+}
+
 interface IPost {
     sender: mongoose.Types.ObjectId,
     title: string,
-    content: string
+    // Markdown source, and the sanitized HTML rendered from it.
+    content: string,
+    contentHtml?: string,
+    attachments: IAttachment[],
+    // Users mentioned and lowercased hashtags used in the content.
+    mentions: mongoose.Types.ObjectId[],
+    tags: string[],
+    // When and by whom the title or content was last changed; earlier versions are kept as revisions.
+    editedAt?: Date,
+    editedBy?: mongoose.Types.ObjectId,
+    // Written with every new comment, so deleting the post at the same time conflicts with adding it.
+    lastCommentedAt?: Date,
+    createdAt?: Date,
+    updatedAt?: Date
 }
 
+const attachmentSchema = new mongoose.Schema<IAttachment>({
+    key: { type: String, required: true },
+    thumbnailKey: { type: String, required: true },
+    filename: { type: String, required: true },
+    mimeType: { type: String, required: true },
+    size: { type: Number, required: true },
+    width: { type: Number, required: true },
+    height: { type: Number, required: true }
+});
+
 const postSchema = new mongoose.Schema<IPost>({
     title: {
         type: String,
@@ -19,10 +54,43 @@ const postSchema = new mongoose.Schema<IPost>({
     content: {
         type: String,
         required: true
+    },
+    contentHtml: {
+        type: String
+    },
+    attachments: {
+        type: [attachmentSchema],
+        default: []
+    },
+    mentions: {
+        type: [mongoose.Types.ObjectId],
+        ref: "users",
+        default: []
+    },
+    tags: {
+        type: [String],
+        default: []
+    },
+    editedAt: {
+        type: Date
+    },
+    editedBy: {
+        type: mongoose.Types.ObjectId,
+        ref: "users"
+    },
+    lastCommentedAt: {
+        type: Date
     }
-});
+}, { timestamps: true });
+
+postSchema.index({ createdAt: -1, _id: -1 });
+// Serves the posts of a sender, and the feed's merge of its followed senders, in page order.
+postSchema.index({ sender: 1, createdAt: -1, _id: -1 });
+postSchema.index({ tags: 1, createdAt: -1, _id: -1 });
+postSchema.index({ mentions: 1, createdAt: -1, _id: -1 });
+postSchema.index({ title: 'text', content: 'text' }, { weights: { title: 3, content: 1 }, name: 'post_text' });
 
 const postModel = mongoose.model<IPost>("posts", postSchema);
 
 export default postModel;
-export { IPost };
\ No newline at end of file
+export { IPost, IAttachment };
\ No newline at end of file
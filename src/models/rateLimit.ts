@@ -0,0 +1,31 @@
+import mongoose from 'mongoose';
+
+interface IRateLimit {
+    key: string,
+    count: number,
+    resetAt: Date
+}
+
+const rateLimitSchema = new mongoose.Schema<IRateLimit>({
+    key: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    count: {
+        type: Number,
+        required: true
+    },
+    // Mongo deletes the counter once its window has ended.
+    resetAt: {
+        type: Date,
+        required: true
+    }
+});
+
+rateLimitSchema.index({ resetAt: 1 }, { expireAfterSeconds: 0 });
+
+const rateLimitModel = mongoose.model<IRateLimit>("rateLimits", rateLimitSchema);
+
+export default rateLimitModel;
+export { IRateLimit };
@@ -0,0 +1,56 @@
+import mongoose, { Schema } from 'mongoose';
+
+export enum ReactionTarget {
+    POST = 'post',
+    COMMENT = 'comment',
+}
+
+export enum ReactionType {
+    LIKE = 'like',   // 👍
+    LOVE = 'love',   // ❤️
+    LAUGH = 'laugh', // 😂
+    WOW = 'wow',     // 😮
+    SAD = 'sad',     // 😢
+    ANGRY = 'angry', // 😠
+}
+
+interface IReaction {
+    targetType: ReactionTarget,
+    targetId: mongoose.Types.ObjectId,
+    user: mongoose.Types.ObjectId,
+    type: ReactionType,
+    createdAt?: Date,
+    updatedAt?: Date
+}
+
+const reactionSchema = new mongoose.Schema<IReaction>({
+    targetType: {
+        type: String,
+        enum: Object.values(ReactionTarget),
+        required: true
+    },
+    targetId: {
+        type: Schema.Types.ObjectId,
+        required: true
+    },
+    user: {
+        type: Schema.Types.ObjectId,
+        ref: "users",
+        required: true
+    },
+    type: {
+        type: String,
+        enum: Object.values(ReactionType),
+        required: true
+    }
+}, { timestamps: true });
+
+// A user can leave each kind of reaction at most once per post or comment.
+reactionSchema.index({ targetType: 1, targetId: 1, user: 1, type: 1 }, { unique: true });
+reactionSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+reactionSchema.index({ user: 1 });
+
+const reactionModel = mongoose.model<IReaction>("reactions", reactionSchema);
+
+export default reactionModel;
+export { IReaction };
@@ -0,0 +1,59 @@
+import mongoose, { Schema } from 'mongoose';
+
+export enum RevisionTarget {
+    POST = 'post',
+    COMMENT = 'comment',
+}
+
+/**
+ * A version of a post or comment that an edit replaced. `editor` is the user who wrote
+ * that version and `editedAt` when, while `createdAt` is when it was replaced.
+ */
+interface IRevision {
+    targetType: RevisionTarget,
+    targetId: mongoose.Types.ObjectId,
+    // Only posts have a title.
+    title?: string,
+    content: string,
+    editor: mongoose.Types.ObjectId,
+    editedAt: Date,
+    createdAt?: Date,
+    updatedAt?: Date
+}
+
+const revisionSchema = new mongoose.Schema<IRevision>({
+    targetType: {
+        type: String,
+        enum: Object.values(RevisionTarget),
+        required: true
+    },
+    targetId: {
+        type: Schema.Types.ObjectId,
+        required: true
+    },
+    title: {
+        type: String
+    },
+    content: {
+        type: String,
+        required: true
+    },
+    editor: {
+        type: Schema.Types.ObjectId,
+        ref: "users",
+        required: true
+    },
+    editedAt: {
+        type: Date,
+        required: true
+    }
+}, { timestamps: true });
+
+revisionSchema.index({ targetType: 1, targetId: 1, createdAt: -1, _id: -1 });
+revisionSchema.index({ targetId: 1 });
+revisionSchema.index({ editor: 1 });
+
+const revisionModel = mongoose.model<IRevision>("revisions", revisionSchema);
+
+export default revisionModel;
+export { IRevision };
@@ -0,0 +1,48 @@
+import mongoose, { Schema } from 'mongoose';
+
+interface ISession {
+    user: mongoose.Types.ObjectId,
+    tokenHash: string,
+    userAgent?: string,
+    ip?: string,
+    lastUsedAt: Date,
+    expiresAt: Date,
+    createdAt?: Date,
+    updatedAt?: Date
+}
+
+const sessionSchema = new mongoose.Schema<ISession>({
+    user: {
+        type: Schema.Types.ObjectId,
+        ref: "users",
+        required: true
+    },
+    // Hash of the refresh token currently issued for this session; it changes on every refresh.
+    tokenHash: {
+        type: String,
+        required: true
+    },
+    userAgent: {
+        type: String
+    },
+    ip: {
+        type: String
+    },
+    lastUsedAt: {
+        type: Date,
+        default: Date.now
+    },
+    // Expiry of the current refresh token. Mongo deletes the session once it has passed.
+    expiresAt: {
+        type: Date,
+        required: true
+    }
+}, { timestamps: true });
+
+sessionSchema.index({ user: 1, lastUsedAt: -1 });
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const sessionModel = mongoose.model<ISession>("sessions", sessionSchema);
+
+export default sessionModel;
+export { ISession };
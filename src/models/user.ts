@@ -1,10 +1,33 @@
 import mongoose from 'mongoose';
+import { NotificationType } from './notification';
+
+enum Role {
+    USER = 'user',
+    MODERATOR = 'moderator',
+    ADMIN = 'admin',
+}
 
 interface IUser {
     username: string,
     email: string,
     passwordHash: string,
-    tokens: string[]
+    role: Role,
+    emailVerified: boolean,
+    // Base32 TOTP secret. Set on enrollment, but only required at login once confirmed.
+    twoFactorSecret?: string,
+    twoFactorEnabled: boolean,
+    // Time step of the last accepted TOTP code, so codes cannot be replayed.
+    twoFactorLastStep?: number,
+    // Hashes of the unused recovery codes.
+    recoveryCodeHashes: string[],
+    displayName?: string,
+    bio?: string,
+    website?: string,
+    location?: string,
+    // Storage key of the resized avatar image.
+    avatarKey?: string,
+    // Notification types the user turned on or off. Types that are not set are on.
+    notificationPreferences?: Partial<Record<NotificationType, boolean>>
 }
 
 const userSchema = new mongoose.Schema<IUser>({
@@ -22,14 +45,52 @@ const userSchema = new mongoose.Schema<IUser>({
         type: String,
         required: true
     },
-    tokens: {
+    role: {
+        type: String,
+        enum: Object.values(Role),
+        default: Role.USER
+    },
+    emailVerified: {
+        type: Boolean,
+        default: false
+    },
+    twoFactorSecret: {
+        type: String
+    },
+    twoFactorEnabled: {
+        type: Boolean,
+        default: false
+    },
+    twoFactorLastStep: {
+        type: Number
+    },
+    recoveryCodeHashes: {
         type: [String],
         default: []
-    }
-
+    },
+    displayName: {
+        type: String
+    },
+    bio: {
+        type: String
+    },
+    website: {
+        type: String
+    },
+    location: {
+        type: String
+    },
+    avatarKey: {
+        type: String
+    },
+    notificationPreferences: Object.fromEntries(
+        Object.values(NotificationType).map(type => [type, { type: Boolean }])
+    )
 });
 
+userSchema.index({ username: 'text' }, { name: 'user_text' });
+
 const userModel = mongoose.model<IUser>("users", userSchema);
 
 export default userModel;
-export { IUser };
\ No newline at end of file
+export { IUser, Role };
\ No newline at end of file
@@ -0,0 +1,48 @@
+import mongoose, { Schema } from 'mongoose';
+
+export enum TokenPurpose {
+    EMAIL_VERIFICATION = 'emailVerification',
+    PASSWORD_RESET = 'passwordReset',
+    // Issued after the password step of a login to an account with two-factor authentication.
+    TWO_FACTOR_CHALLENGE = 'twoFactorChallenge',
+}
+
+interface IUserToken {
+    user: mongoose.Types.ObjectId,
+    purpose: TokenPurpose,
+    tokenHash: string,
+    expiresAt: Date,
+    createdAt?: Date,
+    updatedAt?: Date
+}
+
+const userTokenSchema = new mongoose.Schema<IUserToken>({
+    user: {
+        type: Schema.Types.ObjectId,
+        ref: "users",
+        required: true
+    },
+    purpose: {
+        type: String,
+        enum: Object.values(TokenPurpose),
+        required: true
+    },
+    tokenHash: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    // Mongo deletes the token once it has expired.
+    expiresAt: {
+        type: Date,
+        required: true
+    }
+}, { timestamps: true });
+
+userTokenSchema.index({ user: 1, purpose: 1 });
+userTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const userTokenModel = mongoose.model<IUserToken>("userTokens", userTokenSchema);
+
+export default userTokenModel;
+export { IUserToken };
@@ -1,12 +1,35 @@
 import express from "express";
 import bcrypt from "bcrypt";
-import { createUser, getUserByUsername, updateUser } from "../controllers/user";
+import { createUser, getUserByEmail, getUserById, getUserByUsername, updateUser } from "../controllers/user";
+import { deleteOtherSessions, deleteSession, getSessions, rotateSession } from "../controllers/session";
+import { consumeUserToken, getUserTokenOwner } from "../controllers/userToken";
+import { verifySecondFactor } from "../controllers/twoFactor";
+import { TokenPurpose } from "../models/userToken";
+import { sendPasswordResetEmail, sendVerificationEmail } from "../utils/emails";
+import env, { EmailVerificationRequirement } from "../utils/env";
 import { MongoServerError } from "mongodb";
-import { generateToken, verifyRefreshToken, TokenType } from "../utils/jwt"
+import { verifyRefreshToken } from "../utils/jwt"
+import { clientInfo, completeLogin, generateTokens, sendTokens, sessionToken, startSession } from "../utils/authSession";
 import authenticate from "../middlewares/authenticate";
+import { toAccountUser } from "../serializers/user";
+import { toPublicSession } from "../serializers/session";
+import { BadRequestError, ErrorCode, ForbiddenError, NotFoundError, UnauthorizedError } from "../utils/errors";
+import validate from "../middlewares/validate";
+import { clearAuthCookies, hasValidCsrfToken, REFRESH_TOKEN_COOKIE } from "../utils/authCookies";
+import rateLimit, { byIp } from "../middlewares/rateLimit";
+import { assertLoginAllowed, clearFailedLogins, recordFailedLogin } from "../utils/loginThrottle";
+import { emailBody, loginBody, logoutBody, registerBody, resetPasswordBody, sessionIdParams, twoFactorLoginBody, verifyEmailBody } from "../schemas/auth";
 
 const authRouter = express.Router();
 
+const MINUTE = 60 * 1000;
+
+// Per-IP limits on unauthenticated routes. Failed logins additionally lock the account, see `loginThrottle`.
+const loginLimit = rateLimit({ name: 'login', limit: 20, windowMs: 15 * MINUTE, key: byIp });
+const registerLimit = rateLimit({ name: 'register', limit: 5, windowMs: 60 * MINUTE, key: byIp });
+const emailLimit = rateLimit({ name: 'email', limit: 5, windowMs: 60 * MINUTE, key: byIp });
+const userTokenLimit = rateLimit({ name: 'userToken', limit: 10, windowMs: 15 * MINUTE, key: byIp });
+
 /**
  * @swagger
  * /auth/register:
@@ -14,7 +37,7 @@ const authRouter = express.Router();
  *     tags: [Auth]
  *     summary: Register a new user
  *     security: []
- *     description: Registers a new user with a unique username and email. Password is hashed using bcrypt.
+ *     description: Registers a new user with a unique username and email. Password is hashed using bcrypt. A verification token is emailed to the new user.
  *     requestBody:
  *       required: true
  *       content:
@@ -27,34 +50,28 @@ const authRouter = express.Router();
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/User'
+ *               $ref: '#/components/schemas/AccountUser'
  *       400:
  *         description: Invalid request or duplicate user
  *         content:
- *           text/plain:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: Username or email already exists
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  */
 
-authRouter.post('/register', async (req, res) => {
-    if (!req.body) {
-        return res.status(400).send('Missing Body');
-    }
-    
+authRouter.post('/register', registerLimit, validate({ body: registerBody }), async (req, res) => {
     const { username, email, password } = req.body;
 
-    if (!username || !email || !password) {
-        return res.status(400).send('Invalid User');
-    }
-
     try {
         const passwordHash = await bcrypt.hash(password, 10);
         const user = await createUser(username, email, passwordHash);
-        return res.status(200).send(user);
+        await sendVerificationEmail(user);
+        return res.status(200).send(toAccountUser(user));
     } catch (error) {
         if (error instanceof MongoServerError && error.code === 11000) {
-            return res.status(400).send('Username or email already exists');
+            throw new BadRequestError(ErrorCode.DUPLICATE_RESOURCE, 'Username or email already exists');
         }
         throw error;
     }
@@ -67,7 +84,7 @@ authRouter.post('/register', async (req, res) => {
  *     tags: [Auth]
  *     summary: Login user
  *     security: []
- *     description: Authenticates user credentials and returns access & refresh tokens.
+ *     description: Authenticates user credentials, starts a new session and returns access & refresh tokens. With `useCookies`, the tokens are set as httpOnly cookies instead and the response holds a CSRF token, which must be sent in the `X-CSRF-Token` header of every state-changing request authenticated by cookie. The client's user agent and IP address are recorded on the session. After 5 failed attempts within 15 minutes the username is locked for a minute, doubling with every further lockout within a day up to an hour.
  *     requestBody:
  *       required: true
  *       content:
@@ -76,53 +93,110 @@ authRouter.post('/register', async (req, res) => {
  *             $ref: '#/components/schemas/LoginRequest'
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful. Cookie clients receive only the CSRF token, and accounts with two-factor authentication a challenge for `/auth/login/2fa` instead.
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/AuthTokens'
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/AuthTokens'
+ *                 - $ref: '#/components/schemas/CsrfToken'
+ *                 - $ref: '#/components/schemas/TwoFactorChallenge'
  *       400:
  *         description: Invalid credentials
  *         content:
- *           text/plain:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Email not verified, when `EMAIL_VERIFICATION_REQUIRED` is `login`
+ *         content:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: Invalid Credentials
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  */
 
-authRouter.post('/login', async (req, res) => {
-    if (!req.body) {
-        return res.status(400).send('Missing Credentials');
+authRouter.post('/login', loginLimit, validate({ body: loginBody }), async (req, res) => {
+    const { username, password, useCookies } = req.body;
+
+    await assertLoginAllowed(username);
+
+    const user = await getUserByUsername(username);
+    const hashMatch = user && await bcrypt.compare(password, user.passwordHash);
+    if (!user || !hashMatch) {
+        await recordFailedLogin(username);
+        throw new BadRequestError(ErrorCode.INVALID_CREDENTIALS, 'Invalid Credentials');
     }
-    const { username, password } = req.body;
 
-    if (!username || !password) {
-        return res.status(400).send('Invalid Credentials');
+    if (env.EMAIL_VERIFICATION_REQUIRED === EmailVerificationRequirement.LOGIN && !user.emailVerified) {
+        throw new ForbiddenError(ErrorCode.EMAIL_NOT_VERIFIED, 'Email Not Verified');
     }
 
-    try {
-        const user = await getUserByUsername(username);
-        if (!user) return res.status(400).send('Invalid Credentials');
+    // Failed logins are only cleared after the second factor, so that knowing the
+    // password does not allow unlimited guesses of the code.
+    if (!user.twoFactorEnabled) {
+        await clearFailedLogins(username);
+    }
+    await completeLogin(req, res, user, Boolean(useCookies));
+})
 
-        const hashMatch = await bcrypt.compare(password, user.passwordHash)
-        if (!hashMatch) return res.status(400).send('Invalid Credentials');
-        
-        const accessToken = await generateToken({'_id': user._id}, TokenType.ACCESS)
-        const refreshToken = await generateToken({'_id': user._id}, TokenType.REFRESH)
+/**
+ * @swagger
+ * /auth/login/2fa:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Complete a login with the second factor
+ *     security: []
+ *     description: Exchanges the challenge token returned by `/auth/login` and a code from the user's authenticator app, or one of their recovery codes, for access & refresh tokens. Each code can be used once. Wrong codes count towards the account's failed logins; the challenge token stays valid until it expires (`TWO_FACTOR_CHALLENGE_TTL_MINUTES`, 5 minutes by default) or a login succeeds.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorLoginRequest'
+ *     responses:
+ *       200:
+ *         description: Login successful. Cookie clients receive only the CSRF token.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/AuthTokens'
+ *                 - $ref: '#/components/schemas/CsrfToken'
+ *       400:
+ *         description: Invalid or expired challenge token, or wrong code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+authRouter.post('/login/2fa', loginLimit, validate({ body: twoFactorLoginBody }), async (req, res) => {
+    const { challengeToken, code, useCookies } = req.body;
 
-        user.tokens.push(refreshToken);
+    const userId = await getUserTokenOwner(challengeToken, TokenPurpose.TWO_FACTOR_CHALLENGE);
+    const user = userId && await getUserById(userId.toString());
 
-        await updateUser(user._id.toString(), user)
+    if (!user) {
+        throw new BadRequestError(ErrorCode.INVALID_TOKEN, 'Invalid Or Expired Token');
+    }
 
+    await assertLoginAllowed(user.username);
 
-        res.status(200).send({
-            'accessToken': accessToken,
-            'refreshToken': refreshToken
-        });
+    if (!await verifySecondFactor(user, code)) {
+        await recordFailedLogin(user.username);
+        throw new BadRequestError(ErrorCode.INVALID_TWO_FACTOR_CODE, 'Invalid Code');
+    }
 
-    } catch (err) {
-        return res.status(400).send(err);
+    // Another request may have completed the login with the same challenge meanwhile.
+    if (!await consumeUserToken(challengeToken, TokenPurpose.TWO_FACTOR_CHALLENGE)) {
+        throw new BadRequestError(ErrorCode.INVALID_TOKEN, 'Invalid Or Expired Token');
     }
+
+    await clearFailedLogins(user.username);
+    await startSession(req, res, user, Boolean(useCookies));
 })
 
 /**
@@ -132,53 +206,60 @@ authRouter.post('/login', async (req, res) => {
  *     tags: [Auth]
  *     summary: Refresh tokens
  *     security: []
- *     description: Generates a new access token and refresh token using a valid refresh token.
+ *     description: Generates a new access token and refresh token using a valid refresh token, extending the session by the refresh token lifetime (`REFRESH_TOKEN_EXPIRATION`, 7 days by default). Each refresh token can be used once; presenting one that was already exchanged revokes its session, while the user's other sessions stay signed in. Cookie clients send no Authorization header; their refresh token is read from its cookie, the request needs the `X-CSRF-Token` header and the new tokens are set as cookies again.
  *     responses:
  *       200:
- *         description: Tokens refreshed successfully
+ *         description: Tokens refreshed successfully. Cookie clients receive only a new CSRF token.
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/AuthTokens'
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/AuthTokens'
+ *                 - $ref: '#/components/schemas/CsrfToken'
  *       401:
- *         description: Unauthorized
+ *         description: Missing refresh token, or one that a concurrent refresh already used, which revokes its session
  *         content:
- *           text/plain:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: Unauthorized
+ *               $ref: '#/components/schemas/Error'
  *       400:
  *         description: Invalid refresh token
  *         content:
- *           text/plain:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: Invalid refresh token
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Missing or wrong CSRF token of a cookie client
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
 
 authRouter.post('/refreshToken', async (req, res) => {
-    try {
-        const authHeader = req.headers['authorization'];
-        const token = authHeader?.split(" ")[1];
+    const authHeader = req.headers['authorization'];
+    const headerToken = authHeader?.split(" ")[1];
+    const token = headerToken || req.cookies?.[REFRESH_TOKEN_COOKIE];
 
-        if (!token) {
-            return res.status(401).send("Unauthorized");
-        }
+    if (!token) {
+        throw new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Unauthorized');
+    }
 
-        const user = await verifyRefreshToken(token);
-        const accessToken = await generateToken({'_id': user._id}, TokenType.ACCESS)
-        const refreshToken = await generateToken({'_id': user._id}, TokenType.REFRESH)
+    if (!headerToken && !hasValidCsrfToken(req)) {
+        throw new ForbiddenError(ErrorCode.INVALID_CSRF_TOKEN, 'Invalid CSRF Token');
+    }
 
-        user.tokens[user.tokens.indexOf(token)] = refreshToken;
-        await updateUser(user._id.toString(), user)
+    const { user, session } = await verifyRefreshToken(token);
+    const tokens = await generateTokens(user, session._id);
+    const rotated = await rotateSession(session._id, session.tokenHash, sessionToken(tokens.refreshToken), clientInfo(req));
 
-        return res.status(200).send({
-            'accessToken': accessToken,
-            'refreshToken': refreshToken
-        });
-    } catch (err) {
-        return res.status(400).send(err)
+    // A concurrent refresh rotated the token first, so it was used twice.
+    if (!rotated) {
+        await deleteSession(session._id.toString(), user._id.toString());
+        throw new UnauthorizedError(ErrorCode.INVALID_TOKEN, 'Invalid Refresh Token');
     }
+
+    return sendTokens(res, tokens, !headerToken);
 })
 
 /**
@@ -187,9 +268,10 @@ authRouter.post('/refreshToken', async (req, res) => {
  *   post:
  *     tags: [Auth]
  *     summary: Logout user
- *     description: Logs out the user by invalidating a refresh token.
+ *     description: Logs out the user by revoking the session of a refresh token. Cookie clients send an empty body; the session of their refresh cookie is revoked and the auth cookies are cleared.
  *     security:
  *       - BearerAuth: []
+ *       - CookieAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -202,37 +284,313 @@ authRouter.post('/refreshToken', async (req, res) => {
  *       401:
  *         description: Unauthorized
  *         content:
- *           text/plain:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: Unauthorized
+ *               $ref: '#/components/schemas/Error'
  *       400:
  *         description: Invalid session
  *         content:
- *           text/plain:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: Invalid User Session
+ *               $ref: '#/components/schemas/Error'
  */
 
-authRouter.post('/logout', authenticate, async (req, res) => {
-    try {
-        const token = req.body.refreshToken;
+authRouter.post('/logout', authenticate, validate({ body: logoutBody }), async (req, res) => {
+    const token = req.body.refreshToken || req.cookies?.[REFRESH_TOKEN_COOKIE];
 
-        if (!token) {
-            return res.status(401).send("Unauthorized");
-        }
-        const user = await verifyRefreshToken(token);
+    if (!token) {
+        throw new BadRequestError(ErrorCode.VALIDATION_FAILED, 'refreshToken is required');
+    }
 
-        if (user.tokens.includes(token)) {
-            user.tokens.splice(user.tokens.indexOf(token), 1);
-            await updateUser(user._id.toString(), user)
-        }
-        
-        return res.status(200).send();
-    } catch (error) {
-        return res.status(400).send(error)
+    const { user, session } = await verifyRefreshToken(token);
+
+    await deleteSession(session._id.toString(), user._id.toString());
+    clearAuthCookies(res);
+    
+    return res.status(200).send();
+})
+
+/**
+ * @swagger
+ * /auth/verifyEmail:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Verify email address
+ *     security: []
+ *     description: Marks the email address of the token's user as verified. Each token can be used once and expires after `EMAIL_VERIFICATION_TTL_MINUTES` (24 hours by default).
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/VerifyEmailRequest'
+ *     responses:
+ *       200:
+ *         description: Email verified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AccountUser'
+ *       400:
+ *         description: Invalid, expired or already used token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+authRouter.post('/verifyEmail', userTokenLimit, validate({ body: verifyEmailBody }), async (req, res) => {
+    const userId = await consumeUserToken(req.body.token, TokenPurpose.EMAIL_VERIFICATION);
+    const user = userId && await updateUser(userId.toString(), { emailVerified: true });
+
+    if (!user) {
+        throw new BadRequestError(ErrorCode.INVALID_TOKEN, 'Invalid Or Expired Token');
+    }
+    res.status(200).send(toAccountUser(user));
+})
+
+/**
+ * @swagger
+ * /auth/resendVerification:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Resend the verification email
+ *     security: []
+ *     description: Emails a new verification token, replacing earlier ones, if an unverified account uses the address. The response is the same either way so it does not reveal which addresses are registered.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/EmailRequest'
+ *     responses:
+ *       200:
+ *         description: Request accepted
+ *       400:
+ *         description: Invalid email
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+authRouter.post('/resendVerification', emailLimit, validate({ body: emailBody }), async (req, res) => {
+    const user = await getUserByEmail(req.body.email);
+
+    if (user && !user.emailVerified) {
+        await sendVerificationEmail(user);
+    }
+    res.status(200).send();
+})
+
+/**
+ * @swagger
+ * /auth/forgotPassword:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Request a password reset
+ *     security: []
+ *     description: Emails a password reset token, replacing earlier ones, if an account uses the address. The response is the same either way so it does not reveal which addresses are registered.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/EmailRequest'
+ *     responses:
+ *       200:
+ *         description: Request accepted
+ *       400:
+ *         description: Invalid email
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+authRouter.post('/forgotPassword', emailLimit, validate({ body: emailBody }), async (req, res) => {
+    const user = await getUserByEmail(req.body.email);
+
+    if (user) {
+        await sendPasswordResetEmail(user);
+    }
+    res.status(200).send();
+})
+
+/**
+ * @swagger
+ * /auth/resetPassword:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Reset password
+ *     security: []
+ *     description: Sets a new password using an emailed reset token and logs the user out of every session. Each token can be used once and expires after `PASSWORD_RESET_TTL_MINUTES` (1 hour by default). Since the token proves access to the mailbox, the email address is marked as verified as well.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ResetPasswordRequest'
+ *     responses:
+ *       200:
+ *         description: Password reset
+ *       400:
+ *         description: Invalid password, or invalid, expired or already used token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+authRouter.post('/resetPassword', userTokenLimit, validate({ body: resetPasswordBody }), async (req, res) => {
+    const { token, password } = req.body;
+
+    const userId = await consumeUserToken(token, TokenPurpose.PASSWORD_RESET);
+    const passwordHash = await bcrypt.hash(password, 10);
+    const user = userId && await updateUser(userId.toString(), { passwordHash, emailVerified: true });
+
+    if (!user) {
+        throw new BadRequestError(ErrorCode.INVALID_TOKEN, 'Invalid Or Expired Token');
+    }
+
+    await deleteOtherSessions(user._id.toString());
+    res.status(200).send();
+})
+
+/**
+ * @swagger
+ * /auth/sessions:
+ *   get:
+ *     tags: [Auth]
+ *     summary: List active sessions
+ *     description: Lists the sessions of the authenticated user, most recently used first. Every successful login starts a new session, which lasts until it is logged out or revoked.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The user's sessions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Session'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+authRouter.get('/sessions', authenticate, async (req, res) => {
+    const user = req.user;
+
+    if (!user) {
+        throw new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Unauthenticated');
+    }
+
+    const sessions = await getSessions(user._id);
+    res.status(200).send(sessions.map(session => toPublicSession(session, user.sid)));
+})
+
+/**
+ * @swagger
+ * /auth/sessions:
+ *   delete:
+ *     tags: [Auth]
+ *     summary: Log out everywhere else
+ *     description: Revokes every session of the authenticated user except the one the access token belongs to. Access tokens already issued to the revoked sessions stay valid until they expire.
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Other sessions revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 revoked:
+ *                   type: integer
+ *                   description: Number of sessions revoked
+ *                   example: 2
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+authRouter.delete('/sessions', authenticate, async (req, res) => {
+    const user = req.user;
+
+    if (!user) {
+        throw new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Unauthenticated');
+    }
+
+    const revoked = await deleteOtherSessions(user._id, user.sid);
+    res.status(200).send({ revoked });
+})
+
+/**
+ * @swagger
+ * /auth/sessions/{id}:
+ *   delete:
+ *     tags: [Auth]
+ *     summary: Revoke a session
+ *     description: Revokes one session of the authenticated user, so its refresh token can no longer be used.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the session to revoke
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Session'
+ *       400:
+ *         description: Invalid session ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+authRouter.delete('/sessions/:id', authenticate, validate({ params: sessionIdParams }), async (req, res) => {
+    const user = req.user;
+
+    if (!user) {
+        throw new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Unauthenticated');
+    }
+
+    const session = await deleteSession(req.params.id, user._id);
+
+    if (!session) {
+        throw new NotFoundError('Session Not Found');
     }
+    res.status(200).send(toPublicSession(session, user.sid));
 })
 
 export default authRouter;
\ No newline at end of file
@@ -1,16 +1,38 @@
-import express from "express";
-import { createComment, getComments, getCommentById, deleteComment, updateComment, getCommentsByPostId } from "../controllers/comment";
+import express, { Request } from "express";
+import { createComment, getComments, getCommentById, countReplies, deleteComment, updateComment } from "../controllers/comment";
+import { countReactions } from "../controllers/reaction";
+import { MAX_COMMENT_DEPTH } from "../models/comment";
+import { ReactionTarget } from "../models/reaction";
 import { getPostById } from "../controllers/post";
-import { isValidObjectId } from "mongoose";
+import { toPublicComment } from "../serializers/comment";
+import { mapPage } from "../utils/pagination";
+import { BadRequestError, ErrorCode, NotFoundError, UnauthorizedError } from "../utils/errors";
+import validate, { validatedQuery } from "../middlewares/validate";
+import authorize from "../middlewares/authorize";
+import requireVerifiedEmail from "../middlewares/requireVerifiedEmail";
+import rateLimit, { byUser } from "../middlewares/rateLimit";
+import { Permission } from "../utils/permissions";
+import { commentIdParams, commentListQuery, createCommentBody, updateCommentBody } from "../schemas/comment";
 const commentRouter = express.Router();
 
+const createCommentLimit = rateLimit({ name: 'createComment', limit: 20, windowMs: 60 * 1000, key: byUser });
+
+const commentOwner = async (req: Request) => {
+    const comment = await getCommentById(req.params.id);
+
+    if (!comment || comment.deleted) {
+        throw new NotFoundError('Comment Not Found');
+    }
+    return comment.sender;
+}
+
 /**
  * @swagger
  * /comment:
  *   post:
  *     tags: [Comments]
  *     summary: Create a new comment
- *     description: Create a new comment on a post. The sender is automatically taken from the authenticated user.
+ *     description: Create a new comment on a post, or a reply to another comment of the same post when `parentCommentId` is given. Replies can be nested up to 5 levels deep. The sender is automatically taken from the authenticated user.
  *     requestBody:
  *       required: true
  *       content:
@@ -25,34 +47,54 @@ const commentRouter = express.Router();
  *             schema:
  *               $ref: '#/components/schemas/Comment'
  *       400:
- *         description: Invalid comment data or related post does not exist
+ *         description: Invalid comment data, related post does not exist, or the parent comment cannot be replied to
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Email not verified, when `EMAIL_VERIFICATION_REQUIRED` is set
  *         content:
- *           text/plain:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: "Invalid Comment"
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  */
-commentRouter.post('/', async (req, res) => {
-    if (!req.body) {
-        return res.status(400).send('Missing Body');
-    }
-
-    const { postId, content } = req.body;
+commentRouter.post('/', createCommentLimit, requireVerifiedEmail, validate({ body: createCommentBody }), async (req, res) => {
+    const { postId, parentCommentId, content } = req.body;
     const sender = req.user;
 
-    if (!postId || !sender || !content) {
-        return res.status(400).send('Invalid Comment');
+    if (!sender) {
+        throw new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Unauthenticated');
     }
 
     const post = await getPostById(postId);
     
     if (!post) {
-        return res.status(400).send('Related Post Does Not Exist');
+        throw new BadRequestError(ErrorCode.VALIDATION_FAILED, 'Related Post Does Not Exist');
     }
 
-    const comment = await createComment(postId, sender._id, content);
+    const parent = parentCommentId ? await getCommentById(parentCommentId) : null;
 
-    res.status(200).send(comment);
+    if (parentCommentId) {
+        if (!parent || !parent.postId.equals(post._id)) {
+            throw new BadRequestError(ErrorCode.VALIDATION_FAILED, 'Parent Comment Does Not Exist');
+        }
+        if (parent.deleted) {
+            throw new BadRequestError(ErrorCode.VALIDATION_FAILED, 'Cannot Reply To A Deleted Comment');
+        }
+        if (parent.depth >= MAX_COMMENT_DEPTH) {
+            throw new BadRequestError(ErrorCode.VALIDATION_FAILED, 'Maximum Reply Depth Exceeded');
+        }
+    }
+
+    const comment = await createComment(postId, sender._id, content, parent);
+
+    if (!comment) {
+        throw new BadRequestError(ErrorCode.VALIDATION_FAILED, 'Related Post Does Not Exist');
+    }
+    res.status(200).send(toPublicComment(comment));
 })
 
 /**
@@ -60,34 +102,75 @@ commentRouter.post('/', async (req, res) => {
  * /comment:
  *   get:
  *     tags: [Comments]
- *     summary: Get all comments or comments by post ID
- *     description: Retrieve all comments, or filter comments by post ID using query parameter.
+ *     summary: Get a page of comments
+ *     description: Retrieve comments using cursor pagination. Filters can be combined, and the `nextCursor` of a page is passed back as `cursor` to fetch the next one.
  *     parameters:
  *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Maximum number of comments to return
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor returned as `nextCursor` by the previous page
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [newest, oldest, mostReplied]
+ *           default: newest
+ *         description: Sort order; `mostReplied` puts the comments with the most direct replies first
+ *       - in: query
  *         name: postId
  *         schema:
  *           type: string
  *         description: Filter comments by post ID
+ *       - in: query
+ *         name: parentCommentId
+ *         schema:
+ *           type: string
+ *         description: Only include direct replies to this comment
+ *       - in: query
+ *         name: sender
+ *         schema:
+ *           type: string
+ *         description: Filter comments by sender ID
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include comments created at or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include comments created at or before this date
  *     responses:
  *       200:
- *         description: List of comments
+ *         description: A page of comments
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Comment'
+ *               $ref: '#/components/schemas/CommentPage'
+ *       400:
+ *         description: Invalid query parameter or cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
-commentRouter.get('/', async (req, res) => {
-    const postId = req.query.postId as string;
+commentRouter.get('/', validate({ query: commentListQuery }), async (req, res) => {
+    const { limit, cursor, sort, ...filters } = validatedQuery(req, commentListQuery);
 
-    if (postId) {
-        const comments = await getCommentsByPostId(postId);
-        return res.status(200).send(comments);
-    }
-    const comments = await getComments();
-    
-    res.status(200).send(comments);
+    const page = await getComments(filters, { limit, cursor, sort });
+    return res.status(200).send(mapPage(page, toPublicComment));
 })
 
 /**
@@ -96,7 +179,7 @@ commentRouter.get('/', async (req, res) => {
  *   get:
  *     tags: [Comments]
  *     summary: Get comment by ID
- *     description: Retrieves a comment by its MongoDB ObjectId.
+ *     description: Retrieves a comment by its MongoDB ObjectId, including the number of direct replies and its reaction counts.
  *     parameters:
  *       - in: path
  *         name: id
@@ -115,32 +198,29 @@ commentRouter.get('/', async (req, res) => {
  *       400:
  *         description: Invalid comment ID format
  *         content:
- *           text/plain:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: "Invalid Comment Id"
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Comment not found
  *         content:
- *           text/plain:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: "Comment Not Found"
+ *               $ref: '#/components/schemas/Error'
  */
-commentRouter.get('/:id', async (req, res) => {
+commentRouter.get('/:id', validate({ params: commentIdParams }), async (req, res) => {
     const id = req.params.id;
     
-    if (!isValidObjectId(id)) {
-        res.status(400).send('Invalid Comment Id')
-    }
-    
     const comment = await getCommentById(id);
 
     if (!comment) {
-        res.status(404).send('Comment Not Found')
+        throw new NotFoundError('Comment Not Found');
     }
 
-    res.status(200).send(comment);
+    const replyCount = await countReplies(id);
+    const reactions = await countReactions(ReactionTarget.COMMENT, [comment._id]);
+
+    res.status(200).send(toPublicComment({ ...comment.toObject(), replyCount, reactions: reactions.get(id) }));
 })
 
 /**
@@ -149,7 +229,7 @@ commentRouter.get('/:id', async (req, res) => {
  *   delete:
  *     tags: [Comments]
  *     summary: Delete a comment
- *     description: Delete a comment by ID. Only the comment owner can delete their comment.
+ *     description: Delete a comment by ID. Only the comment owner or a moderator can delete a comment. A comment that has replies is kept as a "[deleted]" placeholder so the thread stays intact.
  *     parameters:
  *       - in: path
  *         name: id
@@ -160,50 +240,39 @@ commentRouter.get('/:id', async (req, res) => {
  *         example: "507f1f77bcf86cd799439011"
  *     responses:
  *       200:
- *         description: Comment deleted successfully
+ *         description: Comment deleted successfully, or the placeholder it was replaced with
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Comment'
  *       400:
- *         description: Invalid comment ID format or unauthorized
+ *         description: Invalid comment ID format
  *         content:
- *           text/plain:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not the owner and missing the required permission
+ *         content:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: "Unauthorized"
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Comment not found
  *         content:
- *           text/plain:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: "Comment Not Found"
+ *               $ref: '#/components/schemas/Error'
  */
-commentRouter.delete('/:id', async (req, res) => {
+commentRouter.delete('/:id', validate({ params: commentIdParams }), authorize(Permission.MODERATE_COMMENTS, commentOwner), async (req, res) => {
     const commentId = req.params.id;
-    const sender = req.user
-
-    if (!isValidObjectId(commentId)) {
-        return res.status(400).send('Invalid Comment Id');
-    }
-
-    const existingComment = await getCommentById(commentId);
-
-    if (!existingComment) {
-        return res.status(404).send('Comment Not Found');
-    }
-
-    if (!sender || sender._id != existingComment.sender) {
-        return res.status(400).send('Unauthorized');
-    }
 
     const deletedComment = await deleteComment(commentId);
 
     if (!deletedComment) {
-        return res.status(404).send('Comment Not Found');
+        throw new NotFoundError('Comment Not Found');
     }
-    res.status(200).send(deletedComment);
+    res.status(200).send(toPublicComment(deletedComment));
 })
 
 /**
@@ -212,7 +281,7 @@ commentRouter.delete('/:id', async (req, res) => {
  *   patch:
  *     tags: [Comments]
  *     summary: Update a comment
- *     description: Update the content of a comment by ID. Only the comment owner can update their comment.
+ *     description: Update the content of a comment by ID. Only the comment owner or a moderator can update a comment. When the content changes, the previous version is kept as a revision and `editedAt` is set.
  *     parameters:
  *       - in: path
  *         name: id
@@ -235,55 +304,41 @@ commentRouter.delete('/:id', async (req, res) => {
  *             schema:
  *               $ref: '#/components/schemas/Comment'
  *       400:
- *         description: Invalid comment ID, missing body, unauthorized, or no content provided
+ *         description: Invalid comment ID, missing body, or no content provided
  *         content:
- *           text/plain:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: "Unauthorized"
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not the owner and missing the required permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Comment not found
  *         content:
- *           text/plain:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: "Comment Not Found"
+ *               $ref: '#/components/schemas/Error'
  */
-commentRouter.patch('/:id', async (req, res) => {
+commentRouter.patch('/:id', validate({ params: commentIdParams, body: updateCommentBody }), authorize(Permission.MODERATE_COMMENTS, commentOwner), async (req, res) => {
 
     const commentId = req.params.id;
-    const sender = req.user
-
-    if (!isValidObjectId(commentId)) {
-        return res.status(400).send('Invalid Comment Id');
-    }
-
-    const existingComment = await getCommentById(commentId);
-    
-    if (!existingComment) {
-        return res.status(404).send('Comment Not Found');
-    }
-
-    if (!sender || sender._id != existingComment.sender) {
-        return res.status(400).send('Unauthorized');
-    }
-
-    if (!req.body) {
-        return res.status(400).send('Missing Body');
-    }
 
     const { content } = req.body;
+    const editor = req.user;
 
-    if (!content) {
-        return res.status(400).send('No comment content provided');
+    if (!editor) {
+        throw new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Unauthenticated');
     }
 
-    const updatedComment = await updateComment(commentId, content);
+    const updatedComment = await updateComment(commentId, content, editor._id);
 
     if (!updatedComment) {
-        return res.status(404).send('Comment Not Found');
+        throw new NotFoundError('Comment Not Found');
     }
-    res.status(200).send(updatedComment);
+    res.status(200).send(toPublicComment(updatedComment));
 })
 
 export default commentRouter
\ No newline at end of file
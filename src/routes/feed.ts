@@ -0,0 +1,69 @@
+import express from "express";
+import { getFeed } from "../controllers/post";
+import { toPublicPost } from "../serializers/post";
+import { mapPage } from "../utils/pagination";
+import { ErrorCode, UnauthorizedError } from "../utils/errors";
+import validate, { validatedQuery } from "../middlewares/validate";
+import { feedQuery } from "../schemas/post";
+
+const feedRouter = express.Router();
+
+/**
+ * @swagger
+ * /feed:
+ *   get:
+ *     tags: [Feed]
+ *     summary: Get the home feed
+ *     description: Retrieves the posts of the users the authenticated user follows, newest first, using cursor pagination. The feed is empty until the user follows someone.
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Maximum number of posts to return
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor returned as `nextCursor` by the previous page
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include posts created at or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include posts created at or before this date
+ *     responses:
+ *       200:
+ *         description: A page of posts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PostPage'
+ *       400:
+ *         description: Invalid query parameter or cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+feedRouter.get('/', validate({ query: feedQuery }), async (req, res) => {
+    if (!req.user) {
+        throw new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Unauthenticated');
+    }
+
+    const { limit, cursor, sort, ...range } = validatedQuery(req, feedQuery);
+
+    const page = await getFeed(req.user._id, range, { limit, cursor, sort });
+    res.status(200).send(mapPage(page, toPublicPost));
+})
+
+export default feedRouter
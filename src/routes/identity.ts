@@ -0,0 +1,236 @@
+import express, { Request } from "express";
+import mongoose from "mongoose";
+import { getUserById, hasPassword } from "../controllers/user";
+import { countIdentities, getIdentities, getIdentity, linkIdentity, unlinkIdentity } from "../controllers/identity";
+import { consumeOidcAuthorization, createOidcAuthorization } from "../controllers/oidcAuthorization";
+import { toPublicIdentity } from "../serializers/identity";
+import { authorizationUrl, exchangeCode, getOidcProvider } from "../utils/oidc";
+import { BadRequestError, ConflictError, ErrorCode, NotFoundError, UnauthorizedError } from "../utils/errors";
+import validate from "../middlewares/validate";
+import { identityIdParams, oidcLinkBody, providerParams } from "../schemas/oidc";
+
+const identityRouter = express.Router();
+
+const currentUserId = (req: Request) => {
+    if (!req.user) {
+        throw new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Unauthenticated');
+    }
+    return req.user._id as string;
+}
+
+/**
+ * @swagger
+ * /auth/identities:
+ *   get:
+ *     tags: [Auth]
+ *     summary: List linked identities
+ *     description: Returns the OpenID Connect identities the authenticated user can log in with.
+ *     responses:
+ *       200:
+ *         description: Linked identities
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Identity'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+identityRouter.get('/', async (req, res) => {
+    const identities = await getIdentities(currentUserId(req));
+
+    res.status(200).send(identities.map(toPublicIdentity));
+})
+
+/**
+ * @swagger
+ * /auth/identities/{provider}/authorize:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Start linking an identity
+ *     description: Starts an authorization code flow with PKCE that links the provider account the user logs in with to the authenticated user. The client posts the returned `code` and `state` to `/auth/identities/{provider}/callback` with the same user's credentials.
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Name of the provider
+ *     responses:
+ *       200:
+ *         description: Authorization started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OidcAuthorization'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Provider not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       502:
+ *         description: The provider could not be reached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+identityRouter.post('/:provider/authorize', validate({ params: providerParams }), async (req, res) => {
+    const userId = currentUserId(req);
+    const provider = getOidcProvider(req.params.provider);
+    const authorization = await createOidcAuthorization(provider.name, new mongoose.Types.ObjectId(userId));
+
+    res.status(200).send({ authorizationUrl: await authorizationUrl(provider, authorization) });
+})
+
+/**
+ * @swagger
+ * /auth/identities/{provider}/callback:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Complete linking an identity
+ *     description: Exchanges the authorization code and links the provider account to the authenticated user, who must be the one that started the link. The provider account's email does not need to match.
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Name of the provider
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OidcLinkRequest'
+ *     responses:
+ *       200:
+ *         description: Identity linked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Identity'
+ *       400:
+ *         description: Invalid or expired state or code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Provider not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The identity is already linked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       502:
+ *         description: The provider could not be reached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+identityRouter.post('/:provider/callback', validate({ params: providerParams, body: oidcLinkBody }), async (req, res) => {
+    const userId = new mongoose.Types.ObjectId(currentUserId(req));
+    const provider = getOidcProvider(req.params.provider);
+    const { code, state } = req.body;
+
+    // Links started by another user are rejected, so nobody can be tricked into linking an identity to someone else's account.
+    const authorization = await consumeOidcAuthorization(state, provider.name, userId);
+
+    if (!authorization) {
+        throw new BadRequestError(ErrorCode.INVALID_TOKEN, 'Invalid Or Expired State');
+    }
+
+    const claims = await exchangeCode(provider, code, authorization.codeVerifier, authorization.nonce);
+
+    if (await getIdentity(provider.name, claims.subject)) {
+        throw new ConflictError(ErrorCode.DUPLICATE_RESOURCE, 'Identity Already Linked');
+    }
+
+    const identity = await linkIdentity(userId, provider.name, claims);
+
+    res.status(200).send(toPublicIdentity(identity));
+})
+
+/**
+ * @swagger
+ * /auth/identities/{id}:
+ *   delete:
+ *     tags: [Auth]
+ *     summary: Unlink an identity
+ *     description: Unlinks one of the authenticated user's identities. The last identity of an account without a password cannot be unlinked, since the account could not be logged in to anymore.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The identity ID
+ *     responses:
+ *       200:
+ *         description: Identity unlinked
+ *       400:
+ *         description: Invalid ID, or the identity is the account's only way to log in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Identity not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+identityRouter.delete('/:id', validate({ params: identityIdParams }), async (req, res) => {
+    const userId = currentUserId(req);
+    const user = await getUserById(userId);
+
+    if (!user) {
+        throw new NotFoundError('User Not Found');
+    }
+
+    if (!hasPassword(user) && await countIdentities(userId) <= 1) {
+        throw new BadRequestError(ErrorCode.LAST_LOGIN_METHOD, 'Cannot Unlink The Only Way To Log In');
+    }
+
+    const identity = await unlinkIdentity(req.params.id, userId);
+
+    if (!identity) {
+        throw new NotFoundError('Identity Not Found');
+    }
+
+    res.status(200).send();
+})
+
+export default identityRouter
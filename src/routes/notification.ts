@@ -0,0 +1,247 @@
+import express, { Request } from "express";
+import { countUnread, getNotifications, markAllRead, markRead, updateNotificationPreferences } from "../controllers/notification";
+import { getUserById } from "../controllers/user";
+import { toPublicNotification, toPublicNotificationPreferences } from "../serializers/notification";
+import { mapPage } from "../utils/pagination";
+import { BadRequestError, ErrorCode, NotFoundError, UnauthorizedError } from "../utils/errors";
+import validate, { validatedQuery } from "../middlewares/validate";
+import { notificationIdParams, notificationListQuery, notificationPreferencesBody } from "../schemas/notification";
+
+const notificationRouter = express.Router();
+
+const currentUserId = (req: Request) => {
+    if (!req.user) {
+        throw new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Unauthenticated');
+    }
+    return req.user._id as string;
+}
+
+/**
+ * @swagger
+ * /notification:
+ *   get:
+ *     tags: [Notifications]
+ *     summary: List notifications
+ *     description: Retrieves the authenticated user's notifications about comments on their posts, replies to their comments, mentions and new followers, using cursor pagination. The response also holds the number of unread notifications.
+ *     parameters:
+ *       - in: query
+ *         name: unread
+ *         schema:
+ *           type: boolean
+ *         description: Only include unread (`true`) or read (`false`) notifications
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Maximum number of notifications to return
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor returned as `nextCursor` by the previous page
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [newest, oldest]
+ *           default: newest
+ *         description: Sort order
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include notifications created at or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include notifications created at or before this date
+ *     responses:
+ *       200:
+ *         description: A page of notifications
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotificationPage'
+ *       400:
+ *         description: Invalid query parameter or cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+notificationRouter.get('/', validate({ query: notificationListQuery }), async (req, res) => {
+    const userId = currentUserId(req);
+    const { limit, cursor, sort, ...filters } = validatedQuery(req, notificationListQuery);
+
+    const page = await getNotifications(userId, filters, { limit, cursor, sort });
+    res.status(200).send({ ...mapPage(page, toPublicNotification), unreadCount: await countUnread(userId) });
+})
+
+/**
+ * @swagger
+ * /notification/unreadCount:
+ *   get:
+ *     tags: [Notifications]
+ *     summary: Count unread notifications
+ *     description: Returns the number of the authenticated user's notifications that are not read yet.
+ *     responses:
+ *       200:
+ *         description: The number of unread notifications
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnreadCount'
+ */
+notificationRouter.get('/unreadCount', async (req, res) => {
+    const userId = currentUserId(req);
+
+    res.status(200).send({ unreadCount: await countUnread(userId) });
+})
+
+/**
+ * @swagger
+ * /notification/readAll:
+ *   post:
+ *     tags: [Notifications]
+ *     summary: Mark all notifications as read
+ *     description: Marks every notification of the authenticated user as read.
+ *     responses:
+ *       200:
+ *         description: The number of unread notifications afterwards
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnreadCount'
+ */
+notificationRouter.post('/readAll', async (req, res) => {
+    const userId = currentUserId(req);
+
+    await markAllRead(userId);
+    res.status(200).send({ unreadCount: await countUnread(userId) });
+})
+
+/**
+ * @swagger
+ * /notification/{id}/read:
+ *   post:
+ *     tags: [Notifications]
+ *     summary: Mark a notification as read
+ *     description: Marks one of the authenticated user's notifications as read. Marking it again has no further effect.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the notification
+ *     responses:
+ *       200:
+ *         description: The number of unread notifications afterwards
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UnreadCount'
+ *       400:
+ *         description: Invalid notification ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Notification not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+notificationRouter.post('/:id/read', validate({ params: notificationIdParams }), async (req, res) => {
+    const userId = currentUserId(req);
+
+    // Other users' notifications are reported as missing rather than forbidden.
+    if (!await markRead(userId, req.params.id)) {
+        throw new NotFoundError('Notification Not Found');
+    }
+    res.status(200).send({ unreadCount: await countUnread(userId) });
+})
+
+/**
+ * @swagger
+ * /notification/preferences:
+ *   get:
+ *     tags: [Notifications]
+ *     summary: Get notification preferences
+ *     description: Returns which types of notifications the authenticated user receives.
+ *     responses:
+ *       200:
+ *         description: Notification preferences
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotificationPreferences'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   patch:
+ *     tags: [Notifications]
+ *     summary: Update notification preferences
+ *     description: Turns types of notifications on or off for the authenticated user. Types left out keep their current setting. Turning a type off only stops new notifications.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateNotificationPreferencesRequest'
+ *     responses:
+ *       200:
+ *         description: Notification preferences after the change
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotificationPreferences'
+ *       400:
+ *         description: No or invalid preferences
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+notificationRouter.get('/preferences', async (req, res) => {
+    const user = await getUserById(currentUserId(req));
+
+    if (!user) {
+        throw new NotFoundError('User Not Found');
+    }
+    res.status(200).send(toPublicNotificationPreferences(user.notificationPreferences));
+})
+
+notificationRouter.patch('/preferences', validate({ body: notificationPreferencesBody }), async (req, res) => {
+    const userId = currentUserId(req);
+
+    if (Object.keys(req.body).length === 0) {
+        throw new BadRequestError(ErrorCode.VALIDATION_FAILED, 'No fields to update');
+    }
+
+    const user = await updateNotificationPreferences(userId, req.body);
+
+    if (!user) {
+        throw new NotFoundError('User Not Found');
+    }
+    res.status(200).send(toPublicNotificationPreferences(user.notificationPreferences));
+})
+
+export default notificationRouter
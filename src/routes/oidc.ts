@@ -0,0 +1,199 @@
+import express from "express";
+import { availableUsername, createUserWithoutPassword, getUserByEmail, getUserById } from "../controllers/user";
+import { getIdentity, linkIdentity, recordIdentityLogin } from "../controllers/identity";
+import { consumeOidcAuthorization, createOidcAuthorization } from "../controllers/oidcAuthorization";
+import { authorizationUrl, exchangeCode, getOidcProvider, getOidcProviders, OidcClaims } from "../utils/oidc";
+import { completeLogin } from "../utils/authSession";
+import { clearOidcStateCookie, hasOidcStateCookie, setOidcStateCookie } from "../utils/authCookies";
+import { BadRequestError, ErrorCode } from "../utils/errors";
+import validate from "../middlewares/validate";
+import rateLimit, { byIp } from "../middlewares/rateLimit";
+import { oidcLoginBody, providerParams } from "../schemas/oidc";
+
+const oidcRouter = express.Router();
+
+const oidcLimit = rateLimit({ name: 'oidc', limit: 20, windowMs: 15 * 60 * 1000, key: byIp });
+
+/**
+ * Finds the user an identity logs in as. Known identities belong to their user. A
+ * new identity is linked to the account with the same email, or gets a new account
+ * when there is none; either way the provider must have verified the email.
+ */
+const findOrCreateUser = async (provider: string, claims: OidcClaims) => {
+    const identity = await getIdentity(provider, claims.subject);
+    const linkedUser = identity && await getUserById(identity.user.toString());
+
+    if (identity && linkedUser) {
+        await recordIdentityLogin(identity._id, claims);
+        return linkedUser;
+    }
+
+    if (!claims.email || !claims.emailVerified) {
+        throw new BadRequestError(ErrorCode.OIDC_LOGIN_FAILED, 'Email Not Verified By Provider');
+    }
+
+    const existingUser = await getUserByEmail(claims.email);
+
+    // Anyone can register an unverified address, so linking to such an account could hand
+    // the provider's user an account someone else prepared. Its owner can link after logging in.
+    if (existingUser && !existingUser.emailVerified) {
+        throw new BadRequestError(ErrorCode.DUPLICATE_RESOURCE, 'Email Already Registered');
+    }
+
+    const user = existingUser ?? await createUserWithoutPassword(
+        await availableUsername(claims.preferredUsername ?? claims.email.split('@')[0]),
+        claims.email
+    );
+    const newIdentity = await linkIdentity(user._id, provider, claims);
+    await recordIdentityLogin(newIdentity._id, claims);
+
+    return user;
+}
+
+/**
+ * @swagger
+ * /auth/oidc/providers:
+ *   get:
+ *     tags: [Auth]
+ *     summary: List OpenID Connect providers
+ *     security: []
+ *     description: Returns the names of the configured providers (`OIDC_PROVIDERS`) that can be used to log in.
+ *     responses:
+ *       200:
+ *         description: Configured providers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/OidcProvider'
+ */
+oidcRouter.get('/providers', (req, res) => {
+    res.status(200).send(getOidcProviders().map(provider => ({ name: provider.name })));
+})
+
+/**
+ * @swagger
+ * /auth/oidc/{provider}/authorize:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Start a login with an OpenID Connect provider
+ *     security: []
+ *     description: Starts an authorization code flow with PKCE and returns the provider URL to send the user to. After the login there, the provider redirects to the provider's configured redirect URI with a `code` and `state`, which the client posts to `/auth/oidc/{provider}/callback` within `OIDC_AUTHORIZATION_TTL_MINUTES` (10 minutes by default). An httpOnly `oidcState` cookie is set that the callback must be sent with, so only the browser that started the login can complete it.
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Name of the provider
+ *     responses:
+ *       200:
+ *         description: Authorization started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OidcAuthorization'
+ *       404:
+ *         description: Provider not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       502:
+ *         description: The provider could not be reached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+oidcRouter.post('/:provider/authorize', oidcLimit, validate({ params: providerParams }), async (req, res) => {
+    const provider = getOidcProvider(req.params.provider);
+    const authorization = await createOidcAuthorization(provider.name);
+    setOidcStateCookie(res, authorization.state);
+
+    res.status(200).send({ authorizationUrl: await authorizationUrl(provider, authorization) });
+})
+
+/**
+ * @swagger
+ * /auth/oidc/{provider}/callback:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Complete a login with an OpenID Connect provider
+ *     security: []
+ *     description: Exchanges the authorization code for the user's ID token and logs in as the account linked to it. An identity seen for the first time is linked to the account with the same email, or a new account without a password is created for it. Both require the provider to have verified the email, and an existing account must have verified it too. Responds like `/auth/login`, including the two-factor challenge. The request must carry the `oidcState` cookie set by `/auth/oidc/{provider}/authorize`.
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Name of the provider
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OidcLoginRequest'
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/AuthTokens'
+ *                 - $ref: '#/components/schemas/CsrfToken'
+ *                 - $ref: '#/components/schemas/TwoFactorChallenge'
+ *       400:
+ *         description: Invalid or expired state or code, missing `oidcState` cookie, unverified email, or the email belongs to an account that has not verified it
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Provider not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: A concurrent login linked the identity first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *       502:
+ *         description: The provider could not be reached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+oidcRouter.post('/:provider/callback', oidcLimit, validate({ params: providerParams, body: oidcLoginBody }), async (req, res) => {
+    const provider = getOidcProvider(req.params.provider);
+    const { code, state, useCookies } = req.body;
+
+    if (!hasOidcStateCookie(req, state)) {
+        throw new BadRequestError(ErrorCode.INVALID_TOKEN, 'Invalid Or Expired State');
+    }
+
+    const authorization = await consumeOidcAuthorization(state, provider.name);
+    clearOidcStateCookie(res);
+
+    if (!authorization) {
+        throw new BadRequestError(ErrorCode.INVALID_TOKEN, 'Invalid Or Expired State');
+    }
+
+    const claims = await exchangeCode(provider, code, authorization.codeVerifier, authorization.nonce);
+    const user = await findOrCreateUser(provider.name, claims);
+
+    await completeLogin(req, res, user, Boolean(useCookies));
+})
+
+export default oidcRouter
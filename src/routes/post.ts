@@ -1,22 +1,57 @@
 import express, { Request, Response } from "express";
-import { createPost, getPosts, getPostById, getPostsBySender, updatePost } from "../controllers/post";
-import { isValidObjectId } from "mongoose";
+import { createPost, getPosts, getPostById, updatePost, deletePost } from "../controllers/post";
+import { addAttachments, removeAttachment } from "../controllers/attachment";
+import { getCommentTree } from "../controllers/comment";
+import { countReactions } from "../controllers/reaction";
+import { ReactionTarget } from "../models/reaction";
+import { toPublicPost } from "../serializers/post";
+import { toPublicAttachment } from "../serializers/attachment";
+import { toPublicCommentNode } from "../serializers/comment";
+import { mapPage } from "../utils/pagination";
+import { BadRequestError, ErrorCode, NotFoundError, UnauthorizedError } from "../utils/errors";
+import env from "../utils/env";
+import validate, { validatedQuery } from "../middlewares/validate";
+import authorize from "../middlewares/authorize";
+import requireVerifiedEmail from "../middlewares/requireVerifiedEmail";
+import rateLimit, { byUser } from "../middlewares/rateLimit";
+import { uploadAttachments } from "../middlewares/upload";
+import { Permission } from "../utils/permissions";
+import { attachmentParams, postBody, postIdParams, postListQuery } from "../schemas/post";
 
 const postRouter = express.Router();
 
+const createPostLimit = rateLimit({ name: 'createPost', limit: 10, windowMs: 60 * 1000, key: byUser });
+const uploadLimit = rateLimit({ name: 'uploadAttachments', limit: 10, windowMs: 60 * 1000, key: byUser });
+
+const uploadedFiles = (req: Request) => (req.files ?? []) as Express.Multer.File[];
+
+const tooManyAttachments = () => new BadRequestError(ErrorCode.TOO_MANY_ATTACHMENTS, `At Most ${env.ATTACHMENT_MAX_COUNT} Attachments Are Allowed`);
+
+const postOwner = async (req: Request) => {
+    const post = await getPostById(req.params.id);
+
+    if (!post) {
+        throw new NotFoundError('Post Not Found');
+    }
+    return post.sender;
+}
+
 /**
  * @swagger
  * /post:
  *   post:
  *     tags: [Posts]
  *     summary: Create a new post
- *     description: Create a new post with a title and content. The sender is automatically taken from the authenticated user.
+ *     description: Create a new post with a title and content. The sender is automatically taken from the authenticated user. Images can be attached by sending the post as `multipart/form-data` with the files in `attachments`; up to `ATTACHMENT_MAX_COUNT` (4 by default) JPEG, PNG, GIF or WebP images of at most `ATTACHMENT_MAX_SIZE_MB` (5 by default) each.
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             $ref: '#/components/schemas/CreatePostRequest'
+ *         multipart/form-data:
+ *           schema:
+ *             $ref: '#/components/schemas/CreatePostWithAttachmentsRequest'
  *     responses:
  *       200:
  *         description: Post created successfully
@@ -25,28 +60,37 @@ const postRouter = express.Router();
  *             schema:
  *               $ref: '#/components/schemas/Post'
  *       400:
- *         description: Invalid post data
+ *         description: Invalid post data, or an attachment that is not a supported image
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Email not verified, when `EMAIL_VERIFICATION_REQUIRED` is set
  *         content:
- *           text/plain:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: "Invalid Post"
+ *               $ref: '#/components/schemas/Error'
+ *       413:
+ *         description: An attachment is too large
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  */
-postRouter.post('/', async (req: Request, res: Response) => {
-    if (!req.body) {
-        return res.status(400).send('Missing Body');
-    }
-    
+postRouter.post('/', createPostLimit, requireVerifiedEmail, uploadAttachments, validate({ body: postBody }), async (req: Request, res: Response) => {
     const sender = req.user;
     const { title, content } = req.body;
 
-    if (!title || !content || !sender) {
-        return res.status(400).send('Invalid Post');
+    if (!sender) {
+        throw new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Unauthenticated');
     }
 
-    const post = await createPost(title, sender._id, content);
+    const post = await createPost(title, sender._id, content, uploadedFiles(req));
 
-    return res.status(200).send(post);
+    return res.status(200).send(toPublicPost(post));
 })
 
 /**
@@ -54,34 +98,65 @@ postRouter.post('/', async (req: Request, res: Response) => {
  * /post:
  *   get:
  *     tags: [Posts]
- *     summary: Get all posts or posts by sender
- *     description: Retrieve all posts, or filter posts by the sender's user ID using query parameter.
+ *     summary: Get a page of posts
+ *     description: Retrieve posts using cursor pagination. Filters can be combined, and the `nextCursor` of a page is passed back as `cursor` to fetch the next one.
  *     parameters:
  *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Maximum number of posts to return
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor returned as `nextCursor` by the previous page
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [newest, oldest, mostCommented, mostLiked]
+ *           default: newest
+ *         description: Sort order
+ *       - in: query
  *         name: sender
  *         schema:
  *           type: string
  *         description: Filter posts by sender ID
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include posts created at or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include posts created at or before this date
  *     responses:
  *       200:
- *         description: List of posts
+ *         description: A page of posts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PostPage'
+ *       400:
+ *         description: Invalid query parameter or cursor
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Post'
+ *               $ref: '#/components/schemas/Error'
  */
-postRouter.get('/', async (req, res) => {
-    const sender = req.query.sender as string;
+postRouter.get('/', validate({ query: postListQuery }), async (req, res) => {
+    const { limit, cursor, sort, ...filters } = validatedQuery(req, postListQuery);
 
-    if (sender) {
-        const posts = await getPostsBySender(sender);
-        return res.status(200).send(posts);
-    }
-
-    const posts = await getPosts();
-    return res.status(200).send(posts);
+    const page = await getPosts(filters, { limit, cursor, sort });
+    return res.status(200).send(mapPage(page, toPublicPost));
 })
 
 /**
@@ -90,7 +165,7 @@ postRouter.get('/', async (req, res) => {
  *   get:
  *     tags: [Posts]
  *     summary: Get a post by ID
- *     description: Retrieve a single post by its unique ID.
+ *     description: Retrieve a single post by its unique ID, including its reaction counts.
  *     parameters:
  *       - in: path
  *         name: id
@@ -108,32 +183,75 @@ postRouter.get('/', async (req, res) => {
  *       400:
  *         description: Invalid post ID
  *         content:
- *           text/plain:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: "Invalid Post Id"
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Post not found
  *         content:
- *           text/plain:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: "Post Not Found"
+ *               $ref: '#/components/schemas/Error'
  */
-postRouter.get('/:id', async (req, res) => {
+postRouter.get('/:id', validate({ params: postIdParams }), async (req, res) => {
     const id = req.params.id;
 
-    if (!isValidObjectId(id)) {
-        res.status(400).send('Invalid Post Id')
+    const post = await getPostById(id);
+
+    if (!post) {
+        throw new NotFoundError('Post Not Found');
     }
 
+    const reactions = await countReactions(ReactionTarget.POST, [post._id]);
+
+    res.status(200).send(toPublicPost({ ...post.toObject(), reactions: reactions.get(id) }));
+})
+
+/**
+ * @swagger
+ * /post/{id}/comments:
+ *   get:
+ *     tags: [Posts]
+ *     summary: Get the comment threads of a post
+ *     description: Retrieve all comments of a post as a tree. Top-level comments and their replies are ordered oldest first, and deleted comments that still have replies appear as "[deleted]" placeholders.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the post
+ *     responses:
+ *       200:
+ *         description: The comment tree of the post
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CommentTree'
+ *       400:
+ *         description: Invalid post ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Post not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+postRouter.get('/:id/comments', validate({ params: postIdParams }), async (req, res) => {
+    const id = req.params.id;
+
     const post = await getPostById(id);
 
     if (!post) {
-        res.status(404).send('Post Not Found');
+        throw new NotFoundError('Post Not Found');
     }
 
-    res.status(200).send(post);
+    const tree = await getCommentTree(id);
+    res.status(200).send({ items: tree.map(toPublicCommentNode) });
 })
 
 /**
@@ -142,7 +260,7 @@ postRouter.get('/:id', async (req, res) => {
  *   put:
  *     tags: [Posts]
  *     summary: Update a post by ID
- *     description: Update the title and content of a post. The sender is automatically taken from the authenticated user.
+ *     description: Update the title and content of a post. Only the post owner or a moderator can update a post. When the title or content changes, the previous version is kept as a revision and `editedAt` is set.
  *     parameters:
  *       - in: path
  *         name: id
@@ -166,56 +284,224 @@ postRouter.get('/:id', async (req, res) => {
  *       400:
  *         description: Invalid post or missing body
  *         content:
- *           text/plain:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not the owner and missing the required permission
+ *         content:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: "Invalid Post"
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Post not found
  *         content:
- *           text/plain:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: "Post Not Found"
+ *               $ref: '#/components/schemas/Error'
  */
-postRouter.put('/:id', async (req, res) => {
+postRouter.put('/:id', validate({ params: postIdParams, body: postBody }), authorize(Permission.MODERATE_POSTS, postOwner), async (req, res) => {
     const id = req.params.id; 
-    if (!isValidObjectId(id)) {
-        return res.status(400).send('Invalid Post Id');
+    const { title, content } = req.body;
+    const editor = req.user;
+
+    if (!editor) {
+        throw new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Unauthenticated');
     }
 
-    if (!req.body) {
-        return res.status(400).send('Missing Body');
+    const updatedPost = await updatePost(id, { title, content }, editor._id);
+
+    if (!updatedPost) {
+        throw new NotFoundError('Post Not Found');
     }
+    res.status(200).send(toPublicPost(updatedPost));
+})
 
-    const sender = req.user
-    const { title, content } = req.body;
+/**
+ * @swagger
+ * /post/{id}:
+ *   delete:
+ *     tags: [Posts]
+ *     summary: Delete a post by ID
+ *     description: Delete a post together with all of its comments. Only the post owner or a moderator can delete a post. The post and its comments are removed in a single transaction.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the post to delete
+ *     responses:
+ *       200:
+ *         description: Post deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Post'
+ *       400:
+ *         description: Invalid post ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not the owner and missing the required permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Post not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+postRouter.delete('/:id', validate({ params: postIdParams }), authorize(Permission.MODERATE_POSTS, postOwner), async (req, res) => {
+    const id = req.params.id;
+
+    const deletedPost = await deletePost(id);
 
-    if (!title || !sender || !content) {
-        return res.status(400).send('Invalid Post');
+    if (!deletedPost) {
+        throw new NotFoundError('Post Not Found');
     }
+    res.status(200).send(toPublicPost(deletedPost));
+})
 
-    const existingPost = await getPostById(id)
-    
-    if (!existingPost) {
-        return res.status(404).send('Post Not Found');
+/**
+ * @swagger
+ * /post/{id}/attachments:
+ *   post:
+ *     tags: [Posts]
+ *     summary: Attach images to a post
+ *     description: Upload images to an existing post. Only the post owner or a moderator can attach images, and a post can have at most `ATTACHMENT_MAX_COUNT` (4 by default) attachments. A thumbnail is generated for every image.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the post
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             $ref: '#/components/schemas/AttachmentUpload'
+ *     responses:
+ *       200:
+ *         description: Images attached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Post'
+ *       400:
+ *         description: Invalid post ID, no or too many attachments, or an attachment that is not a supported image
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not the owner and missing the required permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Post not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       413:
+ *         description: An attachment is too large
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+postRouter.post('/:id/attachments', uploadLimit, validate({ params: postIdParams }), authorize(Permission.MODERATE_POSTS, postOwner), uploadAttachments, async (req, res) => {
+    const id = req.params.id;
+    const files = uploadedFiles(req);
+
+    if (files.length === 0) {
+        throw new BadRequestError(ErrorCode.INVALID_ATTACHMENT, 'No Attachments Uploaded');
     }
 
-    if (sender._id != existingPost.sender) {
-        return res.status(400).send('Unauthorized');
+    const post = await getPostById(id);
+
+    if (!post) {
+        throw new NotFoundError('Post Not Found');
     }
 
-    const post = {
-        ...req.body,
-        "sender": sender._id
+    // Checked up front to avoid storing files that cannot be attached; addAttachments checks again atomically.
+    if (post.attachments.length + files.length > env.ATTACHMENT_MAX_COUNT) {
+        throw tooManyAttachments();
     }
 
-    const updatedPost = await updatePost(id, post);
+    const updatedPost = await addAttachments(id, files);
 
     if (!updatedPost) {
-        return res.status(404).send('Post Not Found');
+        throw tooManyAttachments();
+    }
+    res.status(200).send(toPublicPost(updatedPost));
+})
+
+/**
+ * @swagger
+ * /post/{id}/attachments/{attachmentId}:
+ *   delete:
+ *     tags: [Posts]
+ *     summary: Remove an attachment from a post
+ *     description: Remove an image and its thumbnail from a post. Only the post owner or a moderator can remove attachments.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the post
+ *       - in: path
+ *         name: attachmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the attachment
+ *     responses:
+ *       200:
+ *         description: Attachment removed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Attachment'
+ *       400:
+ *         description: Invalid post or attachment ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not the owner and missing the required permission
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Post or attachment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+postRouter.delete('/:id/attachments/:attachmentId', validate({ params: attachmentParams }), authorize(Permission.MODERATE_POSTS, postOwner), async (req, res) => {
+    const attachment = await removeAttachment(req.params.id, req.params.attachmentId);
+
+    if (!attachment) {
+        throw new NotFoundError('Attachment Not Found');
     }
-    res.status(200).send(updatedPost);
+    res.status(200).send(toPublicAttachment(attachment));
 })
 
 export default postRouter
\ No newline at end of file
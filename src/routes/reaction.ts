@@ -0,0 +1,254 @@
+import express, { Request } from "express";
+import mongoose from "mongoose";
+import { addReaction, countReactions, getReactions, getUserReactions, removeReaction } from "../controllers/reaction";
+import { getPostById } from "../controllers/post";
+import { getCommentById } from "../controllers/comment";
+import { ReactionTarget, ReactionType } from "../models/reaction";
+import { toPublicReaction, toPublicReactionSummary } from "../serializers/reaction";
+import { mapPage } from "../utils/pagination";
+import { ErrorCode, NotFoundError, UnauthorizedError } from "../utils/errors";
+import validate, { validatedQuery } from "../middlewares/validate";
+import rateLimit, { byUser } from "../middlewares/rateLimit";
+import { postIdParams } from "../schemas/post";
+import { commentIdParams } from "../schemas/comment";
+import { reactionListQuery, reactionType } from "../schemas/reaction";
+
+const targets = {
+    [ReactionTarget.POST]: {
+        idParams: postIdParams,
+        exists: async (id: string) => Boolean(await getPostById(id)),
+        notFoundMessage: 'Post Not Found'
+    },
+    [ReactionTarget.COMMENT]: {
+        idParams: commentIdParams,
+        // Placeholders of deleted comments cannot be reacted to.
+        exists: async (id: string) => Boolean((await getCommentById(id))?.deleted === false),
+        notFoundMessage: 'Comment Not Found'
+    },
+};
+
+// Shared by posts and comments, so reacting to either counts towards one limit.
+const reactLimit = rateLimit({ name: 'react', limit: 60, windowMs: 60 * 1000, key: byUser });
+
+/**
+ * Creates the reactions router of a post or comment. It is mounted below the
+ * target's own path, so `req.params.id` is the ID of the post or comment.
+ */
+const createReactionRouter = (target: ReactionTarget) => {
+    const reactionRouter = express.Router({ mergeParams: true });
+    const { idParams, exists, notFoundMessage } = targets[target];
+    const reactionParams = idParams.extend({ type: reactionType });
+
+    const findTarget = async (req: Request<{ id: string }>) => {
+        if (!await exists(req.params.id)) {
+            throw new NotFoundError(notFoundMessage);
+        }
+        return req.params.id;
+    }
+
+    const summarize = async (targetId: string, userId: string) => {
+        const counts = await countReactions(target, [new mongoose.Types.ObjectId(targetId)]);
+        const mine = await getUserReactions(target, targetId, userId);
+
+        return toPublicReactionSummary(counts.get(targetId) ?? {}, mine);
+    }
+
+    /**
+     * @swagger
+     * /{target}/{id}/reactions:
+     *   get:
+     *     tags: [Reactions]
+     *     summary: List who reacted to a post or comment
+     *     description: Retrieve the reactions left on a post or comment together with the users who left them, using cursor pagination.
+     *     parameters:
+     *       - in: path
+     *         name: target
+     *         required: true
+     *         schema:
+     *           type: string
+     *           enum: [post, comment]
+     *         description: Whether the ID refers to a post or a comment
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *         description: The ID of the post or comment
+     *       - in: query
+     *         name: type
+     *         schema:
+     *           type: string
+     *           enum: [like, love, laugh, wow, sad, angry]
+     *         description: Only include reactions of this type
+     *       - in: query
+     *         name: limit
+     *         schema:
+     *           type: integer
+     *           minimum: 1
+     *           maximum: 100
+     *           default: 20
+     *         description: Maximum number of reactions to return
+     *       - in: query
+     *         name: cursor
+     *         schema:
+     *           type: string
+     *         description: Opaque cursor returned as `nextCursor` by the previous page
+     *       - in: query
+     *         name: sort
+     *         schema:
+     *           type: string
+     *           enum: [newest, oldest]
+     *           default: newest
+     *         description: Sort order
+     *     responses:
+     *       200:
+     *         description: A page of reactions
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/ReactionPage'
+     *       400:
+     *         description: Invalid ID, query parameter or cursor
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       404:
+     *         description: Post or comment not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    reactionRouter.get('/', validate({ params: idParams, query: reactionListQuery }), async (req: Request<{ id: string }>, res) => {
+        const targetId = await findTarget(req);
+        const { limit, cursor, sort, ...filters } = validatedQuery(req, reactionListQuery);
+
+        const page = await getReactions(target, targetId, filters, { limit, cursor, sort });
+        res.status(200).send(mapPage(page, toPublicReaction));
+    })
+
+    /**
+     * @swagger
+     * /{target}/{id}/reactions/{type}:
+     *   put:
+     *     tags: [Reactions]
+     *     summary: React to a post or comment
+     *     description: Add a reaction of the given type for the authenticated user. Each user can leave every reaction type once, so repeating the request has no further effect.
+     *     parameters:
+     *       - in: path
+     *         name: target
+     *         required: true
+     *         schema:
+     *           type: string
+     *           enum: [post, comment]
+     *         description: Whether the ID refers to a post or a comment
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *         description: The ID of the post or comment
+     *       - in: path
+     *         name: type
+     *         required: true
+     *         schema:
+     *           type: string
+     *           enum: [like, love, laugh, wow, sad, angry]
+     *         description: The reaction type
+     *     responses:
+     *       200:
+     *         description: Reaction counts after the change
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/ReactionSummary'
+     *       400:
+     *         description: Invalid ID or reaction type
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       404:
+     *         description: Post or comment not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *   delete:
+     *     tags: [Reactions]
+     *     summary: Remove a reaction from a post or comment
+     *     description: Remove the authenticated user's reaction of the given type. Removing a reaction that does not exist has no effect.
+     *     parameters:
+     *       - in: path
+     *         name: target
+     *         required: true
+     *         schema:
+     *           type: string
+     *           enum: [post, comment]
+     *         description: Whether the ID refers to a post or a comment
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *         description: The ID of the post or comment
+     *       - in: path
+     *         name: type
+     *         required: true
+     *         schema:
+     *           type: string
+     *           enum: [like, love, laugh, wow, sad, angry]
+     *         description: The reaction type
+     *     responses:
+     *       200:
+     *         description: Reaction counts after the change
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/ReactionSummary'
+     *       400:
+     *         description: Invalid ID or reaction type
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       404:
+     *         description: Post or comment not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       429:
+     *         $ref: '#/components/responses/TooManyRequests'
+     */
+    reactionRouter.put('/:type', reactLimit, validate({ params: reactionParams }), async (req: Request<{ id: string, type: ReactionType }>, res) => {
+        const user = req.user;
+
+        if (!user) {
+            throw new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Unauthenticated');
+        }
+
+        const targetId = await findTarget(req);
+        await addReaction(target, targetId, user._id, req.params.type);
+
+        res.status(200).send(await summarize(targetId, user._id));
+    })
+
+    reactionRouter.delete('/:type', validate({ params: reactionParams }), async (req: Request<{ id: string, type: ReactionType }>, res) => {
+        const user = req.user;
+
+        if (!user) {
+            throw new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Unauthenticated');
+        }
+
+        const targetId = await findTarget(req);
+        await removeReaction(target, targetId, user._id, req.params.type);
+
+        res.status(200).send(await summarize(targetId, user._id));
+    })
+
+    return reactionRouter;
+}
+
+export default createReactionRouter
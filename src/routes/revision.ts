@@ -0,0 +1,294 @@
+import express, { Request } from "express";
+import mongoose from "mongoose";
+import { diffVersions, getRevision, getRevisions, Version } from "../controllers/revision";
+import { getPostById, updatePost } from "../controllers/post";
+import { getCommentById, updateComment } from "../controllers/comment";
+import { RevisionTarget } from "../models/revision";
+import { toPublicRevision, toPublicRevisionDiff } from "../serializers/revision";
+import { toPublicPost } from "../serializers/post";
+import { toPublicComment } from "../serializers/comment";
+import { mapPage } from "../utils/pagination";
+import { ErrorCode, NotFoundError, UnauthorizedError } from "../utils/errors";
+import { Permission } from "../utils/permissions";
+import validate, { validatedQuery } from "../middlewares/validate";
+import authorize from "../middlewares/authorize";
+import { postIdParams } from "../schemas/post";
+import { commentIdParams } from "../schemas/comment";
+import { revisionDiffQuery, revisionId, revisionListQuery } from "../schemas/revision";
+
+type CurrentVersion = Version & { sender: mongoose.Types.ObjectId };
+
+const targets = {
+    [RevisionTarget.POST]: {
+        idParams: postIdParams,
+        permission: Permission.MODERATE_POSTS,
+        find: async (id: string): Promise<CurrentVersion | null> => await getPostById(id),
+        restore: async (id: string, revision: Version, editor: string) => {
+            const post = await updatePost(id, { title: revision.title, content: revision.content }, editor);
+            return post && toPublicPost(post);
+        },
+        notFoundMessage: 'Post Not Found'
+    },
+    [RevisionTarget.COMMENT]: {
+        idParams: commentIdParams,
+        permission: Permission.MODERATE_COMMENTS,
+        // Placeholders of deleted comments have no history.
+        find: async (id: string): Promise<CurrentVersion | null> => {
+            const comment = await getCommentById(id);
+            return comment && !comment.deleted ? comment : null;
+        },
+        restore: async (id: string, revision: Version, editor: string) => {
+            const comment = await updateComment(id, revision.content, editor);
+            return comment && toPublicComment(comment);
+        },
+        notFoundMessage: 'Comment Not Found'
+    },
+};
+
+/**
+ * Creates the revisions router of a post or comment. It is mounted below the target's
+ * own path, so `req.params.id` is the ID of the post or comment.
+ */
+const createRevisionRouter = (target: RevisionTarget) => {
+    const revisionRouter = express.Router({ mergeParams: true });
+    const { idParams, permission, find, restore, notFoundMessage } = targets[target];
+    const revisionParams = idParams.extend({ revisionId });
+
+    const findTarget = async (id: string) => {
+        const current = await find(id);
+
+        if (!current) {
+            throw new NotFoundError(notFoundMessage);
+        }
+        return current;
+    }
+
+    const findRevision = async (targetId: string, id: string) => {
+        const revision = await getRevision(target, targetId, id);
+
+        if (!revision) {
+            throw new NotFoundError('Revision Not Found');
+        }
+        return revision;
+    }
+
+    const targetOwner = async (req: Request) => (await findTarget(req.params.id)).sender;
+
+    /**
+     * @swagger
+     * /{target}/{id}/revisions:
+     *   get:
+     *     tags: [Revisions]
+     *     summary: List the earlier versions of a post or comment
+     *     description: Retrieve the versions that edits replaced, with the user who made each edit, using cursor pagination. The current version is the post or comment itself.
+     *     parameters:
+     *       - in: path
+     *         name: target
+     *         required: true
+     *         schema:
+     *           type: string
+     *           enum: [post, comment]
+     *         description: Whether the ID refers to a post or a comment
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *         description: The ID of the post or comment
+     *       - in: query
+     *         name: limit
+     *         schema:
+     *           type: integer
+     *           minimum: 1
+     *           maximum: 100
+     *           default: 20
+     *         description: Maximum number of revisions to return
+     *       - in: query
+     *         name: cursor
+     *         schema:
+     *           type: string
+     *         description: Opaque cursor returned as `nextCursor` by the previous page
+     *       - in: query
+     *         name: sort
+     *         schema:
+     *           type: string
+     *           enum: [newest, oldest]
+     *           default: newest
+     *         description: Sort order
+     *       - in: query
+     *         name: from
+     *         schema:
+     *           type: string
+     *           format: date-time
+     *         description: Only include versions replaced at or after this date
+     *       - in: query
+     *         name: to
+     *         schema:
+     *           type: string
+     *           format: date-time
+     *         description: Only include versions replaced at or before this date
+     *     responses:
+     *       200:
+     *         description: A page of revisions
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/RevisionPage'
+     *       400:
+     *         description: Invalid ID, query parameter or cursor
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       404:
+     *         description: Post or comment not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    revisionRouter.get('/', validate({ params: idParams, query: revisionListQuery }), async (req: Request<{ id: string }>, res) => {
+        await findTarget(req.params.id);
+        const { limit, cursor, sort, ...range } = validatedQuery(req, revisionListQuery);
+
+        const page = await getRevisions(target, req.params.id, range, { limit, cursor, sort });
+        res.status(200).send(mapPage(page, toPublicRevision));
+    })
+
+    /**
+     * @swagger
+     * /{target}/{id}/revisions/{revisionId}/diff:
+     *   get:
+     *     tags: [Revisions]
+     *     summary: Compare a revision with another version
+     *     description: Retrieve the word-level changes from a revision to the current version of the post or comment, or to another of its revisions when `against` is given.
+     *     parameters:
+     *       - in: path
+     *         name: target
+     *         required: true
+     *         schema:
+     *           type: string
+     *           enum: [post, comment]
+     *         description: Whether the ID refers to a post or a comment
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *         description: The ID of the post or comment
+     *       - in: path
+     *         name: revisionId
+     *         required: true
+     *         schema:
+     *           type: string
+     *         description: The ID of the revision to compare
+     *       - in: query
+     *         name: against
+     *         schema:
+     *           type: string
+     *         description: The ID of another revision to compare with, instead of the current version
+     *     responses:
+     *       200:
+     *         description: The changes between the two versions
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/RevisionDiff'
+     *       400:
+     *         description: Invalid ID
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       404:
+     *         description: Post, comment or revision not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    revisionRouter.get('/:revisionId/diff', validate({ params: revisionParams, query: revisionDiffQuery }), async (req: Request<{ id: string, revisionId: string }>, res) => {
+        const { against } = validatedQuery(req, revisionDiffQuery);
+
+        const current = await findTarget(req.params.id);
+        const revision = await findRevision(req.params.id, req.params.revisionId);
+        const other = against ? await findRevision(req.params.id, against) : current;
+
+        res.status(200).send(toPublicRevisionDiff(req.params.revisionId, against ?? null, diffVersions(revision, other)));
+    })
+
+    /**
+     * @swagger
+     * /{target}/{id}/revisions/{revisionId}/restore:
+     *   post:
+     *     tags: [Revisions]
+     *     summary: Restore a revision
+     *     description: Make a revision the current version again. Only the owner of the post or comment or a moderator can restore a revision. Restoring is an edit like any other, so the version it replaces is kept as a new revision.
+     *     parameters:
+     *       - in: path
+     *         name: target
+     *         required: true
+     *         schema:
+     *           type: string
+     *           enum: [post, comment]
+     *         description: Whether the ID refers to a post or a comment
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *         description: The ID of the post or comment
+     *       - in: path
+     *         name: revisionId
+     *         required: true
+     *         schema:
+     *           type: string
+     *         description: The ID of the revision to restore
+     *     responses:
+     *       200:
+     *         description: The restored post or comment
+     *         content:
+     *           application/json:
+     *             schema:
+     *               oneOf:
+     *                 - $ref: '#/components/schemas/Post'
+     *                 - $ref: '#/components/schemas/Comment'
+     *       400:
+     *         description: Invalid ID
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       403:
+     *         description: Not the owner and missing the required permission
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       404:
+     *         description: Post, comment or revision not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    revisionRouter.post('/:revisionId/restore', validate({ params: revisionParams }), authorize(permission, targetOwner), async (req: Request<{ id: string, revisionId: string }>, res) => {
+        const editor = req.user;
+
+        if (!editor) {
+            throw new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Unauthenticated');
+        }
+
+        const revision = await findRevision(req.params.id, req.params.revisionId);
+        const restored = await restore(req.params.id, revision, editor._id);
+
+        if (!restored) {
+            throw new NotFoundError(notFoundMessage);
+        }
+        res.status(200).send(restored);
+    })
+
+    return revisionRouter;
+}
+
+export default createRevisionRouter
@@ -0,0 +1,68 @@
+import express from "express";
+import { search } from "../controllers/search";
+import { toPublicSearchResult } from "../serializers/search";
+import { mapPage } from "../utils/pagination";
+import { searchTerms } from "../utils/highlight";
+import validate, { validatedQuery } from "../middlewares/validate";
+import { searchQuery } from "../schemas/search";
+
+const searchRouter = express.Router();
+
+/**
+ * @swagger
+ * /search:
+ *   get:
+ *     tags: [Search]
+ *     summary: Search posts, comments and users
+ *     description: Full-text search over post titles and content, comment content and usernames. Results are ordered by relevance and paginated with a cursor. Words are matched by their stem, `"quoted phrases"` must appear as written and `-word` excludes results containing that word.
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           maxLength: 200
+ *         description: The search query
+ *         example: "hello world"
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *         description: Comma-separated list of result types to include (`post`, `comment`, `user`). All types are included by default.
+ *         example: "post,comment"
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Maximum number of results to return
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor returned as `nextCursor` by the previous page
+ *     responses:
+ *       200:
+ *         description: A page of search results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SearchPage'
+ *       400:
+ *         description: Missing query, invalid type or invalid cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+searchRouter.get('/', validate({ query: searchQuery }), async (req, res) => {
+    const { q, type, limit, cursor } = validatedQuery(req, searchQuery);
+    const terms = searchTerms(q);
+
+    const page = await search(q, { types: type, limit, cursor });
+    res.status(200).send(mapPage(page, hit => toPublicSearchResult(hit, terms)));
+})
+
+export default searchRouter
@@ -0,0 +1,175 @@
+import express, { Request, Response } from "express";
+import { getPostById } from "../controllers/post";
+import { getUserById } from "../controllers/user";
+import { countUnread } from "../controllers/notification";
+import { toPublicPost } from "../serializers/post";
+import { toPublicComment } from "../serializers/comment";
+import { toPublicNotification } from "../serializers/notification";
+import { DomainEvents, onEvent } from "../utils/events";
+import { getPubSub, RealtimeMessage } from "../utils/pubSub";
+import { ErrorCode, NotFoundError, UnauthorizedError } from "../utils/errors";
+import env from "../utils/env";
+import validate from "../middlewares/validate";
+import { postIdParams } from "../schemas/post";
+
+const streamRouter = express.Router();
+
+// setTimeout fires at once for longer delays.
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const postChannel = (postId: string) => `post:${postId}`;
+const userChannel = (userId: string) => `user:${userId}`;
+
+const publishPost = (event: string) => async ({ post }: DomainEvents['postDeleted']) => {
+    await getPubSub().publish(postChannel(post._id.toString()), { event, data: toPublicPost(post) });
+}
+
+const publishComment = (event: string) => async ({ comment }: DomainEvents['commentCreated']) => {
+    await getPubSub().publish(postChannel(comment.postId.toString()), { event, data: toPublicComment(comment) });
+}
+
+// A removed comment is gone from the thread, while a placeholder kept for its replies stays in it.
+const publishCommentDeleted = async ({ comment }: DomainEvents['commentDeleted']) => {
+    await getPubSub().publish(postChannel(comment.postId.toString()), {
+        event: 'comment.deleted',
+        data: { _id: comment._id.toString(), postId: comment.postId.toString(), kept: comment.deleted }
+    });
+}
+
+const publishNotifications = async ({ notifications }: DomainEvents['notificationsCreated']) => {
+    const actor = await getUserById(notifications[0].actor.toString());
+
+    for (const notification of notifications) {
+        const recipient = notification.recipient.toString();
+        await getPubSub().publish(userChannel(recipient), {
+            event: 'notification',
+            data: {
+                notification: toPublicNotification({ ...notification, actor }),
+                unreadCount: await countUnread(recipient)
+            }
+        });
+    }
+}
+
+const publishPostUpdated = publishPost('post.updated');
+const publishPostDeleted = publishPost('post.deleted');
+const publishCommentCreated = publishComment('comment.created');
+const publishCommentUpdated = publishComment('comment.updated');
+
+// Publishes domain events to the channels streamed to clients. Subscribing again has no effect.
+export const subscribeStreams = () => {
+    onEvent('postUpdated', publishPostUpdated);
+    onEvent('postDeleted', publishPostDeleted);
+    onEvent('commentCreated', publishCommentCreated);
+    onEvent('commentUpdated', publishCommentUpdated);
+    onEvent('commentDeleted', publishCommentDeleted);
+    onEvent('notificationsCreated', publishNotifications);
+}
+
+/**
+ * Turns the response into a Server-Sent Events stream of the messages published to
+ * `channels`. The stream ends when the client disconnects or its access token
+ * expires, after which the client reconnects with a fresh token. Messages published
+ * while it is disconnected are not replayed.
+ */
+const openStream = async (req: Request, res: Response, channels: string[]) => {
+    const send = (message: RealtimeMessage) => {
+        res.write(`event: ${message.event}\ndata: ${JSON.stringify(message.data)}\n\n`);
+    };
+    const unsubscribes = await Promise.all(channels.map(channel => getPubSub().subscribe(channel, send)));
+
+    res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        // Stops nginx from buffering the stream.
+        'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+    res.write(': connected\n\n');
+
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), env.STREAM_HEARTBEAT_SECONDS * 1000);
+    const expiresInMs = req.user?.exp ? req.user.exp * 1000 - Date.now() : MAX_TIMEOUT_MS;
+    const expiry = setTimeout(() => res.end(), Math.min(Math.max(expiresInMs, 0), MAX_TIMEOUT_MS));
+
+    res.on('close', async () => {
+        clearInterval(heartbeat);
+        clearTimeout(expiry);
+        await Promise.all(unsubscribes.map(unsubscribe => unsubscribe()));
+    });
+}
+
+/**
+ * @swagger
+ * /stream/notifications:
+ *   get:
+ *     tags: [Streams]
+ *     summary: Stream notifications
+ *     description: |
+ *       Opens a Server-Sent Events stream of the authenticated user's new notifications. Each `notification` event holds the notification and the number of unread notifications. Browsers authenticate `EventSource` requests with the access token cookie (log in with `useCookies`); other clients send the `Authorization` header.
+ *
+ *       The stream ends when the access token expires, and notifications created while disconnected are not replayed, so clients refetch `GET /notification` after reconnecting.
+ *     responses:
+ *       200:
+ *         description: An event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: "event: notification\ndata: {\"notification\":{\"_id\":\"65b7c9c8e2f0a9a1f2c9d777\",\"type\":\"comment\",\"read\":false},\"unreadCount\":3}\n\n"
+ */
+streamRouter.get('/notifications', async (req, res) => {
+    if (!req.user) {
+        throw new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Unauthenticated');
+    }
+
+    await openStream(req, res, [userChannel(req.user._id)]);
+})
+
+/**
+ * @swagger
+ * /stream/post/{id}:
+ *   get:
+ *     tags: [Streams]
+ *     summary: Stream a post's changes and comments
+ *     description: |
+ *       Opens a Server-Sent Events stream of changes to a post and its comments. Events are `post.updated` and `post.deleted` with the post, `comment.created` and `comment.updated` with the comment, and `comment.deleted` with the comment's `_id`, `postId` and whether a "[deleted]" placeholder was `kept` for its replies. Authentication works as for `/stream/notifications`.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The ID of the post
+ *     responses:
+ *       200:
+ *         description: An event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: "event: comment.created\ndata: {\"_id\":\"65b7c9c8e2f0a9a1f2c9d222\",\"postId\":\"65b7c9c8e2f0a9a1f2c9d111\",\"content\":\"Nice post\"}\n\n"
+ *       400:
+ *         description: Invalid post ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Post not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+streamRouter.get('/post/:id', validate({ params: postIdParams }), async (req, res) => {
+    const post = await getPostById(req.params.id);
+
+    if (!post) {
+        throw new NotFoundError('Post Not Found');
+    }
+
+    await openStream(req, res, [postChannel(post._id.toString())]);
+})
+
+export default streamRouter
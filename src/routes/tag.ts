@@ -0,0 +1,134 @@
+import express from "express";
+import { getPosts } from "../controllers/post";
+import { getTrendingTags } from "../controllers/reference";
+import { toPublicPost } from "../serializers/post";
+import { mapPage } from "../utils/pagination";
+import validate, { validatedQuery } from "../middlewares/validate";
+import { tagParams, taggedPostsQuery, trendingTagsQuery } from "../schemas/post";
+
+const tagRouter = express.Router();
+
+const TRENDING_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * @swagger
+ * /tag:
+ *   get:
+ *     tags: [Tags]
+ *     summary: Get trending tags
+ *     description: Ranks hashtags by how many posts and comments created in a time window use them. The window is the last 24 hours unless `from` or `to` is given.
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 10
+ *         description: Maximum number of tags to return
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the window, 24 hours before `to` by default
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the window, now by default
+ *     responses:
+ *       200:
+ *         description: Tags, most used first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/TrendingTag'
+ *       400:
+ *         description: Invalid query parameter
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+tagRouter.get('/', validate({ query: trendingTagsQuery }), async (req, res) => {
+    const { limit, from, to } = validatedQuery(req, trendingTagsQuery);
+    const windowEnd = to ?? new Date();
+
+    const tags = await getTrendingTags({ from: from ?? new Date(windowEnd.getTime() - TRENDING_WINDOW_MS), to }, limit);
+    res.status(200).send(tags);
+})
+
+/**
+ * @swagger
+ * /tag/{name}:
+ *   get:
+ *     tags: [Tags]
+ *     summary: Get posts with a hashtag
+ *     description: Retrieve the posts whose content uses a hashtag, using cursor pagination. Tags are matched case-insensitively.
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *           maxLength: 50
+ *         description: The tag, without the "#"
+ *         example: typescript
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Maximum number of posts to return
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor returned as `nextCursor` by the previous page
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [newest, oldest, mostCommented, mostLiked]
+ *           default: newest
+ *         description: Sort order
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include posts created at or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include posts created at or before this date
+ *     responses:
+ *       200:
+ *         description: A page of posts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PostPage'
+ *       400:
+ *         description: Invalid tag, query parameter or cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+tagRouter.get('/:name', validate({ params: tagParams, query: taggedPostsQuery }), async (req, res) => {
+    const { limit, cursor, sort, ...range } = validatedQuery(req, taggedPostsQuery);
+
+    const page = await getPosts({ ...range, tag: req.params.name }, { limit, cursor, sort });
+    res.status(200).send(mapPage(page, toPublicPost));
+})
+
+export default tagRouter
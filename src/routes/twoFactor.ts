@@ -0,0 +1,258 @@
+import express, { Request } from "express";
+import bcrypt from "bcrypt";
+import { getUserById } from "../controllers/user";
+import { disableTwoFactor, enableTwoFactor, regenerateRecoveryCodes, startTwoFactorEnrollment, verifySecondFactor } from "../controllers/twoFactor";
+import env from "../utils/env";
+import { otpauthUri } from "../utils/totp";
+import { BadRequestError, ErrorCode, NotFoundError, UnauthorizedError } from "../utils/errors";
+import validate from "../middlewares/validate";
+import rateLimit, { byUser } from "../middlewares/rateLimit";
+import { disableTwoFactorBody, twoFactorCodeBody } from "../schemas/auth";
+
+const twoFactorRouter = express.Router();
+
+// Limits guesses of the code on the routes that check it.
+const codeLimit = rateLimit({ name: 'twoFactorCode', limit: 10, windowMs: 15 * 60 * 1000, key: byUser });
+
+const currentUser = async (req: Request) => {
+    if (!req.user) {
+        throw new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Unauthenticated');
+    }
+
+    const user = await getUserById(req.user._id);
+
+    if (!user) {
+        throw new NotFoundError('User Not Found');
+    }
+    return user;
+}
+
+const invalidCode = () => new BadRequestError(ErrorCode.INVALID_TWO_FACTOR_CODE, 'Invalid Code');
+
+/**
+ * @swagger
+ * /auth/2fa:
+ *   get:
+ *     tags: [Auth]
+ *     summary: Get the two-factor authentication status
+ *     description: Returns whether two-factor authentication is enabled for the authenticated user and how many unused recovery codes are left.
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TwoFactorStatus'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+twoFactorRouter.get('/', async (req, res) => {
+    const user = await currentUser(req);
+
+    res.status(200).send({
+        enabled: user.twoFactorEnabled,
+        recoveryCodesRemaining: user.recoveryCodeHashes.length
+    });
+})
+
+/**
+ * @swagger
+ * /auth/2fa/enroll:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Start enrolling in two-factor authentication
+ *     description: Generates a new TOTP secret for the authenticated user and returns it with an `otpauth://` URI to show as a QR code. Two-factor authentication is only enabled once a code is confirmed with `/auth/2fa/confirm`; enrolling again replaces an unconfirmed secret.
+ *     responses:
+ *       200:
+ *         description: Enrollment started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TwoFactorEnrollment'
+ *       400:
+ *         description: Two-factor authentication is already enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+twoFactorRouter.post('/enroll', async (req, res) => {
+    const user = await currentUser(req);
+
+    if (user.twoFactorEnabled) {
+        throw new BadRequestError(ErrorCode.TWO_FACTOR_ALREADY_ENABLED, 'Two-Factor Authentication Already Enabled');
+    }
+
+    const secret = await startTwoFactorEnrollment(user._id.toString());
+
+    res.status(200).send({ secret, otpauthUri: otpauthUri(secret, user.username, env.TOTP_ISSUER) });
+})
+
+/**
+ * @swagger
+ * /auth/2fa/confirm:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Confirm two-factor enrollment
+ *     description: Enables two-factor authentication once the user proves their authenticator app works by sending a current code. Returns the recovery codes, which are shown only this once.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorCodeRequest'
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecoveryCodes'
+ *       400:
+ *         description: Wrong code, no enrollment in progress, or two-factor authentication already enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+twoFactorRouter.post('/confirm', codeLimit, validate({ body: twoFactorCodeBody }), async (req, res) => {
+    const user = await currentUser(req);
+
+    if (user.twoFactorEnabled) {
+        throw new BadRequestError(ErrorCode.TWO_FACTOR_ALREADY_ENABLED, 'Two-Factor Authentication Already Enabled');
+    }
+
+    if (!user.twoFactorSecret) {
+        throw new BadRequestError(ErrorCode.TWO_FACTOR_NOT_ENABLED, 'Two-Factor Enrollment Not Started');
+    }
+
+    if (!await verifySecondFactor(user, req.body.code, false)) {
+        throw invalidCode();
+    }
+
+    const recoveryCodes = await enableTwoFactor(user._id.toString());
+
+    res.status(200).send({ recoveryCodes });
+})
+
+/**
+ * @swagger
+ * /auth/2fa/recoveryCodes:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Regenerate recovery codes
+ *     description: Replaces all recovery codes of the authenticated user with new ones, which are shown only this once. Requires a current code from the authenticator app or an unused recovery code.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorCodeRequest'
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecoveryCodes'
+ *       400:
+ *         description: Wrong code, or two-factor authentication not enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+twoFactorRouter.post('/recoveryCodes', codeLimit, validate({ body: twoFactorCodeBody }), async (req, res) => {
+    const user = await currentUser(req);
+
+    if (!user.twoFactorEnabled) {
+        throw new BadRequestError(ErrorCode.TWO_FACTOR_NOT_ENABLED, 'Two-Factor Authentication Not Enabled');
+    }
+
+    if (!await verifySecondFactor(user, req.body.code)) {
+        throw invalidCode();
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user._id.toString());
+
+    res.status(200).send({ recoveryCodes });
+})
+
+/**
+ * @swagger
+ * /auth/2fa/disable:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Disable two-factor authentication
+ *     description: Disables two-factor authentication for the authenticated user and discards the secret and recovery codes. Requires the password and a current code or an unused recovery code.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/DisableTwoFactorRequest'
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       400:
+ *         description: Wrong password or code, or two-factor authentication not enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+twoFactorRouter.post('/disable', codeLimit, validate({ body: disableTwoFactorBody }), async (req, res) => {
+    const user = await currentUser(req);
+
+    if (!user.twoFactorEnabled) {
+        throw new BadRequestError(ErrorCode.TWO_FACTOR_NOT_ENABLED, 'Two-Factor Authentication Not Enabled');
+    }
+
+    if (!await bcrypt.compare(req.body.password, user.passwordHash)) {
+        throw new BadRequestError(ErrorCode.INVALID_CREDENTIALS, 'Invalid Credentials');
+    }
+
+    if (!await verifySecondFactor(user, req.body.code)) {
+        throw invalidCode();
+    }
+
+    await disableTwoFactor(user._id.toString());
+
+    res.status(200).send();
+})
+
+export default twoFactorRouter
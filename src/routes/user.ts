@@ -1,11 +1,66 @@
-import express from "express";
-import { getUsers, getUserById, getUserByUsername, updateUser, deleteUser } from "../controllers/user";
-import { isValidObjectId } from "mongoose";
+import express, { Request } from "express";
+import { getUsers, getUserById, getUserByUsername, updateUser, deleteUser, saveAvatar, countUserContent, DELETED_USER_ID } from "../controllers/user";
+import { getPosts } from "../controllers/post";
+import { getComments } from "../controllers/comment";
+import { countFollows, followUser, getFollowers, getFollowing, isFollowing, unfollowUser } from "../controllers/follow";
+import mongoose, { isValidObjectId } from "mongoose";
 import bcrypt from "bcrypt";
 import { MongoServerError } from "mongodb";
+import { toAccountUser, toPublicProfile, toPublicUser } from "../serializers/user";
+import { toPublicFollow, toPublicFollowStatus } from "../serializers/follow";
+import { toPublicPost } from "../serializers/post";
+import { toPublicComment } from "../serializers/comment";
+import { BadRequestError, ErrorCode, NotFoundError, UnauthorizedError } from "../utils/errors";
+import { mapPage } from "../utils/pagination";
+import validate, { validatedQuery } from "../middlewares/validate";
+import authorize from "../middlewares/authorize";
+import { uploadAvatar } from "../middlewares/upload";
+import rateLimit, { byUser } from "../middlewares/rateLimit";
+import { Permission } from "../utils/permissions";
+import { deleteUserQuery, followListQuery, mentionListQuery, updateRoleBody, updateUserBody, userIdParams, userLookupParams } from "../schemas/user";
+import { IUser } from "../models/user";
+import { sendVerificationEmail } from "../utils/emails";
+import { deleteFiles } from "../utils/fileStorage";
 
 const userRouter = express.Router();
 
+const accountOwner = async (req: Request) => req.params.id;
+
+const PROFILE_FIELDS = ['displayName', 'bio', 'website', 'location'] as const;
+
+const followLimit = rateLimit({ name: 'follow', limit: 30, windowMs: 60 * 1000, key: byUser });
+
+const findUser = async (idOrUsername: string) => {
+    const user = isValidObjectId(idOrUsername) ? await getUserById(idOrUsername) : await getUserByUsername(idOrUsername);
+
+    if (!user) {
+        throw new NotFoundError('User Not Found');
+    }
+    return user;
+}
+
+const followTarget = async (req: Request) => {
+    if (!req.user) {
+        throw new UnauthorizedError(ErrorCode.MISSING_AUTHORIZATION, 'Unauthenticated');
+    }
+    if (req.params.id === req.user._id) {
+        throw new BadRequestError(ErrorCode.VALIDATION_FAILED, 'Cannot Follow Yourself');
+    }
+
+    // The "[deleted]" placeholder is not a real account, so nobody can follow it.
+    const user = await findUser(req.params.id);
+    if (user._id.equals(DELETED_USER_ID)) {
+        throw new NotFoundError('User Not Found');
+    }
+    return { followerId: req.user._id, followingId: user._id.toString() };
+}
+
+const followStatus = async (followerId: string, followingId: string) => {
+    const counts = await countFollows(new mongoose.Types.ObjectId(followingId));
+
+    return toPublicFollowStatus(await isFollowing(followerId, followingId), counts);
+}
+
 /**
  * @swagger
  * /user:
@@ -26,7 +81,7 @@ const userRouter = express.Router();
 userRouter.get('/', async (req, res) => {
 
     const users = await getUsers();
-    return res.status(200).send(users);
+    return res.status(200).send(users.map(toPublicUser));
 })
 
 /**
@@ -60,27 +115,365 @@ userRouter.get('/', async (req, res) => {
  *       404:
  *         description: User not found
  *         content:
- *           text/plain:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: "User Not Found"
+ *               $ref: '#/components/schemas/Error'
  */
-userRouter.get('/:id', async (req, res) => {
-    const id = req.params.id;
+userRouter.get('/:id', validate({ params: userLookupParams }), async (req, res) => {
+    const user = await findUser(req.params.id);
 
-    let user;
-    
-    if (isValidObjectId(id)) {
-        user = await getUserById(id);
-    } else {
-        user = await getUserByUsername(id);
-    }
+    res.status(200).send(toPublicUser(user));
+})
 
-    if (!user) {
-        return res.status(404).send('User Not Found');
-    }
+/**
+ * @swagger
+ * /user/{id}/profile:
+ *   get:
+ *     tags: [Users]
+ *     summary: Get a user's profile
+ *     description: Retrieves the public profile of a user by ObjectId or username, with the number of posts and comments they have written. The email is not included.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: User ObjectId (24-character hex string) or username
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Profile found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UserProfile'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+userRouter.get('/:id/profile', validate({ params: userLookupParams }), async (req, res) => {
+    const user = await findUser(req.params.id);
+    const [content, follows] = await Promise.all([countUserContent(user._id), countFollows(user._id)]);
+
+    res.status(200).send(toPublicProfile(user, { ...content, ...follows }));
+})
+
+/**
+ * @swagger
+ * /user/{id}/follow:
+ *   put:
+ *     tags: [Users]
+ *     summary: Follow a user
+ *     description: Makes the authenticated user follow the user with the given ObjectId, so that their posts appear in the authenticated user's feed. Following a user twice has no further effect.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: User ObjectId (24-character hex string)
+ *         schema:
+ *           type: string
+ *           example: "507f1f77bcf86cd799439011"
+ *     responses:
+ *       200:
+ *         description: Follow status after the change
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FollowStatus'
+ *       400:
+ *         description: Invalid user ID, or an attempt to follow yourself
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ *   delete:
+ *     tags: [Users]
+ *     summary: Unfollow a user
+ *     description: Stops the authenticated user from following the user with the given ObjectId. Unfollowing a user that is not followed has no effect.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: User ObjectId (24-character hex string)
+ *         schema:
+ *           type: string
+ *           example: "507f1f77bcf86cd799439011"
+ *     responses:
+ *       200:
+ *         description: Follow status after the change
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FollowStatus'
+ *       400:
+ *         description: Invalid user ID, or an attempt to unfollow yourself
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+userRouter.put('/:id/follow', followLimit, validate({ params: userIdParams }), async (req, res) => {
+    const { followerId, followingId } = await followTarget(req);
+
+    await followUser(followerId, followingId);
+    res.status(200).send(await followStatus(followerId, followingId));
+})
+
+userRouter.delete('/:id/follow', validate({ params: userIdParams }), async (req, res) => {
+    const { followerId, followingId } = await followTarget(req);
+
+    await unfollowUser(followerId, followingId);
+    res.status(200).send(await followStatus(followerId, followingId));
+})
+
+/**
+ * @swagger
+ * /user/{id}/followers:
+ *   get:
+ *     tags: [Users]
+ *     summary: List a user's followers
+ *     description: Retrieves the users following a user, identified by ObjectId or username, using cursor pagination. The total is the `followerCount` of the user's profile.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: User ObjectId (24-character hex string) or username
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Maximum number of follows to return
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor returned as `nextCursor` by the previous page
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [newest, oldest]
+ *           default: newest
+ *         description: Sort order, by when the follow started
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include follows started at or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include follows started at or before this date
+ *     responses:
+ *       200:
+ *         description: A page of follows
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FollowPage'
+ *       400:
+ *         description: Invalid query parameter or cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+userRouter.get('/:id/followers', validate({ params: userLookupParams, query: followListQuery }), async (req, res) => {
+    const user = await findUser(req.params.id);
+    const { limit, cursor, sort, ...range } = validatedQuery(req, followListQuery);
+
+    const page = await getFollowers(user._id.toString(), range, { limit, cursor, sort });
+    res.status(200).send(mapPage(page, toPublicFollow));
+})
+
+/**
+ * @swagger
+ * /user/{id}/following:
+ *   get:
+ *     tags: [Users]
+ *     summary: List the users a user follows
+ *     description: Retrieves the users followed by a user, identified by ObjectId or username, using cursor pagination. The total is the `followingCount` of the user's profile.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: User ObjectId (24-character hex string) or username
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Maximum number of follows to return
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor returned as `nextCursor` by the previous page
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [newest, oldest]
+ *           default: newest
+ *         description: Sort order, by when the follow started
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include follows started at or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include follows started at or before this date
+ *     responses:
+ *       200:
+ *         description: A page of follows
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FollowPage'
+ *       400:
+ *         description: Invalid query parameter or cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+userRouter.get('/:id/following', validate({ params: userLookupParams, query: followListQuery }), async (req, res) => {
+    const user = await findUser(req.params.id);
+    const { limit, cursor, sort, ...range } = validatedQuery(req, followListQuery);
+
+    const page = await getFollowing(user._id.toString(), range, { limit, cursor, sort });
+    res.status(200).send(mapPage(page, toPublicFollow));
+})
+
+/**
+ * @swagger
+ * /user/{id}/mentions:
+ *   get:
+ *     tags: [Users]
+ *     summary: List posts or comments mentioning a user
+ *     description: Retrieves the posts, or with `type=comment` the comments, that mention a user, identified by ObjectId or username, as `@username`. Uses cursor pagination.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: User ObjectId (24-character hex string) or username
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [post, comment]
+ *           default: post
+ *         description: Whether to list posts or comments
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Maximum number of results to return
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor returned as `nextCursor` by the previous page
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [newest, oldest]
+ *           default: newest
+ *         description: Sort order
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include results created at or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only include results created at or before this date
+ *     responses:
+ *       200:
+ *         description: A page of posts or comments
+ *         content:
+ *           application/json:
+ *             schema:
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/PostPage'
+ *                 - $ref: '#/components/schemas/CommentPage'
+ *       400:
+ *         description: Invalid query parameter or cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+userRouter.get('/:id/mentions', validate({ params: userLookupParams, query: mentionListQuery }), async (req, res) => {
+    const user = await findUser(req.params.id);
+    const { type, limit, cursor, sort, ...range } = validatedQuery(req, mentionListQuery);
+    const filters = { ...range, mentioned: user._id.toString() };
 
-    res.status(200).send(user);
+    if (type === 'comment') {
+        return res.status(200).send(mapPage(await getComments(filters, { limit, cursor, sort }), toPublicComment));
+    }
+    res.status(200).send(mapPage(await getPosts(filters, { limit, cursor, sort }), toPublicPost));
 })
 
 /**
@@ -89,7 +482,7 @@ userRouter.get('/:id', async (req, res) => {
  *   patch:
  *     tags: [Users]
  *     summary: Update user information
- *     description: Updates user information by ObjectId. Username cannot be updated. Passwords are automatically hashed.
+ *     description: Updates user information and profile fields by ObjectId. Only the account owner or an admin can update a user. Username cannot be updated. Passwords are automatically hashed. Changing the email marks it as unverified and emails a new verification token. Empty profile fields are cleared. To upload an avatar, send the request as `multipart/form-data` with a JPEG, PNG, GIF or WebP image of at most `AVATAR_MAX_SIZE_MB` (2 by default) in `avatar`; it is cropped to a square and resized to 256x256.
  *     parameters:
  *       - in: path
  *         name: id
@@ -104,79 +497,99 @@ userRouter.get('/:id', async (req, res) => {
  *         application/json:
  *           schema:
  *             $ref: '#/components/schemas/UpdateUserRequest'
+ *         multipart/form-data:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateUserWithAvatarRequest'
  *     responses:
  *       200:
  *         description: User updated successfully
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/User'
+ *               $ref: '#/components/schemas/AccountUser'
  *       400:
- *         description: Bad request - invalid ID, missing body, username update attempt, or duplicate email
- *         content:
- *           text/plain:
- *             schema:
- *               type: string
- *               examples:
- *                 invalidId:
- *                   value: "Invalid User Id"
- *                 missingBody:
- *                   value: "Missing Body"
- *                 usernameUpdate:
- *                   value: "Username cannot be updated"
- *                 duplicateEmail:
- *                   value: "Email already exists"
+ *         description: Bad request - invalid ID, missing body, invalid field, username update attempt, duplicate email, or an avatar that is not a supported image
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not the account owner and not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: User not found
  *         content:
- *           text/plain:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       413:
+ *         description: The avatar is too large
+ *         content:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: "User Not Found"
+ *               $ref: '#/components/schemas/Error'
  */
-userRouter.patch('/:id', async (req, res) => {
+userRouter.patch('/:id', validate({ params: userIdParams }), authorize(Permission.MANAGE_USERS, accountOwner), uploadAvatar, validate({ body: updateUserBody }), async (req, res) => {
     const id = req.params.id; 
-    if (!isValidObjectId(id)) {
-        return res.status(400).send('Invalid User Id');
+    const { email, password, avatar } = req.body;
+    const [avatarFile] = (req.files ?? []) as Express.Multer.File[];
+
+    if (Object.keys(req.body).length === 0 && !avatarFile) {
+        throw new BadRequestError(ErrorCode.VALIDATION_FAILED, 'No fields to update');
     }
 
-    const sender = req.user;
+    const user = await getUserById(id);
 
-    if (!sender) {
-        return res.status(400).send('Unauthenticated');
+    if (!user) {
+        throw new NotFoundError('User Not Found');
     }
 
-    if (sender._id !== id) {
-        return res.status(400).send('Unauthorized');
+    const updateData: Partial<IUser> = {};
+    const unset: (keyof IUser)[] = [];
+    if (email) {
+        updateData.email = email;
+        updateData.emailVerified = false;
     }
-
-    if (!req.body) {
-        return res.status(400).send('Missing Body');
+    if (password) {
+        updateData.passwordHash = await bcrypt.hash(password, 10);
     }
-
-    if (req.body.username) {
-        return res.status(400).send('Username cannot be updated');
+    for (const field of PROFILE_FIELDS) {
+        if (req.body[field] === '') {
+            unset.push(field);
+        } else if (req.body[field] !== undefined) {
+            updateData[field] = req.body[field];
+        }
     }
-
-    const updateData = { ...req.body };
-    if (updateData.password) {
-        updateData.passwordHash = await bcrypt.hash(updateData.password, 10);
-        delete updateData.password;
+    if (avatarFile) {
+        updateData.avatarKey = await saveAvatar(id, avatarFile);
+    } else if (avatar === null) {
+        unset.push('avatarKey');
     }
 
-    try {
-        const updatedUser = await updateUser(id, updateData);
+    // A new avatar that did not make it onto the user is deleted again.
+    const updatedUser = await updateUser(id, updateData, unset).catch(async (error) => {
+        await deleteFiles(updateData.avatarKey ? [updateData.avatarKey] : []);
 
-        if (!updatedUser) {
-            return res.status(404).send('User Not Found');
-        }
-        res.status(200).send(updatedUser);
-    } catch (error) {
         if (error instanceof MongoServerError && error.code === 11000) {
-            return res.status(400).send('Email already exists');
+            throw new BadRequestError(ErrorCode.DUPLICATE_RESOURCE, 'Email already exists');
         }
         throw error;
+    });
+
+    if (!updatedUser) {
+        await deleteFiles(updateData.avatarKey ? [updateData.avatarKey] : []);
+        throw new NotFoundError('User Not Found');
+    }
+    if (user.avatarKey && user.avatarKey !== updatedUser.avatarKey) {
+        await deleteFiles([user.avatarKey]);
     }
+    if (email) {
+        await sendVerificationEmail(updatedUser);
+    }
+    res.status(200).send(toAccountUser(updatedUser));
 })
 
 /**
@@ -185,7 +598,7 @@ userRouter.patch('/:id', async (req, res) => {
  *   delete:
  *     tags: [Users]
  *     summary: Delete a user
- *     description: Permanently deletes a user by ObjectId
+ *     description: Permanently deletes a user by ObjectId and revokes all of their sessions. The user's posts and comments are either removed (`hard`) or reassigned to a "[deleted]" placeholder user (`anonymize`).
  *     parameters:
  *       - in: path
  *         name: id
@@ -194,52 +607,108 @@ userRouter.patch('/:id', async (req, res) => {
  *         schema:
  *           type: string
  *           example: "507f1f77bcf86cd799439011"
+ *       - in: query
+ *         name: mode
+ *         description: What happens to the user's posts and comments
+ *         schema:
+ *           type: string
+ *           enum: [anonymize, hard]
+ *           default: anonymize
  *     responses:
  *       200:
  *         description: User deleted successfully
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/User'
- *             description: The deleted user object
+ *               $ref: '#/components/schemas/AccountDeletionReport'
  *       400:
- *         description: Invalid user ID format
+ *         description: Invalid user ID format or invalid mode
  *         content:
- *           text/plain:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: "Invalid User Id"
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not the account owner and not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: User not found
  *         content:
- *           text/plain:
+ *           application/json:
  *             schema:
- *               type: string
- *               example: "User Not Found"
+ *               $ref: '#/components/schemas/Error'
  */
-userRouter.delete('/:id', async (req, res) => {
+userRouter.delete('/:id', validate({ params: userIdParams, query: deleteUserQuery }), authorize(Permission.MANAGE_USERS, accountOwner), async (req, res) => {
     const id = req.params.id;
-    
-    if (!isValidObjectId(id)) {
-        return res.status(400).send('Invalid User Id');
-    }
+    const { mode } = validatedQuery(req, deleteUserQuery);
 
-    const sender = req.user;
+    const report = await deleteUser(id, mode);
 
-    if (!sender) {
-        return res.status(400).send('Unauthenticated');
+    if (!report) {
+        throw new NotFoundError('User Not Found');
     }
+    res.status(200).send({ ...report, user: toAccountUser(report.user) });
+})
 
-    if (sender._id !== id) {
-        return res.status(400).send('Unauthorized');
-    }
+/**
+ * @swagger
+ * /user/{id}/role:
+ *   patch:
+ *     tags: [Users]
+ *     summary: Change a user's role
+ *     description: Assigns the `user`, `moderator` or `admin` role. Admin only. The new role is embedded in access tokens issued after the change.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: User ObjectId (24-character hex string)
+ *         schema:
+ *           type: string
+ *           example: "507f1f77bcf86cd799439011"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateRoleRequest'
+ *     responses:
+ *       200:
+ *         description: Role updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AccountUser'
+ *       400:
+ *         description: Invalid user ID or role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not an admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+userRouter.patch('/:id/role', validate({ params: userIdParams, body: updateRoleBody }), authorize(Permission.MANAGE_USERS), async (req, res) => {
+    const id = req.params.id;
+    const { role } = req.body;
 
-    const deletedUser = await deleteUser(id);
+    const updatedUser = await updateUser(id, { role });
 
-    if (!deletedUser) {
-        return res.status(404).send('User Not Found');
+    if (!updatedUser) {
+        throw new NotFoundError('User Not Found');
     }
-    res.status(200).send(deletedUser);
+    res.status(200).send(toAccountUser(updatedUser));
 })
 
 export default userRouter
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { idParams } from './common';
+import { email, password, username } from './user';
+
+export const registerBody = z.strictObject({
+    username: username.meta({ example: 'niv' }),
+    email: email.meta({ example: 'niv@example.com' }),
+    password: password.meta({ example: 'strongpassword123' })
+});
+
+export const loginBody = z.strictObject({
+    username: z.string({ error: 'username is required' }).min(1, { error: 'username is required' }).max(30).meta({ example: 'niv' }),
+    password: z.string({ error: 'password is required' }).min(1, { error: 'password is required' }).max(128).meta({ example: 'strongpassword123' }),
+    useCookies: z.boolean({ error: 'useCookies must be a boolean' }).optional()
+        .meta({ description: 'Set the tokens as httpOnly cookies instead of returning them', example: false })
+});
+
+// Cookie clients send an empty body; their refresh token comes from its cookie.
+export const logoutBody = z.strictObject({
+    refreshToken: z.string({ error: 'refreshToken is required' }).min(1, { error: 'refreshToken is required' }).optional()
+        .meta({ example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' })
+});
+
+export const sessionIdParams = idParams('Invalid Session Id');
+
+const emailToken = z.string({ error: 'token is required' }).min(1, { error: 'token is required' }).max(128)
+    .meta({ example: 'q6Xx0p3b2Yk9mW1tZr8sVn4uJc7aLd5eHf2gKi0oPq' });
+
+export const verifyEmailBody = z.strictObject({
+    token: emailToken
+});
+
+export const emailBody = z.strictObject({
+    email: email.meta({ example: 'niv@example.com' })
+});
+
+export const resetPasswordBody = z.strictObject({
+    token: emailToken,
+    password: password.meta({ example: 'newStrongPassword123' })
+});
+
+// A 6-digit TOTP code or, where accepted, a recovery code such as `3f9a1-c07e2`.
+const twoFactorCode = z.string({ error: 'code is required' }).trim().min(1, { error: 'code is required' }).max(32)
+    .meta({ example: '123456' });
+
+export const twoFactorCodeBody = z.strictObject({
+    code: twoFactorCode
+});
+
+export const disableTwoFactorBody = z.strictObject({
+    password: z.string({ error: 'password is required' }).min(1, { error: 'password is required' }).max(128)
+        .meta({ example: 'strongpassword123' }),
+    code: twoFactorCode
+});
+
+export const twoFactorLoginBody = z.strictObject({
+    challengeToken: z.string({ error: 'challengeToken is required' }).min(1, { error: 'challengeToken is required' }).max(128)
+        .meta({ example: 'q6Xx0p3b2Yk9mW1tZr8sVn4uJc7aLd5eHf2gKi0oPq' }),
+    code: twoFactorCode,
+    useCookies: z.boolean({ error: 'useCookies must be a boolean' }).optional()
+        .meta({ description: 'Set the tokens as httpOnly cookies instead of returning them', example: false })
+});
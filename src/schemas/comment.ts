@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { idParams, objectId, pageQuery, text } from './common';
+import { SortOrder } from '../utils/pagination';
+
+export const COMMENT_CONTENT_MAX_LENGTH = 2000;
+
+export const commentIdParams = idParams('Invalid Comment Id');
+
+const commentContent = text('content', COMMENT_CONTENT_MAX_LENGTH).meta({ description: 'Markdown source', example: 'This is a _great_ post!' });
+
+export const createCommentBody = z.strictObject({
+    postId: objectId('Invalid Post Id').meta({ example: '65b7c9c8e2f0a9a1f2c9d111' }),
+    parentCommentId: objectId('Invalid Parent Comment Id')
+        .meta({ description: 'Comment being replied to, omitted for a top-level comment', example: '65b7c9c8e2f0a9a1f2c9d222' })
+        .optional(),
+    content: commentContent
+});
+
+export const updateCommentBody = z.strictObject({
+    content: commentContent
+});
+
+export const commentListQuery = z.strictObject({
+    ...pageQuery([SortOrder.NEWEST, SortOrder.OLDEST, SortOrder.MOST_REPLIED]),
+    postId: objectId('Invalid postId').optional(),
+    parentCommentId: objectId('Invalid parentCommentId').optional(),
+    sender: objectId('Invalid sender').optional()
+});
+
+export type CommentListQuery = z.infer<typeof commentListQuery>;
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT, SortOrder } from '../utils/pagination';
+
+const OBJECT_ID_PATTERN = /^[0-9a-fA-F]{24}$/;
+
+export const objectId = (message: string) => z.string({ error: message }).regex(OBJECT_ID_PATTERN, { error: message });
+
+export const idParams = (message: string) => z.strictObject({ id: objectId(message) });
+
+export const text = (field: string, max: number) => z.string({ error: `${field} is required` })
+    .trim()
+    .min(1, { error: `${field} is required` })
+    .max(max, { error: `${field} must be at most ${max} characters` });
+
+export const queryDate = (field: string) => z.coerce.date({ error: `${field} must be a valid date` }).optional();
+
+export const pageLimit = z.coerce.number({ error: 'Invalid limit' })
+    .int({ error: 'Invalid limit' })
+    .min(1, { error: 'Invalid limit' })
+    .max(MAX_PAGE_LIMIT, { error: 'Invalid limit' })
+    .default(DEFAULT_PAGE_LIMIT);
+
+export const pageCursor = z.string().optional();
+
+export const pageQuery = (sorts: [SortOrder, ...SortOrder[]]) => ({
+    limit: pageLimit,
+    cursor: pageCursor,
+    sort: z.enum(sorts, { error: 'Invalid sort' }).default(SortOrder.NEWEST),
+    from: queryDate('from'),
+    to: queryDate('to')
+});
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { idParams, pageQuery } from './common';
+import { SortOrder } from '../utils/pagination';
+
+export const notificationIdParams = idParams('Invalid Notification Id');
+
+export const notificationListQuery = z.strictObject({
+    ...pageQuery([SortOrder.NEWEST, SortOrder.OLDEST]),
+    unread: z.stringbool({ error: 'unread must be true or false' }).optional()
+});
+
+export type NotificationListQuery = z.infer<typeof notificationListQuery>;
+
+const preference = (type: string) => z.boolean({ error: `${type} must be a boolean` }).optional();
+
+// "At least one field" is checked by the route, like for user updates.
+export const notificationPreferencesBody = z.strictObject({
+    comment: preference('comment').meta({ description: 'Comments on your posts', example: true }),
+    reply: preference('reply').meta({ description: 'Replies to your comments', example: true }),
+    mention: preference('mention').meta({ description: 'Mentions of your username', example: false }),
+    follow: preference('follow').meta({ description: 'New followers', example: true })
+});
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { objectId } from './common';
+
+const provider = z.string().max(64, { error: 'Provider Not Found' });
+
+export const providerParams = z.strictObject({
+    provider
+});
+
+export const identityIdParams = z.strictObject({
+    id: objectId('Invalid Identity Id')
+});
+
+const callbackFields = {
+    code: z.string({ error: 'code is required' }).min(1, { error: 'code is required' }).max(2048)
+        .meta({ description: 'Authorization code the provider appended to the redirect URI', example: 'SplxlOBeZQQYbYS6WxSbIA' }),
+    state: z.string({ error: 'state is required' }).min(1, { error: 'state is required' }).max(128)
+        .meta({ description: 'State the provider appended to the redirect URI', example: 'af0ifjsldkj3Yk9mW1tZr8sVn4uJc7aLd5eHf2gKi0o' })
+};
+
+export const oidcLoginBody = z.strictObject({
+    ...callbackFields,
+    useCookies: z.boolean({ error: 'useCookies must be a boolean' }).optional()
+        .meta({ description: 'Set the tokens as httpOnly cookies instead of returning them', example: false })
+});
+
+export const oidcLinkBody = z.strictObject(callbackFields);
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { idParams, objectId, pageQuery, queryDate, text } from './common';
+import { SortOrder } from '../utils/pagination';
+import { TAG_MAX_LENGTH, TAG_PATTERN } from '../utils/references';
+
+export const POST_TITLE_MAX_LENGTH = 200;
+export const POST_CONTENT_MAX_LENGTH = 10000;
+
+export const postIdParams = idParams('Invalid Post Id');
+
+export const attachmentParams = z.strictObject({
+    id: objectId('Invalid Post Id'),
+    attachmentId: objectId('Invalid Attachment Id')
+});
+
+export const postBody = z.strictObject({
+    title: text('title', POST_TITLE_MAX_LENGTH).meta({ example: 'My first post' }),
+    content: text('content', POST_CONTENT_MAX_LENGTH).meta({ description: 'Markdown source', example: 'This is the **content** of the post.' })
+});
+
+export const postListQuery = z.strictObject({
+    ...pageQuery([SortOrder.NEWEST, SortOrder.OLDEST, SortOrder.MOST_COMMENTED, SortOrder.MOST_LIKED]),
+    sender: objectId('Invalid sender').optional()
+});
+
+export type PostListQuery = z.infer<typeof postListQuery>;
+
+export const feedQuery = z.strictObject(pageQuery([SortOrder.NEWEST]));
+
+export type FeedQuery = z.infer<typeof feedQuery>;
+
+export const tagParams = z.strictObject({
+    name: z.string()
+        .toLowerCase()
+        .max(TAG_MAX_LENGTH, { error: 'Invalid Tag' })
+        .regex(TAG_PATTERN, { error: 'Invalid Tag' })
+});
+
+export const taggedPostsQuery = z.strictObject(
+    pageQuery([SortOrder.NEWEST, SortOrder.OLDEST, SortOrder.MOST_COMMENTED, SortOrder.MOST_LIKED])
+);
+
+export type TaggedPostsQuery = z.infer<typeof taggedPostsQuery>;
+
+export const MAX_TRENDING_TAGS = 50;
+
+export const trendingTagsQuery = z.strictObject({
+    limit: z.coerce.number({ error: 'Invalid limit' })
+        .int({ error: 'Invalid limit' })
+        .min(1, { error: 'Invalid limit' })
+        .max(MAX_TRENDING_TAGS, { error: 'Invalid limit' })
+        .default(10),
+    from: queryDate('from'),
+    to: queryDate('to')
+});
+
+export type TrendingTagsQuery = z.infer<typeof trendingTagsQuery>;
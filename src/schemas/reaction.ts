@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { pageQuery } from './common';
+import { ReactionType } from '../models/reaction';
+import { SortOrder } from '../utils/pagination';
+
+export const reactionType = z.enum(ReactionType, { error: 'Invalid Reaction Type' });
+
+export const reactionListQuery = z.strictObject({
+    ...pageQuery([SortOrder.NEWEST, SortOrder.OLDEST]),
+    type: reactionType.optional()
+});
+
+export type ReactionListQuery = z.infer<typeof reactionListQuery>;
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { objectId, pageQuery } from './common';
+import { SortOrder } from '../utils/pagination';
+
+export const revisionId = objectId('Invalid Revision Id');
+
+export const revisionListQuery = z.strictObject(pageQuery([SortOrder.NEWEST, SortOrder.OLDEST]));
+
+export type RevisionListQuery = z.infer<typeof revisionListQuery>;
+
+export const revisionDiffQuery = z.strictObject({
+    against: objectId('Invalid against').optional()
+});
+
+export type RevisionDiffQuery = z.infer<typeof revisionDiffQuery>;
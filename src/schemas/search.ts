@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { pageCursor, pageLimit, text } from './common';
+import { SearchType } from '../controllers/search';
+
+export const SEARCH_QUERY_MAX_LENGTH = 200;
+
+export const searchQuery = z.strictObject({
+    q: text('q', SEARCH_QUERY_MAX_LENGTH),
+    // A comma-separated list such as "post,comment"; every type is searched when omitted.
+    type: z.string()
+        .optional()
+        .transform(value => value ? value.split(',') : Object.values(SearchType))
+        .pipe(z.array(z.enum(SearchType, { error: 'Invalid type' }))),
+    limit: pageLimit,
+    cursor: pageCursor
+});
+
+export type SearchQuery = z.infer<typeof searchQuery>;
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { idParams, pageQuery } from './common';
+import { DeletionMode } from '../controllers/user';
+import { Role } from '../models/user';
+import { SortOrder } from '../utils/pagination';
+
+export const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]+$/;
+
+export const username = z.string({ error: 'username is required' })
+    .min(3, { error: 'username must be at least 3 characters' })
+    .max(30, { error: 'username must be at most 30 characters' })
+    .regex(USERNAME_PATTERN, { error: 'username may only contain letters, digits, ".", "_" and "-"' });
+
+export const email = z.email({ error: 'email must be a valid email address' })
+    .max(254, { error: 'email must be at most 254 characters' });
+
+export const password = z.string({ error: 'password is required' })
+    .min(8, { error: 'password must be at least 8 characters' })
+    .max(128, { error: 'password must be at most 128 characters' });
+
+export const userIdParams = idParams('Invalid User Id');
+
+export const userLookupParams = z.strictObject({
+    id: z.string().max(64, { error: 'Invalid User Id' })
+});
+
+export const DISPLAY_NAME_MAX_LENGTH = 50;
+export const BIO_MAX_LENGTH = 500;
+export const WEBSITE_MAX_LENGTH = 200;
+export const LOCATION_MAX_LENGTH = 100;
+
+// An empty string clears the field, since multipart forms cannot send null.
+const profileText = (field: string, max: number) => z.string({ error: `${field} must be a string` })
+    .trim()
+    .max(max, { error: `${field} must be at most ${max} characters` });
+
+const website = profileText('website', WEBSITE_MAX_LENGTH)
+    .pipe(z.union([z.literal(''), z.url({ protocol: /^https?$/, error: 'website must be an http or https URL' })]));
+
+// "At least one field" is checked by the route, since an uploaded avatar is not part of the body.
+export const updateUserBody = z.strictObject({
+    email: email.optional().meta({ example: 'newemail@example.com' }),
+    password: password.optional().meta({ description: 'New password (will be hashed)', example: 'newPassword123' }),
+    displayName: profileText('displayName', DISPLAY_NAME_MAX_LENGTH).optional().meta({ example: 'John Doe' }),
+    bio: profileText('bio', BIO_MAX_LENGTH).optional().meta({ example: 'Coffee, code and cats.' }),
+    website: website.optional().meta({ example: 'https://johndoe.dev' }),
+    location: profileText('location', LOCATION_MAX_LENGTH).optional().meta({ example: 'Tel Aviv' }),
+    avatar: z.null({ error: 'avatar must be uploaded as a file' }).optional()
+        .meta({ description: 'null removes the avatar. A new one is uploaded as the `avatar` file of a `multipart/form-data` request.' })
+});
+
+export const updateRoleBody = z.strictObject({
+    role: z.enum(Role, { error: 'Invalid Role' }).meta({ example: 'moderator' })
+});
+
+export const deleteUserQuery = z.strictObject({
+    mode: z.enum(DeletionMode, { error: 'Invalid Deletion Mode' }).default(DeletionMode.ANONYMIZE)
+});
+
+export const followListQuery = z.strictObject(pageQuery([SortOrder.NEWEST, SortOrder.OLDEST]));
+
+export type FollowListQuery = z.infer<typeof followListQuery>;
+
+export const mentionListQuery = z.strictObject({
+    ...pageQuery([SortOrder.NEWEST, SortOrder.OLDEST]),
+    type: z.enum(['post', 'comment'], { error: 'Invalid type' }).default('post')
+});
+
+export type MentionListQuery = z.infer<typeof mentionListQuery>;
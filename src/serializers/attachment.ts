@@ -0,0 +1,25 @@
+import { IAttachment } from '../models/post';
+import { getFileStorage } from '../utils/fileStorage';
+
+export interface PublicAttachment {
+    _id: string,
+    url: string,
+    thumbnailUrl: string,
+    filename: string,
+    mimeType: string,
+    size: number,
+    width: number,
+    height: number
+}
+
+// Storage keys are internal; clients get the URLs the files are served at.
+export const toPublicAttachment = (attachment: IAttachment): PublicAttachment => ({
+    _id: attachment._id.toString(),
+    url: getFileStorage().url(attachment.key),
+    thumbnailUrl: getFileStorage().url(attachment.thumbnailKey),
+    filename: attachment.filename,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    width: attachment.width,
+    height: attachment.height
+});
@@ -0,0 +1,57 @@
+import mongoose from 'mongoose';
+import { IComment } from '../models/comment';
+import { CommentNode } from '../controllers/comment';
+import { ReactionCounts } from '../controllers/reaction';
+import { PublicReactionCounts, toPublicReactionCounts } from './reaction';
+import { renderMarkdown } from '../utils/markdown';
+
+type CommentSource = IComment & { _id: mongoose.Types.ObjectId, replyCount?: number, reactions?: ReactionCounts };
+
+export interface PublicComment {
+    _id: string,
+    postId: string,
+    parentCommentId: string | null,
+    depth: number,
+    sender: string | null,
+    content: string,
+    contentHtml: string,
+    mentions: string[],
+    tags: string[],
+    deleted: boolean,
+    replyCount?: number,
+    reactions?: PublicReactionCounts,
+    editedAt: Date | null,
+    editedBy: string | null,
+    createdAt?: Date,
+    updatedAt?: Date
+}
+
+export interface PublicCommentNode extends PublicComment {
+    replies: PublicCommentNode[]
+}
+
+// Placeholders left behind by deleted comments do not reveal who wrote them.
+export const toPublicComment = (comment: CommentSource): PublicComment => ({
+    _id: comment._id.toString(),
+    postId: comment.postId.toString(),
+    parentCommentId: comment.parentCommentId?.toString() ?? null,
+    depth: comment.depth ?? 0,
+    sender: comment.deleted ? null : comment.sender.toString(),
+    content: comment.content,
+    // Comments written before Markdown was supported have no HTML stored.
+    contentHtml: comment.contentHtml ?? renderMarkdown(comment.content),
+    mentions: (comment.mentions ?? []).map(id => id.toString()),
+    tags: comment.tags ?? [],
+    deleted: comment.deleted ?? false,
+    replyCount: comment.replyCount,
+    reactions: comment.reactions && toPublicReactionCounts(comment.reactions),
+    editedAt: comment.editedAt ?? null,
+    editedBy: comment.editedBy?.toString() ?? null,
+    createdAt: comment.createdAt,
+    updatedAt: comment.updatedAt
+});
+
+export const toPublicCommentNode = (node: CommentNode): PublicCommentNode => ({
+    ...toPublicComment(node),
+    replies: node.replies.map(toPublicCommentNode)
+});
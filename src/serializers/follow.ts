@@ -0,0 +1,34 @@
+import { FollowWithUser } from '../controllers/follow';
+import { getFileStorage } from '../utils/fileStorage';
+
+export interface PublicFollow {
+    _id: string,
+    user: {
+        _id: string,
+        username: string,
+        displayName: string | null,
+        avatarUrl: string | null
+    },
+    createdAt?: Date
+}
+
+export interface PublicFollowStatus {
+    following: boolean,
+    followerCount: number
+}
+
+export const toPublicFollow = (follow: FollowWithUser): PublicFollow => ({
+    _id: follow._id.toString(),
+    user: {
+        _id: follow.user._id.toString(),
+        username: follow.user.username,
+        displayName: follow.user.displayName ?? null,
+        avatarUrl: follow.user.avatarKey ? getFileStorage().url(follow.user.avatarKey) : null
+    },
+    createdAt: follow.createdAt
+});
+
+export const toPublicFollowStatus = (following: boolean, counts: { followers: number }): PublicFollowStatus => ({
+    following,
+    followerCount: counts.followers
+});
@@ -0,0 +1,21 @@
+import mongoose from 'mongoose';
+import { IIdentity } from '../models/identity';
+
+type IdentitySource = IIdentity & { _id: mongoose.Types.ObjectId };
+
+export interface PublicIdentity {
+    _id: string,
+    provider: string,
+    email: string | null,
+    createdAt?: Date,
+    lastLoginAt: Date | null
+}
+
+// The provider's subject ID is internal and not returned.
+export const toPublicIdentity = (identity: IdentitySource): PublicIdentity => ({
+    _id: identity._id.toString(),
+    provider: identity.provider,
+    email: identity.email ?? null,
+    createdAt: identity.createdAt,
+    lastLoginAt: identity.lastLoginAt ?? null
+});
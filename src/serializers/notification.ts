@@ -0,0 +1,40 @@
+import { NotificationType } from '../models/notification';
+import { NotificationPreferences, NotificationWithActor } from '../controllers/notification';
+import { getFileStorage } from '../utils/fileStorage';
+
+export type PublicNotificationPreferences = Record<NotificationType, boolean>;
+
+export interface PublicNotification {
+    _id: string,
+    type: NotificationType,
+    actor: {
+        _id: string,
+        username: string,
+        displayName: string | null,
+        avatarUrl: string | null
+    } | null,
+    postId: string | null,
+    commentId: string | null,
+    read: boolean,
+    createdAt?: Date
+}
+
+export const toPublicNotification = (notification: NotificationWithActor): PublicNotification => ({
+    _id: notification._id.toString(),
+    type: notification.type,
+    actor: notification.actor && {
+        _id: notification.actor._id.toString(),
+        username: notification.actor.username,
+        displayName: notification.actor.displayName ?? null,
+        avatarUrl: notification.actor.avatarKey ? getFileStorage().url(notification.actor.avatarKey) : null
+    },
+    postId: notification.postId?.toString() ?? null,
+    commentId: notification.commentId?.toString() ?? null,
+    read: notification.read,
+    createdAt: notification.createdAt
+});
+
+// Every type is always present; the ones the user never changed are on.
+export const toPublicNotificationPreferences = (preferences: NotificationPreferences = {}): PublicNotificationPreferences => Object.fromEntries(
+    Object.values(NotificationType).map(type => [type, preferences[type] ?? true])
+) as PublicNotificationPreferences;
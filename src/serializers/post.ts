@@ -0,0 +1,44 @@
+import mongoose from 'mongoose';
+import { IPost } from '../models/post';
+import { ReactionCounts } from '../controllers/reaction';
+import { PublicReactionCounts, toPublicReactionCounts } from './reaction';
+import { PublicAttachment, toPublicAttachment } from './attachment';
+import { renderMarkdown } from '../utils/markdown';
+
+type PostSource = IPost & { _id: mongoose.Types.ObjectId, commentCount?: number, reactions?: ReactionCounts };
+
+export interface PublicPost {
+    _id: string,
+    title: string,
+    content: string,
+    contentHtml: string,
+    sender: string,
+    attachments: PublicAttachment[],
+    mentions: string[],
+    tags: string[],
+    commentCount?: number,
+    reactions?: PublicReactionCounts,
+    editedAt: Date | null,
+    editedBy: string | null,
+    createdAt?: Date,
+    updatedAt?: Date
+}
+
+export const toPublicPost = (post: PostSource): PublicPost => ({
+    _id: post._id.toString(),
+    title: post.title,
+    content: post.content,
+    // Posts written before Markdown was supported have no HTML stored.
+    contentHtml: post.contentHtml ?? renderMarkdown(post.content),
+    sender: post.sender.toString(),
+    // Posts created before attachments existed have none stored, and aggregations do not apply defaults.
+    attachments: (post.attachments ?? []).map(toPublicAttachment),
+    mentions: (post.mentions ?? []).map(id => id.toString()),
+    tags: post.tags ?? [],
+    commentCount: post.commentCount,
+    reactions: post.reactions && toPublicReactionCounts(post.reactions),
+    editedAt: post.editedAt ?? null,
+    editedBy: post.editedBy?.toString() ?? null,
+    createdAt: post.createdAt,
+    updatedAt: post.updatedAt
+});
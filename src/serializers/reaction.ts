@@ -0,0 +1,39 @@
+import { ReactionType } from '../models/reaction';
+import { ReactionCounts, ReactionWithUser } from '../controllers/reaction';
+
+export type PublicReactionCounts = Record<ReactionType, number>;
+
+export interface PublicReaction {
+    _id: string,
+    user: {
+        _id: string,
+        username: string
+    },
+    type: ReactionType,
+    createdAt?: Date
+}
+
+export interface PublicReactionSummary {
+    reactions: PublicReactionCounts,
+    mine: ReactionType[]
+}
+
+// Every reaction type is always present so clients do not have to default missing counts.
+export const toPublicReactionCounts = (counts: ReactionCounts): PublicReactionCounts => Object.fromEntries(
+    Object.values(ReactionType).map(type => [type, counts[type] ?? 0])
+) as PublicReactionCounts;
+
+export const toPublicReaction = (reaction: ReactionWithUser): PublicReaction => ({
+    _id: reaction._id.toString(),
+    user: {
+        _id: reaction.user._id.toString(),
+        username: reaction.user.username
+    },
+    type: reaction.type,
+    createdAt: reaction.createdAt
+});
+
+export const toPublicReactionSummary = (counts: ReactionCounts, mine: ReactionType[]): PublicReactionSummary => ({
+    reactions: toPublicReactionCounts(counts),
+    mine
+});
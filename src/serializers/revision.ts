@@ -0,0 +1,43 @@
+import { RevisionWithEditor, VersionDiff } from '../controllers/revision';
+import { TextChange } from '../utils/diff';
+import { renderMarkdown } from '../utils/markdown';
+
+export interface PublicRevision {
+    _id: string,
+    title?: string,
+    content: string,
+    contentHtml: string,
+    editor: {
+        _id: string,
+        username: string
+    } | null,
+    editedAt: Date,
+    createdAt?: Date
+}
+
+export interface PublicRevisionDiff {
+    from: string,
+    // Null when the revision is compared with the current version.
+    to: string | null,
+    title?: TextChange[],
+    content: TextChange[]
+}
+
+export const toPublicRevision = (revision: RevisionWithEditor): PublicRevision => ({
+    _id: revision._id.toString(),
+    title: revision.title,
+    content: revision.content,
+    contentHtml: renderMarkdown(revision.content),
+    editor: revision.editor && {
+        _id: revision.editor._id.toString(),
+        username: revision.editor.username
+    },
+    editedAt: revision.editedAt,
+    createdAt: revision.createdAt
+});
+
+export const toPublicRevisionDiff = (from: string, to: string | null, diff: VersionDiff): PublicRevisionDiff => ({
+    from,
+    to,
+    ...diff
+});
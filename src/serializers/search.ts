@@ -0,0 +1,48 @@
+import { SearchHit, SearchType } from '../controllers/search';
+import { highlight, matchesTerms } from '../utils/highlight';
+import { PublicPost, toPublicPost } from './post';
+import { PublicComment, toPublicComment } from './comment';
+import { PublicUser, toPublicUser } from './user';
+
+export interface SearchSnippet {
+    field: string,
+    text: string
+}
+
+export type PublicSearchResult =
+    | { type: SearchType.POST, score: number, item: PublicPost, snippet: SearchSnippet }
+    | { type: SearchType.COMMENT, score: number, item: PublicComment, snippet: SearchSnippet }
+    | { type: SearchType.USER, score: number, item: PublicUser, snippet: SearchSnippet };
+
+const snippet = (field: string, text: string, terms: string[]): SearchSnippet => ({
+    field,
+    text: highlight(text, terms)
+});
+
+export const toPublicSearchResult = (hit: SearchHit, terms: string[]): PublicSearchResult => {
+    switch (hit.type) {
+        case SearchType.POST: {
+            const { title, content } = hit.document;
+            return {
+                type: hit.type,
+                score: hit.score,
+                item: toPublicPost(hit.document),
+                snippet: matchesTerms(title, terms) ? snippet('title', title, terms) : snippet('content', content, terms)
+            };
+        }
+        case SearchType.COMMENT:
+            return {
+                type: hit.type,
+                score: hit.score,
+                item: toPublicComment(hit.document),
+                snippet: snippet('content', hit.document.content, terms)
+            };
+        case SearchType.USER:
+            return {
+                type: hit.type,
+                score: hit.score,
+                item: toPublicUser(hit.document),
+                snippet: snippet('username', hit.document.username, terms)
+            };
+    }
+}
@@ -0,0 +1,25 @@
+import mongoose from 'mongoose';
+import { ISession } from '../models/session';
+
+type SessionSource = ISession & { _id: mongoose.Types.ObjectId };
+
+export interface PublicSession {
+    _id: string,
+    userAgent: string | null,
+    ip: string | null,
+    current: boolean,
+    createdAt?: Date,
+    lastUsedAt: Date,
+    expiresAt: Date
+}
+
+// Refresh token hashes are never returned.
+export const toPublicSession = (session: SessionSource, currentSessionId?: string): PublicSession => ({
+    _id: session._id.toString(),
+    userAgent: session.userAgent ?? null,
+    ip: session.ip ?? null,
+    current: session._id.toString() === currentSessionId,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt
+});
@@ -0,0 +1,83 @@
+import mongoose from 'mongoose';
+import { IUser, Role } from '../models/user';
+import { getFileStorage } from '../utils/fileStorage';
+
+type ProfileFields = 'username' | 'displayName' | 'bio' | 'website' | 'location' | 'avatarKey';
+
+type UserSource = Pick<IUser, ProfileFields | 'role'> & { _id: mongoose.Types.ObjectId };
+
+type AccountSource = UserSource & Pick<IUser, 'email' | 'emailVerified' | 'twoFactorEnabled'>;
+
+type ProfileSource = Pick<IUser, ProfileFields | 'role'> & { _id: mongoose.Types.ObjectId };
+
+export interface PublicProfileFields {
+    displayName: string | null,
+    bio: string | null,
+    website: string | null,
+    location: string | null,
+    avatarUrl: string | null
+}
+
+export interface PublicUser extends PublicProfileFields {
+    _id: string,
+    username: string,
+    role: Role
+}
+
+// The account's email and security state, only for its owner and admins.
+export interface AccountUser extends PublicUser {
+    email: string,
+    emailVerified: boolean,
+    twoFactorEnabled: boolean
+}
+
+// What anyone can see of a user on their profile page; the email stays private.
+export interface PublicProfile extends PublicProfileFields {
+    _id: string,
+    username: string,
+    role: Role,
+    postCount: number,
+    commentCount: number,
+    followerCount: number,
+    followingCount: number
+}
+
+export interface ProfileCounts {
+    posts: number,
+    comments: number,
+    followers: number,
+    following: number
+}
+
+const toPublicProfileFields = (user: Pick<IUser, ProfileFields>): PublicProfileFields => ({
+    displayName: user.displayName ?? null,
+    bio: user.bio ?? null,
+    website: user.website ?? null,
+    location: user.location ?? null,
+    avatarUrl: user.avatarKey ? getFileStorage().url(user.avatarKey) : null
+});
+
+export const toPublicUser = (user: UserSource): PublicUser => ({
+    _id: user._id.toString(),
+    username: user.username,
+    role: user.role,
+    ...toPublicProfileFields(user)
+});
+
+export const toAccountUser = (user: AccountSource): AccountUser => ({
+    ...toPublicUser(user),
+    email: user.email,
+    emailVerified: user.emailVerified ?? false,
+    twoFactorEnabled: user.twoFactorEnabled ?? false
+});
+
+export const toPublicProfile = (user: ProfileSource, counts: ProfileCounts): PublicProfile => ({
+    _id: user._id.toString(),
+    username: user.username,
+    role: user.role,
+    ...toPublicProfileFields(user),
+    postCount: counts.posts,
+    commentCount: counts.comments,
+    followerCount: counts.followers,
+    followingCount: counts.following
+});
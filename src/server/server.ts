@@ -2,12 +2,29 @@ import express, { Application } from "express";
 import { dbConnection } from "../utils/db";
 import { createMongoMemoryDatabase } from "../tests/testUtils";
 import bodyParser from "body-parser";
+import cookieParser from "cookie-parser";
+import { specs, swaggerUi } from "../utils/swagger";
 
 import postRouter from "../routes/post";
 import commentRouter from "../routes/comment";
 import userRouter from "../routes/user";
 import authRouter from "../routes/auth";
+import twoFactorRouter from "../routes/twoFactor";
+import oidcRouter from "../routes/oidc";
+import identityRouter from "../routes/identity";
+import createReactionRouter from "../routes/reaction";
+import createRevisionRouter from "../routes/revision";
+import searchRouter from "../routes/search";
+import feedRouter from "../routes/feed";
+import tagRouter from "../routes/tag";
+import notificationRouter from "../routes/notification";
+import streamRouter, { subscribeStreams } from "../routes/stream";
+import { subscribeNotifications } from "../controllers/notification";
+import { ReactionTarget } from "../models/reaction";
+import { RevisionTarget } from "../models/revision";
 import authenticate from "../middlewares/authenticate";
+import errorHandler, { notFoundHandler } from "../middlewares/errorHandler";
+import env, { StorageDriver } from "../utils/env";
 
 export enum Mode {
   PROD = 'production',
@@ -32,11 +49,41 @@ export const createApp = async (appMmode?: Mode) => {
         }
     }
 
+    subscribeNotifications();
+    subscribeStreams();
+
+    app.set('trust proxy', env.TRUST_PROXY_HOPS);
     app.use(bodyParser.json());
+    app.use(cookieParser());
+    if (env.STORAGE_DRIVER === StorageDriver.LOCAL) {
+      // Attachments are public like the posts they belong to, and are embedded without credentials.
+      app.use('/uploads', express.static(env.UPLOAD_DIR));
+    }
+    app.use('/auth/2fa', authenticate, twoFactorRouter);
+    app.use('/auth/oidc', oidcRouter);
+    app.use('/auth/identities', authenticate, identityRouter);
     app.use('/auth', authRouter)
+    app.use('/post/:id/reactions', authenticate, createReactionRouter(ReactionTarget.POST));
+    app.use('/comment/:id/reactions', authenticate, createReactionRouter(ReactionTarget.COMMENT));
+    app.use('/post/:id/revisions', authenticate, createRevisionRouter(RevisionTarget.POST));
+    app.use('/comment/:id/revisions', authenticate, createRevisionRouter(RevisionTarget.COMMENT));
     app.use('/post', authenticate, postRouter);
     app.use('/comment', authenticate, commentRouter)
     app.use('/user', authenticate, userRouter);
+    app.use('/search', authenticate, searchRouter);
+    app.use('/feed', authenticate, feedRouter);
+    app.use('/tag', authenticate, tagRouter);
+    app.use('/notification', authenticate, notificationRouter);
+    app.use('/stream', authenticate, streamRouter);
+
+    // Swagger documentation
+    app.use('/docs', swaggerUi.serve, swaggerUi.setup(specs, {
+        customCss: '.swagger-ui .topbar { display: none }',
+        customSiteTitle: 'API Documentation'
+    }));
+
+    app.use(notFoundHandler);
+    app.use(errorHandler);
 
     return app;
 }
\ No newline at end of file
@@ -0,0 +1,202 @@
+import supertest from "supertest";
+import mongoose from "mongoose";
+import sharp from "sharp";
+import TestAgent from "supertest/lib/agent";
+import { createApp, Mode, TestableApplication } from "../server/server";
+import postModel from "../models/post";
+import { FileStorage, getFileStorage, setFileStorage } from "../utils/fileStorage";
+import { register } from "./testUtils";
+
+let app: TestableApplication;
+let request: TestAgent;
+let accessToken: string;
+let otherAccessToken: string;
+let image: Buffer;
+
+const stored = new Map<string, Buffer>();
+const originalStorage = getFileStorage();
+
+const memoryStorage: FileStorage = {
+    put: async (key, data) => {
+        stored.set(key, data);
+    },
+    delete: async (key) => {
+        stored.delete(key);
+    },
+    url: (key) => `https://cdn.example.com/${key}`
+};
+
+const createPostWithImages = (count: number) => {
+    const req = request.post("/post")
+        .set({ authorization: `JWT ${accessToken}` })
+        .field("title", "holiday")
+        .field("content", "some pictures");
+
+    for (let i = 0; i < count; i++) {
+        req.attach("attachments", image, { filename: `photo${i}.png`, contentType: "image/png" });
+    }
+    return req;
+}
+
+beforeAll(async () => {
+    app = await createApp(Mode.TEST);
+    request = supertest(app);
+    setFileStorage(memoryStorage);
+
+    image = await sharp({ create: { width: 800, height: 600, channels: 3, background: "blue" } }).png().toBuffer();
+    accessToken = (await register(request, "uploader")).accessToken;
+    otherAccessToken = (await register(request, "stranger")).accessToken;
+});
+
+afterAll(async () => {
+    setFileStorage(originalStorage);
+    await mongoose.connection.dropDatabase();
+    await mongoose.connection.close();
+    if (app.close) {
+        await app.close()
+    }
+});
+
+beforeEach(async () => {
+    await postModel.deleteMany({});
+    stored.clear();
+});
+
+describe("Post attachments", () => {
+    it("should create a post with attached images and thumbnails", async () => {
+        const response = await createPostWithImages(2).expect(200);
+
+        expect(response.body.title).toBe("holiday");
+        expect(response.body.attachments).toHaveLength(2);
+
+        const [attachment] = response.body.attachments;
+        const original = stored.get(attachment.url.replace("https://cdn.example.com/", ""));
+        expect(attachment).toMatchObject({ filename: "photo0.png", mimeType: "image/png", size: original?.length, width: 800, height: 600 });
+        expect(attachment.url).toMatch(/^https:\/\/cdn\.example\.com\/attachments\/.+\.png$/);
+
+        const thumbnail = stored.get(attachment.thumbnailUrl.replace("https://cdn.example.com/", ""));
+        const metadata = await sharp(thumbnail).metadata();
+        expect(metadata.format).toBe("webp");
+        expect(metadata.width).toBe(320);
+        expect(stored.size).toBe(4);
+    });
+
+    it("should store photos upright and without their EXIF data", async () => {
+        const photo = await sharp({ create: { width: 40, height: 20, channels: 3, background: "red" } })
+            .jpeg()
+            .withExif({ IFD0: { Copyright: "Taken at home" } })
+            .withMetadata({ orientation: 6 })
+            .toBuffer();
+
+        const response = await request.post("/post")
+            .set({ authorization: `JWT ${accessToken}` })
+            .field("title", "holiday")
+            .field("content", "a photo")
+            .attach("attachments", photo, { filename: "photo.jpg", contentType: "image/jpeg" })
+            .expect(200);
+
+        const [attachment] = response.body.attachments;
+        expect(attachment).toMatchObject({ mimeType: "image/jpeg", width: 20, height: 40 });
+
+        const original = stored.get(attachment.url.replace("https://cdn.example.com/", ""))!;
+        const metadata = await sharp(original).metadata();
+        expect(metadata.exif).toBeUndefined();
+        expect(metadata.orientation).toBeUndefined();
+        expect([metadata.width, metadata.height]).toEqual([20, 40]);
+        expect(original.includes("Taken at home")).toBe(false);
+    });
+
+    it("should still create posts from JSON without attachments", async () => {
+        const response = await request.post("/post")
+            .set({ authorization: `JWT ${accessToken}` })
+            .send({ title: "text only", content: "no pictures" })
+            .expect(200);
+
+        expect(response.body.attachments).toEqual([]);
+    });
+
+    it("should return attachments when listing posts", async () => {
+        await createPostWithImages(1).expect(200);
+
+        const response = await request.get("/post").set({ authorization: `JWT ${accessToken}` }).expect(200);
+        expect(response.body.items[0].attachments).toHaveLength(1);
+    });
+
+    it("should reject files that are not images", async () => {
+        const response = await request.post("/post")
+            .set({ authorization: `JWT ${accessToken}` })
+            .field("title", "holiday")
+            .field("content", "some pictures")
+            .attach("attachments", Buffer.from("#!/bin/sh"), { filename: "photo.png", contentType: "image/png" })
+            .expect(400);
+
+        expect(response.body.error.code).toBe("INVALID_ATTACHMENT");
+        expect(await postModel.countDocuments()).toBe(0);
+    });
+
+    it("should reject unsupported types", async () => {
+        const response = await request.post("/post")
+            .set({ authorization: `JWT ${accessToken}` })
+            .field("title", "holiday")
+            .field("content", "some pictures")
+            .attach("attachments", Buffer.from("<svg/>"), { filename: "logo.svg", contentType: "image/svg+xml" })
+            .expect(400);
+
+        expect(response.body.error.code).toBe("INVALID_ATTACHMENT");
+    });
+
+    it("should reject too many attachments", async () => {
+        const response = await createPostWithImages(5).expect(400);
+
+        expect(response.body.error.code).toBe("TOO_MANY_ATTACHMENTS");
+        expect(stored.size).toBe(0);
+    });
+
+    it("should add and remove attachments of an existing post", async () => {
+        const post = (await createPostWithImages(1).expect(200)).body;
+
+        const updated = await request.post(`/post/${post._id}/attachments`)
+            .set({ authorization: `JWT ${accessToken}` })
+            .attach("attachments", image, { filename: "more.png", contentType: "image/png" })
+            .expect(200);
+        expect(updated.body.attachments).toHaveLength(2);
+
+        const attachmentId = updated.body.attachments[0]._id;
+        await request.delete(`/post/${post._id}/attachments/${attachmentId}`).set({ authorization: `JWT ${accessToken}` }).expect(200);
+        await request.delete(`/post/${post._id}/attachments/${attachmentId}`).set({ authorization: `JWT ${accessToken}` }).expect(404);
+
+        const storedPost = await postModel.findById(post._id);
+        expect(storedPost!.attachments).toHaveLength(1);
+        expect(stored.size).toBe(2);
+    });
+
+    it("should not attach more than the limit to an existing post", async () => {
+        const post = (await createPostWithImages(4).expect(200)).body;
+
+        const response = await request.post(`/post/${post._id}/attachments`)
+            .set({ authorization: `JWT ${accessToken}` })
+            .attach("attachments", image, { filename: "more.png", contentType: "image/png" })
+            .expect(400);
+        expect(response.body.error.code).toBe("TOO_MANY_ATTACHMENTS");
+        expect(stored.size).toBe(8);
+    });
+
+    it("should only let the owner change attachments", async () => {
+        const post = (await createPostWithImages(1).expect(200)).body;
+
+        await request.post(`/post/${post._id}/attachments`)
+            .set({ authorization: `JWT ${otherAccessToken}` })
+            .attach("attachments", image, { filename: "more.png", contentType: "image/png" })
+            .expect(403);
+        await request.delete(`/post/${post._id}/attachments/${post.attachments[0]._id}`)
+            .set({ authorization: `JWT ${otherAccessToken}` })
+            .expect(403);
+    });
+
+    it("should delete the files when the post is deleted", async () => {
+        const post = (await createPostWithImages(2).expect(200)).body;
+
+        await request.delete(`/post/${post._id}`).set({ authorization: `JWT ${accessToken}` }).expect(200);
+        expect(stored.size).toBe(0);
+    });
+});
@@ -3,7 +3,14 @@ import mongoose from "mongoose";
 import TestAgent from "supertest/lib/agent";
 import { createApp, Mode, TestableApplication } from "../server/server";
 import userModel from "../models/user";
-import { verifyRefreshToken } from "../utils/jwt";
+import sessionModel from "../models/session";
+import userTokenModel from "../models/userToken";
+import { hashToken, verifyRefreshToken } from "../utils/jwt";
+import { rotateSession } from "../controllers/session";
+import { MailMessage, setMailer } from "../utils/mailer";
+import env, { EmailVerificationRequirement } from "../utils/env";
+import { totpCode, totpStep } from "../utils/totp";
+import jwt, { JwtPayload } from "jsonwebtoken";
 
 let app: TestableApplication;
 let request: TestAgent;
@@ -47,6 +54,9 @@ describe("Register", () => {
         const response = await request.post("/auth/register").send(testUser).expect(200);
         expect(response.body).toBeDefined();
         expect(response.body._id).toBeDefined();
+        expect(response.body.username).toBe(testUser.username);
+        expect(response.body.passwordHash).toBeUndefined();
+        expect(response.body.tokens).toBeUndefined();
         const createdUser = await userModel.findById(response.body._id);
         expect(createdUser).toBeTruthy();
     });
@@ -62,11 +72,17 @@ describe("Register", () => {
     it("Add new user without some fields", async () => {
         await request.post("/auth/register").send(badTestUser).expect(400);
     });
+
+    it("Add new user with invalid fields", async () => {
+        const response = await request.post("/auth/register").send({ username: "a b", email: "bad-email", password: "short" }).expect(400);
+        expect(response.body.error.code).toBe("VALIDATION_FAILED");
+        expect(response.body.error.details.map((detail: { path: string }) => detail.path)).toEqual(["username", "email", "password"]);
+    });
 })
 
 describe("Login", () => {
     it("Login User", async () => {
-        const response = await request.post("/auth/login").send(testUser).expect(200);
+        const response = await request.post("/auth/login").send({ username: testUser.username, password: testUser.password }).expect(200);
         expect(response.body).toBeDefined();
         accessToken = response.body.accessToken;
         refreshToken = response.body.refreshToken;
@@ -74,6 +90,7 @@ describe("Login", () => {
         expect(refreshToken).toBeDefined();
         const user = await verifyRefreshToken(refreshToken);
         expect(user).toBeDefined();
+        expect((jwt.decode(accessToken) as JwtPayload).role).toBe("user");
     });
 
     it("Login User without credentials", async () => {
@@ -93,7 +110,39 @@ describe("Token Access", () => {
         await request.get("/post").expect(401);
     });
     it("Bad Token", async () => {
-        await request.get("/post").set({authorization: `JWT randomstringvalue123`}).expect(403);
+        const response = await request.get("/post").set({authorization: `JWT randomstringvalue123`}).expect(403);
+        expect(response.body.error.code).toBe("INVALID_TOKEN");
+    });
+})
+
+describe("Error envelope", () => {
+    it("should describe missing authorization", async () => {
+        const response = await request.get("/post").expect(401);
+        expect(response.body.error).toEqual({ code: "MISSING_AUTHORIZATION", message: "Missing Authorization" });
+    });
+    it("should describe invalid credentials", async () => {
+        const response = await request.post("/auth/login").send({ username: testUser.username, password: "wrongpassword" }).expect(400);
+        expect(response.body.error.code).toBe("INVALID_CREDENTIALS");
+        expect(response.body.error.message).toBe("Invalid Credentials");
+    });
+    it("should reject malformed JSON", async () => {
+        const response = await request.post("/auth/login").set("Content-Type", "application/json").send("{ bad json").expect(400);
+        expect(response.body.error.code).toBe("INVALID_JSON");
+    });
+    it("should keep the status of other body errors", async () => {
+        const tooLarge = await request.post("/auth/login").set("Content-Type", "application/json").send(`{"username":"${"x".repeat(200 * 1024)}"}`).expect(413);
+        expect(tooLarge.body.error).toMatchObject({ code: "INVALID_BODY", message: "Body Too Large" });
+
+        const charset = await request.post("/auth/login").set("Content-Type", "application/json; charset=latin-9").send("{}").expect(415);
+        expect(charset.body.error.code).toBe("INVALID_BODY");
+    });
+    it("should return 404 for unknown routes", async () => {
+        const response = await request.get("/unknown").expect(404);
+        expect(response.body.error.code).toBe("NOT_FOUND");
+    });
+    it("should describe an invalid refresh token", async () => {
+        const response = await request.post("/auth/refreshToken").set({authorization: `JWT randomstringvalue123`}).expect(400);
+        expect(response.body.error.code).toBe("INVALID_TOKEN");
     });
 })
 
@@ -115,10 +164,9 @@ describe("Token expirey and rotation", () => {
         refreshToken = response.body.refreshToken;
         expect(accessToken).toBeDefined();
         expect(refreshToken).toBeDefined();
-        const user = await verifyRefreshToken(refreshToken);
-        console.log(user);
-        expect(user.tokens.includes(refreshToken)).toBeTruthy();
-        expect(user.tokens.includes(oldRefreshToken)).toBeFalsy();
+        const { session } = await verifyRefreshToken(refreshToken);
+        expect(session.tokenHash).toBe(hashToken(refreshToken));
+        expect(session.tokenHash).not.toBe(hashToken(oldRefreshToken));
         await request.get("/post").set({authorization: `JWT ${accessToken}`}).expect(200);
     });
 })
@@ -128,9 +176,387 @@ describe("Logout", () => {
         await request.post("/auth/logout").set({authorization: `JWT ${accessToken}`}).send({ refreshToken: refreshToken }).expect(200);
     });
     it("Logout with bad token", async () => {
-    await request.post("/auth/logout").set({authorization: `JWT ${accessToken}`}).send({ refreshToken: null }).expect(401);
+    await request.post("/auth/logout").set({authorization: `JWT ${accessToken}`}).send({ refreshToken: null }).expect(400);
     });  
     it("Logout without token", async () => {
     await request.post("/auth/logout").set({authorization: `JWT ${accessToken}`}).expect(400);
     });
-})
\ No newline at end of file
+})
+
+describe("Sessions", () => {
+    let laptop: { accessToken: string, refreshToken: string };
+    let phone: { accessToken: string, refreshToken: string };
+
+    beforeAll(async () => {
+        const credentials = { username: testUser.username, password: testUser.password };
+        laptop = (await request.post("/auth/login").set("User-Agent", "laptop-browser").send(credentials).expect(200)).body;
+        phone = (await request.post("/auth/login").set("User-Agent", "phone-app").send(credentials).expect(200)).body;
+    });
+
+    it("should list sessions with device details", async () => {
+        const response = await request.get("/auth/sessions").set({authorization: `JWT ${laptop.accessToken}`}).expect(200);
+
+        const userAgents = response.body.map((session: { userAgent: string }) => session.userAgent);
+        expect(userAgents).toEqual(expect.arrayContaining(["laptop-browser", "phone-app"]));
+        const current = response.body.filter((session: { current: boolean }) => session.current);
+        expect(current).toHaveLength(1);
+        expect(current[0].userAgent).toBe("laptop-browser");
+        expect(response.body[0].token).toBeUndefined();
+    });
+
+    it("should revoke a single session", async () => {
+        const sessions = await request.get("/auth/sessions").set({authorization: `JWT ${laptop.accessToken}`}).expect(200);
+        const phoneSession = sessions.body.find((session: { userAgent: string }) => session.userAgent === "phone-app");
+
+        await request.delete(`/auth/sessions/${phoneSession._id}`).set({authorization: `JWT ${laptop.accessToken}`}).expect(200);
+
+        const response = await request.post("/auth/refreshToken").set({authorization: `JWT ${phone.refreshToken}`}).expect(400);
+        expect(response.body.error.code).toBe("INVALID_TOKEN");
+    });
+
+    it("should return 404 for a session of another user or that does not exist", async () => {
+        const response = await request
+            .delete(`/auth/sessions/${new mongoose.Types.ObjectId()}`)
+            .set({authorization: `JWT ${laptop.accessToken}`})
+            .expect(404);
+        expect(response.body.error.message).toBe("Session Not Found");
+    });
+
+    it("should store only hashes of expiring refresh tokens", async () => {
+        const payload = jwt.decode(laptop.refreshToken) as JwtPayload;
+        expect(payload.exp).toBeDefined();
+        expect(payload.jti).toBeDefined();
+
+        const session = await sessionModel.findById(payload.sid).lean();
+        expect(session?.tokenHash).toBe(hashToken(laptop.refreshToken));
+        expect(JSON.stringify(session)).not.toContain(laptop.refreshToken);
+        expect(session?.expiresAt.getTime()).toBe(payload.exp! * 1000);
+    });
+
+    it("should revoke only the reused family when a rotated refresh token is reused", async () => {
+        const credentials = { username: testUser.username, password: testUser.password };
+        const other = (await request.post("/auth/login").send(credentials).expect(200)).body;
+        const refreshed = await request.post("/auth/refreshToken").set({authorization: `JWT ${laptop.refreshToken}`}).expect(200);
+
+        await request.post("/auth/refreshToken").set({authorization: `JWT ${laptop.refreshToken}`}).expect(400);
+        await request.post("/auth/refreshToken").set({authorization: `JWT ${refreshed.body.refreshToken}`}).expect(400);
+        await request.post("/auth/refreshToken").set({authorization: `JWT ${other.refreshToken}`}).expect(200);
+    });
+
+    it("should let only one of two concurrent refreshes with the same token through", async () => {
+        const credentials = { username: testUser.username, password: testUser.password };
+        const racing = (await request.post("/auth/login").send(credentials).expect(200)).body;
+        const { sid } = jwt.decode(racing.refreshToken) as JwtPayload;
+        const stale = await rotateSession(new mongoose.Types.ObjectId(sid as string), hashToken("another token"), { tokenHash: hashToken("new token"), expiresAt: new Date(Date.now() + 60 * 1000) }, {});
+        expect(stale).toBeNull();
+
+        const responses = await Promise.all([1, 2].map(() => request.post("/auth/refreshToken").set({authorization: `JWT ${racing.refreshToken}`})));
+        const [winner, loser] = responses.sort((a, b) => a.status - b.status);
+
+        expect(winner.status).toBe(200);
+        expect([400, 401]).toContain(loser.status);
+        expect(await sessionModel.findById(sid)).toBeNull();
+        await request.post("/auth/refreshToken").set({authorization: `JWT ${winner.body.refreshToken}`}).expect(400);
+    });
+
+    it("should ignore expired sessions", async () => {
+        const credentials = { username: testUser.username, password: testUser.password };
+        const expiring = (await request.post("/auth/login").send(credentials).expect(200)).body;
+        const { sid } = jwt.decode(expiring.refreshToken) as JwtPayload;
+        await sessionModel.findByIdAndUpdate(sid, { expiresAt: new Date(Date.now() - 1000) });
+
+        const sessions = await request.get("/auth/sessions").set({authorization: `JWT ${expiring.accessToken}`}).expect(200);
+        expect(sessions.body.map((session: { _id: string }) => session._id)).not.toContain(sid);
+        await request.post("/auth/refreshToken").set({authorization: `JWT ${expiring.refreshToken}`}).expect(400);
+    });
+
+    it("should log out everywhere else", async () => {
+        const credentials = { username: testUser.username, password: testUser.password };
+        const current = (await request.post("/auth/login").send(credentials).expect(200)).body;
+        const other = (await request.post("/auth/login").send(credentials).expect(200)).body;
+
+        const response = await request.delete("/auth/sessions").set({authorization: `JWT ${current.accessToken}`}).expect(200);
+        expect(response.body.revoked).toBeGreaterThanOrEqual(1);
+
+        await request.post("/auth/refreshToken").set({authorization: `JWT ${other.refreshToken}`}).expect(400);
+        await request.post("/auth/refreshToken").set({authorization: `JWT ${current.refreshToken}`}).expect(200);
+    });
+})
+
+describe("Email verification and password reset", () => {
+    const sentMail: MailMessage[] = [];
+    const mailUser = {
+        username: "mailuser",
+        email: "mailuser@example.com",
+        password: "mailpassword123"
+    };
+
+    // Tokens are on their own line in the emails.
+    const lastToken = () => sentMail[sentMail.length - 1].text.split("\n").find(line => /^[\w-]{43}$/.test(line))!;
+    const login = (password = mailUser.password) => request.post("/auth/login").send({ username: mailUser.username, password });
+
+    beforeAll(async () => {
+        setMailer({ send: async (message) => { sentMail.push(message); } });
+        await request.post("/auth/register").send(mailUser).expect(200);
+    });
+
+    afterEach(() => {
+        env.EMAIL_VERIFICATION_REQUIRED = EmailVerificationRequirement.NONE;
+    });
+
+    it("should email a verification token on registration", async () => {
+        expect(sentMail[sentMail.length - 1].to).toBe(mailUser.email);
+        expect(lastToken()).toBeDefined();
+    });
+
+    it("should block login for unverified users when required", async () => {
+        env.EMAIL_VERIFICATION_REQUIRED = EmailVerificationRequirement.LOGIN;
+
+        const response = await login().expect(403);
+        expect(response.body.error.code).toBe("EMAIL_NOT_VERIFIED");
+    });
+
+    it("should block posting for unverified users when required", async () => {
+        const { accessToken } = (await login().expect(200)).body;
+        env.EMAIL_VERIFICATION_REQUIRED = EmailVerificationRequirement.POSTING;
+
+        const response = await request
+            .post("/post")
+            .set({authorization: `JWT ${accessToken}`})
+            .send({ title: "Unverified", content: "Should not be posted" })
+            .expect(403);
+        expect(response.body.error.code).toBe("EMAIL_NOT_VERIFIED");
+    });
+
+    it("should verify the email with a single-use token", async () => {
+        await request.post("/auth/resendVerification").send({ email: mailUser.email }).expect(200);
+        const token = lastToken();
+
+        const response = await request.post("/auth/verifyEmail").send({ token }).expect(200);
+        expect(response.body.emailVerified).toBe(true);
+
+        const reused = await request.post("/auth/verifyEmail").send({ token }).expect(400);
+        expect(reused.body.error.message).toBe("Invalid Or Expired Token");
+
+        env.EMAIL_VERIFICATION_REQUIRED = EmailVerificationRequirement.LOGIN;
+        await login().expect(200);
+    });
+
+    it("should not reveal whether an email is registered", async () => {
+        const sentBefore = sentMail.length;
+        await request.post("/auth/forgotPassword").send({ email: "nobody@example.com" }).expect(200);
+        expect(sentMail.length).toBe(sentBefore);
+    });
+
+    it("should reset the password and revoke existing sessions", async () => {
+        const { refreshToken } = (await login().expect(200)).body;
+        await request.post("/auth/forgotPassword").send({ email: mailUser.email }).expect(200);
+
+        await request.post("/auth/resetPassword").send({ token: lastToken(), password: "brandNewPassword1" }).expect(200);
+
+        await login().expect(400);
+        await login("brandNewPassword1").expect(200);
+        await request.post("/auth/refreshToken").set({authorization: `JWT ${refreshToken}`}).expect(400);
+    });
+
+    it("should reject expired reset tokens", async () => {
+        await request.post("/auth/forgotPassword").send({ email: mailUser.email }).expect(200);
+        await userTokenModel.updateMany({}, { expiresAt: new Date(Date.now() - 1000) });
+
+        const response = await request.post("/auth/resetPassword").send({ token: lastToken(), password: "anotherPassword1" }).expect(400);
+        expect(response.body.error.code).toBe("INVALID_TOKEN");
+    });
+})
+
+describe("Cookie auth", () => {
+    const cookieUser = {
+        username: "cookieuser",
+        email: "cookieuser@example.com",
+        password: "cookiepassword123"
+    };
+
+    let browser: TestAgent;
+    let csrfToken: string;
+
+    const setCookies = (response: { headers: Record<string, unknown> }) => response.headers['set-cookie'] as unknown as string[];
+    const cookie = (response: { headers: Record<string, unknown> }, name: string) =>
+        setCookies(response).find(header => header.startsWith(`${name}=`));
+
+    beforeAll(async () => {
+        // Supertest only sends Secure cookies over HTTPS.
+        env.COOKIE_SECURE = false;
+        browser = supertest.agent(app);
+        await request.post("/auth/register").send(cookieUser).expect(200);
+    });
+
+    afterAll(() => {
+        env.COOKIE_SECURE = true;
+    });
+
+    it("should set httpOnly cookies instead of returning tokens", async () => {
+        const response = await browser.post("/auth/login")
+            .send({ username: cookieUser.username, password: cookieUser.password, useCookies: true })
+            .expect(200);
+
+        csrfToken = response.body.csrfToken;
+        expect(csrfToken).toBeDefined();
+        expect(response.body.accessToken).toBeUndefined();
+        expect(response.body.refreshToken).toBeUndefined();
+
+        expect(cookie(response, "accessToken")).toMatch(/HttpOnly/);
+        expect(cookie(response, "accessToken")).toMatch(/SameSite=Lax/);
+        expect(cookie(response, "refreshToken")).toMatch(/Path=\/auth/);
+        expect(cookie(response, "refreshToken")).toMatch(/HttpOnly/);
+        expect(cookie(response, "csrfToken")).toContain(csrfToken);
+        expect(cookie(response, "csrfToken")).not.toMatch(/HttpOnly/);
+    });
+
+    it("should authenticate reads with the access cookie", async () => {
+        await browser.get("/post").expect(200);
+    });
+
+    it("should require the CSRF token on state-changing requests", async () => {
+        const post = { title: "Cookie post", content: "Sent by a browser" };
+
+        const missing = await browser.post("/post").send(post).expect(403);
+        expect(missing.body.error.code).toBe("INVALID_CSRF_TOKEN");
+        await browser.post("/post").set({ "X-CSRF-Token": "wrong" }).send(post).expect(403);
+
+        await browser.post("/post").set({ "X-CSRF-Token": csrfToken }).send(post).expect(200);
+    });
+
+    it("should not require the CSRF token with the Authorization header", async () => {
+        const { accessToken } = (await request.post("/auth/login").send({ username: cookieUser.username, password: cookieUser.password }).expect(200)).body;
+
+        await request.post("/post")
+            .set({ authorization: `JWT ${accessToken}` })
+            .send({ title: "Bearer post", content: "Sent by an app" })
+            .expect(200);
+    });
+
+    it("should refresh from the refresh cookie", async () => {
+        const missing = await browser.post("/auth/refreshToken").expect(403);
+        expect(missing.body.error.code).toBe("INVALID_CSRF_TOKEN");
+
+        const response = await browser.post("/auth/refreshToken").set({ "X-CSRF-Token": csrfToken }).expect(200);
+        expect(response.body.accessToken).toBeUndefined();
+        expect(response.body.csrfToken).not.toBe(csrfToken);
+        expect(cookie(response, "refreshToken")).toBeDefined();
+
+        csrfToken = response.body.csrfToken;
+        await browser.get("/post").expect(200);
+    });
+
+    it("should log out and clear the cookies", async () => {
+        const response = await browser.post("/auth/logout").set({ "X-CSRF-Token": csrfToken }).send({}).expect(200);
+        expect(cookie(response, "accessToken")).toMatch(/Expires=Thu, 01 Jan 1970/);
+
+        await browser.get("/post").expect(401);
+    });
+})
+
+describe("Two-factor authentication", () => {
+    const totpUser = {
+        username: "totpuser",
+        email: "totpuser@example.com",
+        password: "totppassword123"
+    };
+
+    let accessToken: string;
+    let secret: string;
+    let recoveryCodes: string[];
+    // Each TOTP time step can be used once, so every test uses a later one (up to one step ahead is accepted).
+    let step: number;
+
+    const login = () => request.post("/auth/login").send({ username: totpUser.username, password: totpUser.password });
+    const auth = () => ({ authorization: `JWT ${accessToken}` });
+
+    beforeAll(async () => {
+        await request.post("/auth/register").send(totpUser).expect(200);
+        accessToken = (await login().expect(200)).body.accessToken;
+        step = totpStep();
+    });
+
+    it("should return an otpauth URI on enrollment", async () => {
+        const response = await request.post("/auth/2fa/enroll").set(auth()).expect(200);
+        secret = response.body.secret;
+
+        expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+        expect(response.body.otpauthUri).toBe(`otpauth://totp/API:${totpUser.username}?secret=${secret}&issuer=API&algorithm=SHA1&digits=6&period=30`);
+
+        // Not enabled until confirmed.
+        await login().expect(200).expect(res => expect(res.body.accessToken).toBeDefined());
+    });
+
+    it("should reject a wrong confirmation code", async () => {
+        const response = await request.post("/auth/2fa/confirm").set(auth()).send({ code: "000000" }).expect(400);
+        expect(response.body.error.code).toBe("INVALID_TWO_FACTOR_CODE");
+    });
+
+    it("should enable two-factor authentication on confirmation", async () => {
+        const response = await request.post("/auth/2fa/confirm").set(auth()).send({ code: totpCode(secret, step) }).expect(200);
+        recoveryCodes = response.body.recoveryCodes;
+
+        expect(recoveryCodes).toHaveLength(10);
+        const user = await userModel.findOne({ username: totpUser.username });
+        expect(user!.twoFactorEnabled).toBe(true);
+        expect(user!.recoveryCodeHashes).not.toContain(recoveryCodes[0]);
+
+        await request.post("/auth/2fa/enroll").set(auth()).expect(400);
+    });
+
+    it("should require the second factor to log in", async () => {
+        const response = await login().expect(200);
+        expect(response.body.accessToken).toBeUndefined();
+        expect(response.body.twoFactorRequired).toBe(true);
+        const { challengeToken } = response.body;
+
+        const wrong = await request.post("/auth/login/2fa").send({ challengeToken, code: "000000" }).expect(400);
+        expect(wrong.body.error.code).toBe("INVALID_TWO_FACTOR_CODE");
+
+        // The code used for confirmation cannot be replayed.
+        await request.post("/auth/login/2fa").send({ challengeToken, code: totpCode(secret, step) }).expect(400);
+
+        step++;
+        const tokens = await request.post("/auth/login/2fa").send({ challengeToken, code: totpCode(secret, step) }).expect(200);
+        expect(tokens.body.accessToken).toBeDefined();
+        expect(tokens.body.refreshToken).toBeDefined();
+
+        // The challenge is used up by a successful login.
+        await request.post("/auth/login/2fa").send({ challengeToken, code: recoveryCodes[0] }).expect(400);
+    });
+
+    it("should accept each recovery code once", async () => {
+        const first = (await login().expect(200)).body.challengeToken;
+        await request.post("/auth/login/2fa").send({ challengeToken: first, code: recoveryCodes[0].toUpperCase() }).expect(200);
+
+        const second = (await login().expect(200)).body.challengeToken;
+        await request.post("/auth/login/2fa").send({ challengeToken: second, code: recoveryCodes[0] }).expect(400);
+
+        const status = await request.get("/auth/2fa").set(auth()).expect(200);
+        expect(status.body).toEqual({ enabled: true, recoveryCodesRemaining: 9 });
+    });
+
+    it("should regenerate recovery codes", async () => {
+        const response = await request.post("/auth/2fa/recoveryCodes").set(auth()).send({ code: recoveryCodes[1] }).expect(200);
+        expect(response.body.recoveryCodes).toHaveLength(10);
+
+        const challengeToken = (await login().expect(200)).body.challengeToken;
+        await request.post("/auth/login/2fa").send({ challengeToken, code: recoveryCodes[2] }).expect(400);
+
+        recoveryCodes = response.body.recoveryCodes;
+        await request.post("/auth/login/2fa").send({ challengeToken, code: recoveryCodes[0] }).expect(200);
+    });
+
+    it("should disable two-factor authentication with the password and a code", async () => {
+        await request.post("/auth/2fa/disable").set(auth()).send({ password: "wrongpassword", code: recoveryCodes[1] }).expect(400);
+
+        await request.post("/auth/2fa/disable").set(auth()).send({ password: totpUser.password, code: recoveryCodes[1] }).expect(200);
+
+        const response = await login().expect(200);
+        expect(response.body.accessToken).toBeDefined();
+        const user = await userModel.findOne({ username: totpUser.username });
+        expect(user!.twoFactorSecret).toBeUndefined();
+        expect(user!.recoveryCodeHashes).toHaveLength(0);
+    });
+})
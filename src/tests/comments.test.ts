@@ -1,9 +1,9 @@
 import supertest from "supertest";
 import mongoose from "mongoose";
 import { IComment } from "../models/comment";
-import commentModel from "../models/comment";
+import commentModel, { MAX_COMMENT_DEPTH } from "../models/comment";
 import postModel from "../models/post";
-import userModel from "../models/user";
+import userModel, { Role } from "../models/user";
 import TestAgent from "supertest/lib/agent";
 import { createApp, Mode, TestableApplication } from "../server/server";
 
@@ -38,7 +38,7 @@ beforeAll(async () => {
     // Create test user
     const registerUser = await request.post("/auth/register").send(testUser);
     userId = registerUser.body._id.toString();
-    const loggedInUser = await request.post("/auth/login").send(testUser);
+    const loggedInUser = await request.post("/auth/login").send({ username: testUser.username, password: testUser.password });
     accessToken = loggedInUser.body.accessToken;
     testPost.sender = userId;
     testComment.sender = userId;
@@ -68,7 +68,7 @@ describe("Comment Routes", () => {
             const response = await request
                 .post("/comment")
                 .set({ authorization: `JWT ${accessToken}` })
-                .send(testComment)
+                .send({ postId: testComment.postId, content: testComment.content })
                 .expect(200);
             
             expect(response.body).toBeDefined();
@@ -85,12 +85,11 @@ describe("Comment Routes", () => {
                 .set({ authorization: `JWT ${accessToken}` })
                 .expect(400);
                 
-            expect(response.text).toBe("Missing Body");
+            expect(response.body.error.message).toBe("Missing Body");
         });
         
         it("should return 400 when postId is missing", async () => {
             const invalidComment = {
-                sender: testComment.sender,
                 content: testComment.content
             };
             
@@ -100,13 +99,13 @@ describe("Comment Routes", () => {
                 .send(invalidComment)
                 .expect(400);
                 
-            expect(response.text).toBe("Invalid Comment");
+            expect(response.body.error.code).toBe("VALIDATION_FAILED");
+            expect(response.body.error.message).toBe("Invalid Post Id");
         });
         
         it("should return 400 when content is missing", async () => {
             const invalidComment = {
-                postId: testComment.postId,
-                sender: testComment.sender
+                postId: testComment.postId
             };
             
             const response = await request
@@ -115,13 +114,34 @@ describe("Comment Routes", () => {
                 .send(invalidComment)
                 .expect(400);
                 
-            expect(response.text).toBe("Invalid Comment");
+            expect(response.body.error.code).toBe("VALIDATION_FAILED");
+            expect(response.body.error.message).toBe("content is required");
+        });
+
+        it("should reject unknown fields such as sender", async () => {
+            const response = await request
+                .post("/comment")
+                .set({ authorization: `JWT ${accessToken}` })
+                .send(testComment)
+                .expect(400);
+
+            expect(response.body.error.code).toBe("VALIDATION_FAILED");
+            expect(response.body.error.details).toEqual([{ path: "", message: 'Unrecognized key: "sender"' }]);
+        });
+
+        it("should return 400 when content is too long", async () => {
+            const response = await request
+                .post("/comment")
+                .set({ authorization: `JWT ${accessToken}` })
+                .send({ postId: testComment.postId, content: "a".repeat(2001) })
+                .expect(400);
+
+            expect(response.body.error.message).toBe("content must be at most 2000 characters");
         });
         
         it("should return 400 when related post does not exist", async () => {
             const invalidComment = {
                 postId: new mongoose.Types.ObjectId().toString(),
-                sender: testComment.sender,
                 content: testComment.content
             };
             
@@ -131,7 +151,7 @@ describe("Comment Routes", () => {
                 .send(invalidComment)
                 .expect(400);
                 
-            expect(response.text).toBe("Related Post Does Not Exist");
+            expect(response.body.error.message).toBe("Related Post Does Not Exist");
         });
     });
     
@@ -155,8 +175,9 @@ describe("Comment Routes", () => {
                 .set({ authorization: `JWT ${accessToken}` })
                 .expect(200);
                 
-            expect(Array.isArray(response.body)).toBe(true);
-            expect(response.body.length).toBe(3);
+            expect(Array.isArray(response.body.items)).toBe(true);
+            expect(response.body.items.length).toBe(3);
+            expect(response.body.nextCursor).toBeNull();
         });
         
         it("should return comments filtered by postId when postId query parameter is provided", async () => {
@@ -165,9 +186,9 @@ describe("Comment Routes", () => {
                 .set({ authorization: `JWT ${accessToken}` })
                 .expect(200);
                 
-            expect(Array.isArray(response.body)).toBe(true);
-            expect(response.body.length).toBe(2);
-            response.body.forEach((comment: IComment) => {
+            expect(Array.isArray(response.body.items)).toBe(true);
+            expect(response.body.items.length).toBe(2);
+            response.body.items.forEach((comment: IComment) => {
                 expect(comment.postId).toBe(testComment.postId);
             });
         });
@@ -180,8 +201,82 @@ describe("Comment Routes", () => {
                 .set({ authorization: `JWT ${accessToken}` })
                 .expect(200);
                 
-            expect(Array.isArray(response.body)).toBe(true);
-            expect(response.body.length).toBe(0);
+            expect(Array.isArray(response.body.items)).toBe(true);
+            expect(response.body.items.length).toBe(0);
+        });
+
+        it("should page through comments with a cursor", async () => {
+            const firstPage = await request
+                .get("/comment?limit=2&sort=oldest")
+                .set({ authorization: `JWT ${accessToken}` })
+                .expect(200);
+
+            expect(firstPage.body.items.length).toBe(2);
+            expect(firstPage.body.nextCursor).toBeTruthy();
+
+            const secondPage = await request
+                .get(`/comment?limit=2&sort=oldest&cursor=${firstPage.body.nextCursor}`)
+                .set({ authorization: `JWT ${accessToken}` })
+                .expect(200);
+
+            expect(secondPage.body.items.length).toBe(1);
+            expect(secondPage.body.items[0].content).toBe("Comment for different post");
+            expect(secondPage.body.nextCursor).toBeNull();
+        });
+
+        it("should combine postId and sender filters", async () => {
+            const otherSender = new mongoose.Types.ObjectId().toString();
+            await commentModel.create({ ...testComment, sender: otherSender });
+
+            const response = await request
+                .get(`/comment?postId=${testComment.postId}&sender=${otherSender}`)
+                .set({ authorization: `JWT ${accessToken}` })
+                .expect(200);
+
+            expect(response.body.items.length).toBe(1);
+            expect(response.body.items[0].sender).toBe(otherSender);
+        });
+
+        it("should sort comments by reply count", async () => {
+            const [quiet, busy] = await commentModel.create([testComment, testComment]);
+            await commentModel.create([
+                { ...testComment, parentCommentId: busy._id },
+                { ...testComment, parentCommentId: busy._id },
+                { ...testComment, parentCommentId: quiet._id }
+            ]);
+
+            const response = await request
+                .get(`/comment?postId=${testComment.postId}&sort=mostReplied&limit=2`)
+                .set({ authorization: `JWT ${accessToken}` })
+                .expect(200);
+
+            expect(response.body.items.map((comment: { _id: string }) => comment._id)).toEqual([busy._id.toString(), quiet._id.toString()]);
+            expect(response.body.items[0].replyCount).toBe(2);
+            expect(response.body.nextCursor).not.toBeNull();
+
+            const next = await request
+                .get(`/comment?postId=${testComment.postId}&sort=mostReplied&cursor=${response.body.nextCursor}`)
+                .set({ authorization: `JWT ${accessToken}` })
+                .expect(200);
+
+            expect(next.body.items.length).toBe(5);
+            expect(next.body.items.every((comment: { replyCount: number }) => comment.replyCount === 0)).toBe(true);
+        });
+
+        it("should return 400 for invalid postId or unsupported sort", async () => {
+            const badPostId = await request
+                .get("/comment?postId=invalid-id")
+                .set({ authorization: `JWT ${accessToken}` })
+                .expect(400);
+
+            expect(badPostId.body.error.message).toBe("Invalid postId");
+
+            const badSort = await request
+                .get("/comment?sort=mostCommented")
+                .set({ authorization: `JWT ${accessToken}` })
+                .expect(400);
+
+            expect(badSort.body.error.message).toBe("Invalid sort");
         });
     });
     
@@ -210,7 +305,7 @@ describe("Comment Routes", () => {
                 .set({ authorization: `JWT ${accessToken}` })
                 .expect(400);
                 
-            expect(response.text).toBe("Invalid Comment Id");
+            expect(response.body.error.message).toBe("Invalid Comment Id");
         });
         
         it("should return 404 for non-existent comment ID", async () => {
@@ -221,7 +316,7 @@ describe("Comment Routes", () => {
                 .set({ authorization: `JWT ${accessToken}` })
                 .expect(404);
                 
-            expect(response.text).toBe("Comment Not Found");
+            expect(response.body.error.message).toBe("Comment Not Found");
         });
     });
     
@@ -252,7 +347,7 @@ describe("Comment Routes", () => {
                 .set({ authorization: `JWT ${accessToken}` })
                 .expect(400);
                 
-            expect(response.text).toBe("Invalid Comment Id");
+            expect(response.body.error.message).toBe("Invalid Comment Id");
         });
         
         it("should return 404 for non-existent comment ID", async () => {
@@ -263,7 +358,7 @@ describe("Comment Routes", () => {
                 .set({ authorization: `JWT ${accessToken}` })
                 .expect(404);
                 
-            expect(response.text).toBe("Comment Not Found");
+            expect(response.body.error.message).toBe("Comment Not Found");
         });
         
         it("Block user from deleting other user's comment", async () => {
@@ -277,9 +372,9 @@ describe("Comment Routes", () => {
             const response = await request
                 .delete(`/comment/${commentId}`)
                 .set({ authorization: `JWT ${accessToken}` })
-                .expect(400);
+                .expect(403);
                 
-            expect(response.text).toBe("Unauthorized");
+            expect(response.body.error.message).toBe("Forbidden");
         });
     });
     
@@ -315,7 +410,7 @@ describe("Comment Routes", () => {
                 .send({ content: "Updated content" })
                 .expect(400);
                 
-            expect(response.text).toBe("Invalid Comment Id");
+            expect(response.body.error.message).toBe("Invalid Comment Id");
         });
         
         it("should return 400 when body is missing", async () => {
@@ -324,7 +419,7 @@ describe("Comment Routes", () => {
                 .set({ authorization: `JWT ${accessToken}` })
                 .expect(400);
                 
-            expect(response.text).toBe("Missing Body");
+            expect(response.body.error.message).toBe("Missing Body");
         });
         
         it("should return 400 when content is missing in body", async () => {
@@ -334,7 +429,7 @@ describe("Comment Routes", () => {
                 .send({})
                 .expect(400);
                 
-            expect(response.text).toBe("No comment content provided");
+            expect(response.body.error.message).toBe("content is required");
         });
         
         it("should return 404 for non-existent comment ID", async () => {
@@ -346,7 +441,7 @@ describe("Comment Routes", () => {
                 .send({ content: "Updated content" })
                 .expect(404);
                 
-            expect(response.text).toBe("Comment Not Found");
+            expect(response.body.error.message).toBe("Comment Not Found");
         });
         
         it("Block user from editing other user's comment", async () => {
@@ -361,9 +456,156 @@ describe("Comment Routes", () => {
                 .patch(`/comment/${commentId}`)
                 .set({ authorization: `JWT ${accessToken}` })
                 .send({ content: "Updated content" })
-                .expect(400);
+                .expect(403);
                 
-            expect(response.text).toBe("Unauthorized");
+            expect(response.body.error.message).toBe("Forbidden");
+        });
+    });
+
+    describe("Threaded replies", () => {
+        const reply = (parentCommentId: string, content = "A reply") => request
+            .post("/comment")
+            .set({ authorization: `JWT ${accessToken}` })
+            .send({ postId: testComment.postId, parentCommentId, content });
+
+        it("should create a reply one level below its parent", async () => {
+            const parent = await commentModel.create(testComment);
+
+            const response = await reply(parent._id.toString()).expect(200);
+
+            expect(response.body.parentCommentId).toBe(parent._id.toString());
+            expect(response.body.depth).toBe(1);
+        });
+
+        it("should return 400 when the parent comment belongs to another post", async () => {
+            const otherPost = await postModel.create({ title: "Other", content: "Other post", sender: userId });
+            const parent = await commentModel.create({ ...testComment, postId: otherPost._id });
+
+            const response = await reply(parent._id.toString()).expect(400);
+
+            expect(response.body.error.message).toBe("Parent Comment Does Not Exist");
+        });
+
+        it("should return 400 when the maximum depth is exceeded", async () => {
+            const parent = await commentModel.create({ ...testComment, depth: MAX_COMMENT_DEPTH });
+
+            const response = await reply(parent._id.toString()).expect(400);
+
+            expect(response.body.error.message).toBe("Maximum Reply Depth Exceeded");
+        });
+
+        it("should count and list direct replies", async () => {
+            const parent = await commentModel.create(testComment);
+            await reply(parent._id.toString()).expect(200);
+            await reply(parent._id.toString()).expect(200);
+
+            const single = await request
+                .get(`/comment/${parent._id}`)
+                .set({ authorization: `JWT ${accessToken}` })
+                .expect(200);
+            expect(single.body.replyCount).toBe(2);
+
+            const replies = await request
+                .get(`/comment?parentCommentId=${parent._id}`)
+                .set({ authorization: `JWT ${accessToken}` })
+                .expect(200);
+            expect(replies.body.items).toHaveLength(2);
+            expect(replies.body.items[0].replyCount).toBe(0);
+        });
+
+        it("should return the comments of a post as a tree", async () => {
+            const parent = await commentModel.create(testComment);
+            const child = await reply(parent._id.toString()).expect(200);
+            await reply(child.body._id, "A nested reply").expect(200);
+
+            const response = await request
+                .get(`/post/${testComment.postId}/comments`)
+                .set({ authorization: `JWT ${accessToken}` })
+                .expect(200);
+
+            expect(response.body.items).toHaveLength(1);
+            expect(response.body.items[0].replyCount).toBe(1);
+            expect(response.body.items[0].replies[0]._id).toBe(child.body._id);
+            expect(response.body.items[0].replies[0].replies[0].content).toBe("A nested reply");
+        });
+
+        it("should keep a deleted comment with replies as a placeholder", async () => {
+            const parent = await commentModel.create(testComment);
+            await reply(parent._id.toString()).expect(200);
+
+            const response = await request
+                .delete(`/comment/${parent._id}`)
+                .set({ authorization: `JWT ${accessToken}` })
+                .expect(200);
+
+            expect(response.body.deleted).toBe(true);
+            expect(response.body.content).toBe("[deleted]");
+            expect(response.body.sender).toBeNull();
+
+            const tree = await request
+                .get(`/post/${testComment.postId}/comments`)
+                .set({ authorization: `JWT ${accessToken}` })
+                .expect(200);
+            expect(tree.body.items[0].content).toBe("[deleted]");
+            expect(tree.body.items[0].replies).toHaveLength(1);
+
+            await reply(parent._id.toString()).expect(400);
+        });
+
+        it("should remove a placeholder once its last reply is deleted", async () => {
+            const parent = await commentModel.create(testComment);
+            const child = await reply(parent._id.toString()).expect(200);
+
+            await request
+                .delete(`/comment/${parent._id}`)
+                .set({ authorization: `JWT ${accessToken}` })
+                .expect(200);
+            await request
+                .delete(`/comment/${child.body._id}`)
+                .set({ authorization: `JWT ${accessToken}` })
+                .expect(200);
+
+            expect(await commentModel.countDocuments({ postId: testComment.postId })).toBe(0);
         });
     });
-});
\ No newline at end of file
+
+    describe("Moderation", () => {
+        let moderatorToken: string;
+        let commentId: string;
+
+        beforeAll(async () => {
+            const moderator = { username: "moderator", email: "moderator@example.com", password: "moderatorpassword" };
+            const registered = await request.post("/auth/register").send(moderator);
+            await userModel.findByIdAndUpdate(registered.body._id, { role: Role.MODERATOR });
+            const loggedIn = await request
+                .post("/auth/login")
+                .send({ username: moderator.username, password: moderator.password });
+            moderatorToken = loggedIn.body.accessToken;
+        });
+
+        beforeEach(async () => {
+            const comment = await commentModel.create(testComment);
+            commentId = comment._id.toString();
+        });
+
+        it("should let a moderator edit another user's comment", async () => {
+            const response = await request
+                .patch(`/comment/${commentId}`)
+                .set({ authorization: `JWT ${moderatorToken}` })
+                .send({ content: "Moderated content" })
+                .expect(200);
+
+            expect(response.body.content).toBe("Moderated content");
+            expect(response.body.sender).toBe(userId);
+        });
+
+        it("should let a moderator delete another user's comment", async () => {
+            await request
+                .delete(`/comment/${commentId}`)
+                .set({ authorization: `JWT ${moderatorToken}` })
+                .expect(200);
+
+            expect(await commentModel.findById(commentId)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,157 @@
+import supertest from "supertest";
+import mongoose from "mongoose";
+import TestAgent from "supertest/lib/agent";
+import { createApp, Mode, TestableApplication } from "../server/server";
+import postModel from "../models/post";
+import followModel from "../models/follow";
+import { DELETED_USER_ID } from "../controllers/user";
+import { register, TestUser } from "./testUtils";
+
+let app: TestableApplication;
+let request: TestAgent;
+
+let alice: TestUser;
+let bob: TestUser;
+let carol: TestUser;
+
+const follow = (follower: TestUser, following: TestUser) => request
+    .put(`/user/${following._id}/follow`)
+    .set({ authorization: `JWT ${follower.accessToken}` });
+
+const createPost = (sender: TestUser, title: string, createdAt: Date) => postModel.create({ title, content: "content", sender: sender._id, createdAt });
+
+beforeAll(async () => {
+    app = await createApp(Mode.TEST);
+    request = supertest(app);
+
+    alice = await register(request, "alice");
+    bob = await register(request, "bob");
+    carol = await register(request, "carol");
+});
+
+afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await mongoose.connection.close();
+    if (app.close) {
+        await app.close()
+    }
+});
+
+beforeEach(async () => {
+    await followModel.deleteMany({});
+    await postModel.deleteMany({});
+});
+
+describe("Follows", () => {
+    it("should follow a user and ignore following them again", async () => {
+        const first = await follow(alice, bob).expect(200);
+        expect(first.body).toEqual({ following: true, followerCount: 1 });
+
+        const second = await follow(alice, bob).expect(200);
+        expect(second.body).toEqual({ following: true, followerCount: 1 });
+        expect(await followModel.countDocuments()).toBe(1);
+    });
+
+    it("should follow once when the same request arrives twice at once", async () => {
+        const responses = await Promise.all([1, 2, 3].map(() => follow(alice, bob)));
+
+        responses.forEach(response => expect(response.status).toBe(200));
+        expect(await followModel.countDocuments()).toBe(1);
+    });
+
+    it("should unfollow a user and ignore unfollowing them again", async () => {
+        await follow(alice, bob).expect(200);
+        await request.delete(`/user/${bob._id}/follow`).set({ authorization: `JWT ${alice.accessToken}` }).expect(200);
+        const response = await request.delete(`/user/${bob._id}/follow`).set({ authorization: `JWT ${alice.accessToken}` }).expect(200);
+
+        expect(response.body).toEqual({ following: false, followerCount: 0 });
+    });
+
+    it("should not let users follow themselves", async () => {
+        const response = await follow(alice, alice).expect(400);
+
+        expect(response.body.error.code).toBe("VALIDATION_FAILED");
+    });
+
+    it("should return 404 for unknown users and the deleted user placeholder", async () => {
+        await request.put(`/user/${new mongoose.Types.ObjectId()}/follow`).set({ authorization: `JWT ${alice.accessToken}` }).expect(404);
+        await request.put(`/user/${DELETED_USER_ID}/follow`).set({ authorization: `JWT ${alice.accessToken}` }).expect(404);
+        await request.get(`/user/${new mongoose.Types.ObjectId()}/followers`).set({ authorization: `JWT ${alice.accessToken}` }).expect(404);
+    });
+
+    it("should list followers and followed users with counts on the profile", async () => {
+        await follow(alice, carol).expect(200);
+        await follow(bob, carol).expect(200);
+        await follow(carol, alice).expect(200);
+
+        const followers = await request.get(`/user/${carol.username}/followers?sort=oldest`).set({ authorization: `JWT ${alice.accessToken}` }).expect(200);
+        expect(followers.body.items.map((item: { user: { username: string } }) => item.user.username)).toEqual(["alice", "bob"]);
+        expect(followers.body.items[0].user).toEqual({ _id: alice._id, username: "alice", displayName: null, avatarUrl: null });
+
+        const following = await request.get(`/user/${carol._id}/following`).set({ authorization: `JWT ${alice.accessToken}` }).expect(200);
+        expect(following.body.items).toHaveLength(1);
+        expect(following.body.items[0].user.username).toBe("alice");
+
+        const profile = await request.get(`/user/${carol._id}/profile`).set({ authorization: `JWT ${alice.accessToken}` }).expect(200);
+        expect(profile.body).toMatchObject({ followerCount: 2, followingCount: 1 });
+    });
+
+    it("should paginate follower lists", async () => {
+        await follow(alice, carol).expect(200);
+        await follow(bob, carol).expect(200);
+
+        const first = await request.get(`/user/${carol._id}/followers?limit=1`).set({ authorization: `JWT ${alice.accessToken}` }).expect(200);
+        expect(first.body.items).toHaveLength(1);
+        expect(first.body.nextCursor).toEqual(expect.any(String));
+
+        const second = await request
+            .get(`/user/${carol._id}/followers?limit=1&cursor=${first.body.nextCursor}`)
+            .set({ authorization: `JWT ${alice.accessToken}` })
+            .expect(200);
+        expect(second.body.items).toHaveLength(1);
+        expect(second.body.items[0]._id).not.toBe(first.body.items[0]._id);
+        expect(second.body.nextCursor).toBeNull();
+    });
+});
+
+describe("Feed", () => {
+    it("should only contain posts of followed users, newest first", async () => {
+        await follow(alice, bob).expect(200);
+        await follow(alice, carol).expect(200);
+        await createPost(bob, "bob old", new Date("2025-01-01"));
+        await createPost(carol, "carol", new Date("2025-01-02"));
+        await createPost(bob, "bob new", new Date("2025-01-03"));
+        await createPost(alice, "mine", new Date("2025-01-04"));
+
+        const response = await request.get("/feed").set({ authorization: `JWT ${alice.accessToken}` }).expect(200);
+
+        expect(response.body.items.map((post: { title: string }) => post.title)).toEqual(["bob new", "carol", "bob old"]);
+    });
+
+    it("should paginate with a cursor", async () => {
+        await follow(alice, bob).expect(200);
+        for (let day = 1; day <= 3; day++) {
+            await createPost(bob, `post ${day}`, new Date(`2025-01-0${day}`));
+        }
+
+        const first = await request.get("/feed?limit=2").set({ authorization: `JWT ${alice.accessToken}` }).expect(200);
+        expect(first.body.items.map((post: { title: string }) => post.title)).toEqual(["post 3", "post 2"]);
+
+        const second = await request.get(`/feed?limit=2&cursor=${first.body.nextCursor}`).set({ authorization: `JWT ${alice.accessToken}` }).expect(200);
+        expect(second.body.items.map((post: { title: string }) => post.title)).toEqual(["post 1"]);
+        expect(second.body.nextCursor).toBeNull();
+    });
+
+    it("should drop posts of unfollowed users", async () => {
+        await follow(alice, bob).expect(200);
+        await createPost(bob, "bob", new Date("2025-01-01"));
+        await request.delete(`/user/${bob._id}/follow`).set({ authorization: `JWT ${alice.accessToken}` }).expect(200);
+
+        const response = await request.get("/feed").set({ authorization: `JWT ${alice.accessToken}` }).expect(200);
+        expect(response.body).toEqual({ items: [], nextCursor: null });
+    });
+
+    it("should reject sort orders other than newest", async () => {
+        await request.get("/feed?sort=mostLiked").set({ authorization: `JWT ${alice.accessToken}` }).expect(400);
+    });
+});
@@ -0,0 +1,105 @@
+import supertest from "supertest";
+import mongoose from "mongoose";
+import TestAgent from "supertest/lib/agent";
+import { createApp, Mode, TestableApplication } from "../server/server";
+import postModel from "../models/post";
+import commentModel from "../models/comment";
+import { register } from "./testUtils";
+
+let app: TestableApplication;
+let request: TestAgent;
+let accessToken: string;
+
+const auth = () => ({ authorization: `JWT ${accessToken}` });
+
+const createPost = async (content: string) => {
+    return (await request.post("/post").set(auth()).send({ title: "title", content }).expect(200)).body;
+}
+
+beforeAll(async () => {
+    app = await createApp(Mode.TEST);
+    request = supertest(app);
+
+    accessToken = (await register(request, "writer")).accessToken;
+});
+
+afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await mongoose.connection.close();
+    if (app.close) {
+        await app.close()
+    }
+});
+
+beforeEach(async () => {
+    await postModel.deleteMany({});
+    await commentModel.deleteMany({});
+});
+
+describe("Markdown content", () => {
+    it("should return the rendered HTML alongside the source", async () => {
+        const content = "Some **bold** and _italic_ text\n\n- one\n- two\n\n`code`";
+        const post = await createPost(content);
+
+        expect(post.content).toBe(content);
+        expect(post.contentHtml).toBe("<p>Some <strong>bold</strong> and <em>italic</em> text</p>\n<ul>\n<li>one</li>\n<li>two</li>\n</ul>\n<p><code>code</code></p>\n");
+
+        const fetched = await request.get(`/post/${post._id}`).set(auth()).expect(200);
+        expect(fetched.body.contentHtml).toBe(post.contentHtml);
+    });
+
+    it("should escape raw HTML and leave unsupported syntax as text", async () => {
+        const post = await createPost("<script>alert(1)</script> <img src=x onerror=alert(1)>\n\n# Heading");
+
+        expect(post.contentHtml).not.toContain("<script");
+        expect(post.contentHtml).not.toContain("<img");
+        expect(post.contentHtml).toContain("&lt;script&gt;");
+        expect(post.contentHtml).toContain("<p># Heading</p>");
+    });
+
+    it("should only link to safe URLs, opening them in a new tab", async () => {
+        const post = await createPost("[safe](https://example.com) [unsafe](javascript:alert(1)) [data](data:text/html,hi)");
+
+        expect(post.contentHtml).toContain('<a href="https://example.com" rel="nofollow noopener noreferrer" target="_blank">safe</a>');
+        expect(post.contentHtml).not.toContain('href="javascript:');
+        expect(post.contentHtml).not.toContain('href="data:');
+    });
+
+    it("should link bare URLs", async () => {
+        const post = await createPost("see www.example.com and https://example.org/page.");
+
+        expect(post.contentHtml).toBe('<p>see <a href="http://www.example.com" rel="nofollow noopener noreferrer" target="_blank">www.example.com</a>'
+            + ' and <a href="https://example.org/page" rel="nofollow noopener noreferrer" target="_blank">https://example.org/page</a>.</p>\n');
+    });
+
+    it("should render the content again when a post or comment is edited", async () => {
+        const post = await createPost("*before*");
+        const updated = await request.put(`/post/${post._id}`).set(auth()).send({ title: "title", content: "**after**" }).expect(200);
+        expect(updated.body.contentHtml).toBe("<p><strong>after</strong></p>\n");
+
+        const comment = (await request.post("/comment").set(auth()).send({ postId: post._id, content: "*before*" }).expect(200)).body;
+        expect(comment.contentHtml).toBe("<p><em>before</em></p>\n");
+        const edited = await request.patch(`/comment/${comment._id}`).set(auth()).send({ content: "~~after~~" }).expect(200);
+        expect(edited.body.contentHtml).toBe("<p><s>after</s></p>\n");
+    });
+
+    it("should replace the HTML of a deleted comment that keeps its replies", async () => {
+        const post = await createPost("post");
+        const comment = (await request.post("/comment").set(auth()).send({ postId: post._id, content: "**secret**" }).expect(200)).body;
+        await request.post("/comment").set(auth()).send({ postId: post._id, parentCommentId: comment._id, content: "reply" }).expect(200);
+
+        await request.delete(`/comment/${comment._id}`).set(auth()).expect(200);
+
+        const kept = await request.get(`/comment/${comment._id}`).set(auth()).expect(200);
+        expect(kept.body.contentHtml).not.toContain("secret");
+        expect(kept.body.contentHtml).toBe(`<p>${kept.body.content}</p>\n`);
+    });
+
+    it("should render content stored before Markdown was supported", async () => {
+        const post = await createPost("post");
+        await postModel.updateOne({ _id: post._id }, { $unset: { contentHtml: 1 } });
+
+        const fetched = await request.get(`/post/${post._id}`).set(auth()).expect(200);
+        expect(fetched.body.contentHtml).toBe("<p>post</p>\n");
+    });
+});
@@ -0,0 +1,125 @@
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { createHash, generateKeyPairSync, randomBytes } from "crypto";
+import jwt from "jsonwebtoken";
+import { OidcProvider } from "../utils/oidc";
+
+export interface MockProfile {
+    sub: string,
+    email?: string,
+    email_verified?: boolean,
+    preferred_username?: string
+}
+
+interface PendingCode {
+    profile: MockProfile,
+    clientId: string,
+    redirectUri: string,
+    nonce: string,
+    codeChallenge: string
+}
+
+const KEY_ID = 'mock-key';
+
+/**
+ * A minimal OpenID Connect provider for tests. Instead of showing a login page, the
+ * authorization endpoint immediately redirects with a code for the profile passed
+ * to `authorize`. The token endpoint checks the client, redirect URI and PKCE
+ * verifier like a real provider and returns a signed ID token.
+ */
+export const createMockIdentityProvider = async (name = 'mock') => {
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const codes = new Map<string, PendingCode>();
+    let nextProfile: MockProfile | null = null;
+
+    const app = express();
+    app.use(express.urlencoded({ extended: false }));
+
+    const server: Server = await new Promise(resolve => {
+        const listening = app.listen(0, () => resolve(listening));
+    });
+    const issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const provider: OidcProvider = {
+        name,
+        issuer,
+        clientId: 'mock-client',
+        clientSecret: 'mock-secret',
+        redirectUri: 'http://localhost:3000/login/callback'
+    };
+
+    app.get('/.well-known/openid-configuration', (req, res) => {
+        res.send({
+            issuer,
+            authorization_endpoint: `${issuer}/authorize`,
+            token_endpoint: `${issuer}/token`,
+            jwks_uri: `${issuer}/jwks`
+        });
+    });
+
+    app.get('/jwks', (req, res) => {
+        res.send({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' }] });
+    });
+
+    app.get('/authorize', (req, res) => {
+        const query = req.query as Record<string, string>;
+
+        if (!nextProfile || query.client_id !== provider.clientId || query.code_challenge_method !== 'S256') {
+            return res.status(400).send({ error: 'invalid_request' });
+        }
+
+        const code = randomBytes(16).toString('hex');
+        codes.set(code, {
+            profile: nextProfile,
+            clientId: query.client_id,
+            redirectUri: query.redirect_uri,
+            nonce: query.nonce,
+            codeChallenge: query.code_challenge
+        });
+
+        const redirect = new URL(query.redirect_uri);
+        redirect.searchParams.set('code', code);
+        redirect.searchParams.set('state', query.state);
+        res.redirect(302, redirect.toString());
+    });
+
+    app.post('/token', (req, res) => {
+        const pending = codes.get(req.body.code);
+        codes.delete(req.body.code);
+
+        const verifierChallenge = createHash('sha256').update(String(req.body.code_verifier)).digest('base64url');
+        const valid = pending
+            && req.body.client_id === provider.clientId
+            && req.body.client_secret === provider.clientSecret
+            && req.body.redirect_uri === pending.redirectUri
+            && verifierChallenge === pending.codeChallenge;
+
+        if (!valid) {
+            return res.status(400).send({ error: 'invalid_grant' });
+        }
+
+        const idToken = jwt.sign({ ...pending.profile, nonce: pending.nonce }, privateKey, {
+            algorithm: 'RS256',
+            keyid: KEY_ID,
+            issuer,
+            audience: provider.clientId,
+            expiresIn: '5m'
+        });
+
+        res.send({ access_token: randomBytes(16).toString('hex'), token_type: 'Bearer', id_token: idToken });
+    });
+
+    return {
+        provider,
+        // Logs in at the provider as `profile` and returns what it redirects back with.
+        authorize: async (authorizationUrl: string, profile: MockProfile) => {
+            nextProfile = profile;
+            const response = await fetch(authorizationUrl, { redirect: 'manual' });
+            const location = new URL(response.headers.get('location')!);
+
+            return { code: location.searchParams.get('code')!, state: location.searchParams.get('state')! };
+        },
+        close: () => new Promise<void>(resolve => server.close(() => resolve()))
+    };
+}
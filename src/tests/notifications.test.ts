@@ -0,0 +1,201 @@
+import supertest from "supertest";
+import mongoose from "mongoose";
+import TestAgent from "supertest/lib/agent";
+import { createApp, Mode, TestableApplication } from "../server/server";
+import postModel from "../models/post";
+import commentModel from "../models/comment";
+import notificationModel from "../models/notification";
+import followModel from "../models/follow";
+import userModel from "../models/user";
+import { register, TestUser } from "./testUtils";
+
+let app: TestableApplication;
+let request: TestAgent;
+
+let author: TestUser;
+let commenter: TestUser;
+let bystander: TestUser;
+
+const auth = (user: TestUser) => ({ authorization: `JWT ${user.accessToken}` });
+
+const createPost = async (user: TestUser, content = "content") => {
+    return (await request.post("/post").set(auth(user)).send({ title: "title", content }).expect(200)).body;
+}
+
+const comment = async (user: TestUser, postId: string, content: string, parentCommentId?: string) => {
+    return (await request.post("/comment").set(auth(user)).send({ postId, content, parentCommentId }).expect(200)).body;
+}
+
+const notificationsOf = async (user: TestUser, query = "") => {
+    return (await request.get(`/notification${query}`).set(auth(user)).expect(200)).body;
+}
+
+beforeAll(async () => {
+    app = await createApp(Mode.TEST);
+    request = supertest(app);
+
+    author = await register(request, "author");
+    commenter = await register(request, "commenter");
+    bystander = await register(request, "bystander");
+});
+
+afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await mongoose.connection.close();
+    if (app.close) {
+        await app.close()
+    }
+});
+
+beforeEach(async () => {
+    await postModel.deleteMany({});
+    await commentModel.deleteMany({});
+    await notificationModel.deleteMany({});
+    await followModel.deleteMany({});
+    await userModel.updateMany({}, { $unset: { notificationPreferences: 1 } });
+});
+
+describe("Notification events", () => {
+    it("should notify the author of a comment on their post", async () => {
+        const post = await createPost(author);
+        const created = await comment(commenter, post._id, "Nice post");
+
+        const response = await notificationsOf(author);
+        expect(response.unreadCount).toBe(1);
+        expect(response.items).toHaveLength(1);
+        expect(response.items[0]).toMatchObject({
+            type: "comment",
+            actor: { _id: commenter._id, username: "commenter" },
+            postId: post._id,
+            commentId: created._id,
+            read: false
+        });
+    });
+
+    it("should not notify users of their own actions", async () => {
+        const post = await createPost(author);
+        await comment(author, post._id, "Replying to myself");
+
+        expect((await notificationsOf(author)).items).toEqual([]);
+    });
+
+    it("should notify the parent comment's author of a reply, once", async () => {
+        const post = await createPost(author);
+        const parent = await comment(bystander, post._id, "First");
+        await notificationModel.deleteMany({});
+
+        await comment(commenter, post._id, "Reply @bystander", parent._id);
+
+        const bystanderNotifications = await notificationsOf(bystander);
+        expect(bystanderNotifications.items.map((item: { type: string }) => item.type)).toEqual(["reply"]);
+        expect((await notificationsOf(author)).items.map((item: { type: string }) => item.type)).toEqual(["comment"]);
+    });
+
+    it("should notify mentioned users in posts and comments", async () => {
+        const post = await createPost(author, "Hello @bystander and @nobody");
+        await comment(commenter, post._id, "cc @bystander");
+
+        const response = await notificationsOf(bystander);
+        expect(response.items.map((item: { type: string }) => item.type)).toEqual(["mention", "mention"]);
+        expect(response.items[1]).toMatchObject({ actor: { username: "author" }, postId: post._id, commentId: null });
+    });
+
+    it("should only notify users newly mentioned by an edit", async () => {
+        const post = await createPost(author, "Hello @bystander");
+        await request.put(`/post/${post._id}`).set(auth(author)).send({ title: "title", content: "Hello @bystander and @commenter" }).expect(200);
+
+        expect((await notificationsOf(bystander)).items).toHaveLength(1);
+        expect((await notificationsOf(commenter)).items.map((item: { type: string }) => item.type)).toEqual(["mention"]);
+    });
+
+    it("should notify a user of a new follower only once", async () => {
+        await request.put(`/user/${author._id}/follow`).set(auth(commenter)).expect(200);
+        await request.put(`/user/${author._id}/follow`).set(auth(commenter)).expect(200);
+
+        const response = await notificationsOf(author);
+        expect(response.items).toHaveLength(1);
+        expect(response.items[0]).toMatchObject({ type: "follow", actor: { _id: commenter._id }, postId: null });
+    });
+
+    it("should remove notifications about deleted posts", async () => {
+        const post = await createPost(author);
+        await comment(commenter, post._id, "Nice post");
+
+        await request.delete(`/post/${post._id}`).set(auth(author)).expect(200);
+        expect(await notificationModel.countDocuments()).toBe(0);
+    });
+});
+
+describe("Reading notifications", () => {
+    it("should mark one notification as read", async () => {
+        const post = await createPost(author);
+        await comment(commenter, post._id, "One");
+        await comment(commenter, post._id, "Two");
+        const [latest] = (await notificationsOf(author)).items;
+
+        const response = await request.post(`/notification/${latest._id}/read`).set(auth(author)).expect(200);
+        expect(response.body).toEqual({ unreadCount: 1 });
+
+        const unread = await notificationsOf(author, "?unread=true");
+        expect(unread.items).toHaveLength(1);
+        expect(unread.items[0]._id).not.toBe(latest._id);
+    });
+
+    it("should not let users read other users' notifications", async () => {
+        const post = await createPost(author);
+        await comment(commenter, post._id, "Hidden");
+        const [notification] = (await notificationsOf(author)).items;
+
+        await request.post(`/notification/${notification._id}/read`).set(auth(bystander)).expect(404);
+        expect((await notificationsOf(bystander)).items).toEqual([]);
+    });
+
+    it("should mark all notifications as read", async () => {
+        const post = await createPost(author);
+        await comment(commenter, post._id, "One");
+        await comment(bystander, post._id, "Two");
+
+        expect((await request.get("/notification/unreadCount").set(auth(author)).expect(200)).body).toEqual({ unreadCount: 2 });
+        const response = await request.post("/notification/readAll").set(auth(author)).expect(200);
+        expect(response.body).toEqual({ unreadCount: 0 });
+        expect((await notificationsOf(author, "?unread=false")).items).toHaveLength(2);
+    });
+
+    it("should paginate notifications", async () => {
+        const post = await createPost(author);
+        for (const content of ["One", "Two", "Three"]) {
+            await comment(commenter, post._id, content);
+        }
+
+        const first = await notificationsOf(author, "?limit=2");
+        expect(first.items).toHaveLength(2);
+
+        const second = await notificationsOf(author, `?limit=2&cursor=${first.nextCursor}`);
+        expect(second.items).toHaveLength(1);
+        expect(second.nextCursor).toBeNull();
+    });
+});
+
+describe("Notification preferences", () => {
+    it("should default to every type turned on", async () => {
+        const response = await request.get("/notification/preferences").set(auth(author)).expect(200);
+
+        expect(response.body).toEqual({ comment: true, reply: true, mention: true, follow: true });
+    });
+
+    it("should stop notifications of turned off types", async () => {
+        const response = await request.patch("/notification/preferences").set(auth(author)).send({ comment: false }).expect(200);
+        expect(response.body).toEqual({ comment: false, reply: true, mention: true, follow: true });
+
+        const post = await createPost(author);
+        await comment(commenter, post._id, "Nobody hears this");
+        await request.put(`/user/${author._id}/follow`).set(auth(commenter)).expect(200);
+
+        expect((await notificationsOf(author)).items.map((item: { type: string }) => item.type)).toEqual(["follow"]);
+    });
+
+    it("should require at least one preference", async () => {
+        await request.patch("/notification/preferences").set(auth(author)).send({}).expect(400);
+        await request.patch("/notification/preferences").set(auth(author)).send({ digest: true }).expect(400);
+    });
+});
@@ -0,0 +1,240 @@
+import supertest from "supertest";
+import mongoose from "mongoose";
+import TestAgent from "supertest/lib/agent";
+import { createApp, Mode, TestableApplication } from "../server/server";
+import userModel from "../models/user";
+import identityModel from "../models/identity";
+import { setOidcProviders } from "../utils/oidc";
+import { linkIdentity } from "../controllers/identity";
+import { ConflictError } from "../utils/errors";
+import env from "../utils/env";
+import { createMockIdentityProvider, MockProfile } from "./mockIdentityProvider";
+
+let app: TestableApplication;
+let request: TestAgent;
+// Keeps the state cookie a login is started with, like the browser completing it would.
+let browser: TestAgent;
+let mock: Awaited<ReturnType<typeof createMockIdentityProvider>>;
+
+const localUser = {
+    username: "localuser",
+    email: "localuser@example.com",
+    password: "localpassword123"
+};
+
+const newProfile: MockProfile = {
+    sub: "mock-1",
+    email: "social@example.com",
+    email_verified: true,
+    preferred_username: "social user"
+};
+
+// Runs the whole redirect flow at the mock provider and returns what the client posts back.
+const authorize = async (profile: MockProfile, path = "/auth/oidc/mock/authorize", token?: string) => {
+    const started = browser.post(path);
+    if (token) started.set({ authorization: `JWT ${token}` });
+
+    const { authorizationUrl } = (await started.expect(200)).body;
+    return await mock.authorize(authorizationUrl, profile);
+}
+
+const oidcLogin = async (profile: MockProfile) => {
+    return await browser.post("/auth/oidc/mock/callback").send(await authorize(profile));
+}
+
+beforeAll(async () => {
+    app = await createApp(Mode.TEST)
+    request = supertest(app);
+    // Supertest only sends Secure cookies over HTTPS.
+    env.COOKIE_SECURE = false;
+    browser = supertest.agent(app);
+    mock = await createMockIdentityProvider();
+    setOidcProviders([mock.provider]);
+});
+
+afterAll(async () => {
+    env.COOKIE_SECURE = true;
+    setOidcProviders([]);
+    await mock.close();
+    await mongoose.connection.dropDatabase();
+    await mongoose.connection.close();
+    if (app.close) {
+        await app.close()
+    }
+});
+
+describe("OpenID Connect login", () => {
+    it("should list the configured providers", async () => {
+        const response = await request.get("/auth/oidc/providers").expect(200);
+        expect(response.body).toEqual([{ name: "mock" }]);
+    });
+
+    it("should return 404 for unknown providers", async () => {
+        await request.post("/auth/oidc/unknown/authorize").expect(404);
+    });
+
+    it("should send a PKCE challenge to the provider", async () => {
+        const response = await request.post("/auth/oidc/mock/authorize").expect(200);
+        const url = new URL(response.body.authorizationUrl);
+
+        expect(url.origin).toBe(mock.provider.issuer);
+        expect(url.searchParams.get("code_challenge_method")).toBe("S256");
+        expect(url.searchParams.get("code_challenge")).toBeTruthy();
+        expect(url.searchParams.get("state")).toBeTruthy();
+        expect(url.searchParams.get("nonce")).toBeTruthy();
+    });
+
+    it("should create an account for a new identity", async () => {
+        const response = await oidcLogin(newProfile);
+        expect(response.status).toBe(200);
+        expect(response.body.accessToken).toBeDefined();
+
+        const user = await userModel.findOne({ email: newProfile.email });
+        expect(user!.username).toBe("socialuser");
+        expect(user!.emailVerified).toBe(true);
+        expect(await identityModel.countDocuments({ user: user!._id })).toBe(1);
+    });
+
+    it("should log in to the same account again", async () => {
+        const response = await oidcLogin(newProfile);
+        expect(response.status).toBe(200);
+        expect(await userModel.countDocuments({ email: newProfile.email })).toBe(1);
+    });
+
+    it("should not let the password of a social account match anything", async () => {
+        await request.post("/auth/login").send({ username: "socialuser", password: "!" }).expect(400);
+    });
+
+    it("should reject a reused state", async () => {
+        const callback = await authorize(newProfile);
+        await browser.post("/auth/oidc/mock/callback").send(callback).expect(200);
+
+        const response = await browser.post("/auth/oidc/mock/callback").send(callback).expect(400);
+        expect(response.body.error.code).toBe("INVALID_TOKEN");
+    });
+
+    it("should set the state cookie only for the login path", async () => {
+        const response = await request.post("/auth/oidc/mock/authorize").expect(200);
+        const cookie = ([] as string[]).concat(response.headers["set-cookie"] ?? []).find(header => header.startsWith("oidcState="));
+
+        expect(cookie).toMatch(/HttpOnly/);
+        expect(cookie).toMatch(/Path=\/auth\/oidc/);
+    });
+
+    it("should reject a callback from a browser that did not start the login", async () => {
+        const callback = await authorize(newProfile);
+
+        const response = await request.post("/auth/oidc/mock/callback").send(callback).expect(400);
+        expect(response.body.error.code).toBe("INVALID_TOKEN");
+
+        // The state is not used up, so the browser that started the login can still complete it.
+        await browser.post("/auth/oidc/mock/callback").send(callback).expect(200);
+    });
+
+    it("should reject a code the provider did not issue", async () => {
+        const { state } = await authorize(newProfile);
+
+        const response = await browser.post("/auth/oidc/mock/callback").send({ code: "forged", state }).expect(400);
+        expect(response.body.error.code).toBe("OIDC_LOGIN_FAILED");
+    });
+
+    it("should reject identities without a verified email", async () => {
+        const response = await oidcLogin({ sub: "mock-2", email: "unverified@example.com", email_verified: false });
+        expect(response.status).toBe(400);
+        expect(response.body.error.message).toBe("Email Not Verified By Provider");
+    });
+
+    it("should not link to an account that has not verified its email", async () => {
+        await request.post("/auth/register").send(localUser).expect(200);
+
+        const response = await oidcLogin({ sub: "mock-3", email: localUser.email, email_verified: true });
+        expect(response.status).toBe(400);
+        expect(response.body.error.code).toBe("DUPLICATE_RESOURCE");
+    });
+
+    it("should link to an existing account with the same verified email", async () => {
+        await userModel.updateOne({ email: localUser.email }, { emailVerified: true });
+
+        const response = await oidcLogin({ sub: "mock-3", email: localUser.email, email_verified: true });
+        expect(response.status).toBe(200);
+
+        const user = await userModel.findOne({ email: localUser.email });
+        expect(await identityModel.countDocuments({ user: user!._id })).toBe(1);
+    });
+});
+
+describe("Linked identities", () => {
+    let accessToken: string;
+
+    beforeAll(async () => {
+        accessToken = (await request.post("/auth/login").send({ username: localUser.username, password: localUser.password }).expect(200)).body.accessToken;
+    });
+
+    it("should link another identity with a different email", async () => {
+        const callback = await authorize({ sub: "mock-4", email: "work@example.com", email_verified: false }, "/auth/identities/mock/authorize", accessToken);
+
+        const response = await request.post("/auth/identities/mock/callback")
+            .set({ authorization: `JWT ${accessToken}` })
+            .send(callback)
+            .expect(200);
+        expect(response.body.provider).toBe("mock");
+        expect(response.body.email).toBe("work@example.com");
+
+        const identities = await request.get("/auth/identities").set({ authorization: `JWT ${accessToken}` }).expect(200);
+        expect(identities.body).toHaveLength(2);
+
+        const login = await oidcLogin({ sub: "mock-4" });
+        expect(login.status).toBe(200);
+    });
+
+    it("should not complete a link started by another user", async () => {
+        const other = (await oidcLogin(newProfile)).body.accessToken;
+        const callback = await authorize({ sub: "mock-5" }, "/auth/identities/mock/authorize", other);
+
+        await request.post("/auth/identities/mock/callback")
+            .set({ authorization: `JWT ${accessToken}` })
+            .send(callback)
+            .expect(400);
+        // Nor can a link be completed as a login.
+        await request.post("/auth/oidc/mock/callback").send(callback).expect(400);
+    });
+
+    it("should not link an identity that is already linked", async () => {
+        const callback = await authorize(newProfile, "/auth/identities/mock/authorize", accessToken);
+
+        const response = await request.post("/auth/identities/mock/callback")
+            .set({ authorization: `JWT ${accessToken}` })
+            .send(callback)
+            .expect(409);
+        expect(response.body.error.message).toBe("Identity Already Linked");
+    });
+
+    it("should link an identity only once when two links race", async () => {
+        const user = await userModel.findOne({ username: localUser.username });
+        const claims = { subject: "mock-race", email: "race@example.com", emailVerified: true };
+        await identityModel.init();
+
+        const results = await Promise.allSettled([1, 2].map(() => linkIdentity(user!._id, "mock", claims)));
+
+        expect(results.filter(result => result.status === "fulfilled")).toHaveLength(1);
+        const [failed] = results.filter(result => result.status === "rejected");
+        expect((failed as PromiseRejectedResult).reason).toBeInstanceOf(ConflictError);
+        expect(await identityModel.countDocuments({ subject: "mock-race" })).toBe(1);
+        await identityModel.deleteOne({ subject: "mock-race" });
+    });
+
+    it("should unlink an identity", async () => {
+        const identities = (await request.get("/auth/identities").set({ authorization: `JWT ${accessToken}` })).body;
+
+        await request.delete(`/auth/identities/${identities[0]._id}`).set({ authorization: `JWT ${accessToken}` }).expect(200);
+        await request.delete(`/auth/identities/${identities[0]._id}`).set({ authorization: `JWT ${accessToken}` }).expect(404);
+    });
+
+    it("should keep the only way to log in to an account without a password", async () => {
+        const socialToken = (await oidcLogin(newProfile)).body.accessToken;
+        const [identity] = (await request.get("/auth/identities").set({ authorization: `JWT ${socialToken}` })).body;
+
+        const response = await request.delete(`/auth/identities/${identity._id}`).set({ authorization: `JWT ${socialToken}` }).expect(400);
+        expect(response.body.error.code).toBe("LAST_LOGIN_METHOD");
+    });
+});
@@ -1,6 +1,8 @@
 import supertest from "supertest";
 import mongoose from "mongoose";
 import postModel from "../models/post";
+import commentModel from "../models/comment";
+import userModel, { Role } from "../models/user";
 import TestAgent from "supertest/lib/agent";
 import { createApp, Mode, TestableApplication } from "../server/server";
 
@@ -32,7 +34,7 @@ beforeAll(async () => {
     // Create test user
     const registerUser = await request.post("/auth/register").send(testUser);
     userId = registerUser.body._id.toString();
-    const loggedInUser = await request.post("/auth/login").send(testUser);
+    const loggedInUser = await request.post("/auth/login").send({ username: testUser.username, password: testUser.password });
     accessToken = loggedInUser.body.accessToken;
 });
 
@@ -46,6 +48,7 @@ afterAll(async () => {
 
 beforeEach(async () => {
     await postModel.deleteMany({});
+    await commentModel.deleteMany({});
 });
 
 describe("Create Post", () => {
@@ -63,13 +66,21 @@ describe("Create Post", () => {
     it("should return 400 when body is missing", async () => {
         const response = await request.post("/post").set({authorization: `JWT ${accessToken}`}).expect(400);
             
-        expect(response.text).toBe("Missing Body");
+        expect(response.body.error.code).toBe("MISSING_BODY");
+        expect(response.body.error.message).toBe("Missing Body");
     });
     
     it("should return 400 when field is missing", async () => {
         const response = await request.post("/post").set({authorization: `JWT ${accessToken}`}).send(badPost).expect(400);
             
-        expect(response.text).toBe("Invalid Post");
+        expect(response.body.error.code).toBe("VALIDATION_FAILED");
+        expect(response.body.error.message).toBe("content is required");
+    });
+
+    it("should return 400 when title is too long", async () => {
+        const response = await request.post("/post").set({authorization: `JWT ${accessToken}`}).send({ ...testPost, title: "a".repeat(201) }).expect(400);
+
+        expect(response.body.error.message).toBe("title must be at most 200 characters");
     });
 })
 
@@ -89,21 +100,69 @@ describe("Get Posts", () => {
 
     it("should return all posts", async () => {
         const response = await request.get("/post").set({authorization: `JWT ${accessToken}`}).expect(200);
-        expect(Array.isArray(response.body)).toBe(true);
-        expect(response.body.length).toBe(3);
+        expect(Array.isArray(response.body.items)).toBe(true);
+        expect(response.body.items.length).toBe(3);
+        expect(response.body.nextCursor).toBeNull();
     });
     
     it("should return posts by sender", async () => {
         const response = await request.get(`/post?sender=${userId}`).set({authorization: `JWT ${accessToken}`}).expect(200);
-        expect(Array.isArray(response.body)).toBe(true);
-        expect(response.body.length).toBe(2);
+        expect(Array.isArray(response.body.items)).toBe(true);
+        expect(response.body.items.length).toBe(2);
     });
     
     it("should return empty array when no posts from sender", async () => {
         const nonExistentUserId = new mongoose.Types.ObjectId().toString();
         const response = await request.get(`/post?sender=${nonExistentUserId}`).set({authorization: `JWT ${accessToken}`}).expect(200);
-        expect(Array.isArray(response.body)).toBe(true);
-        expect(response.body.length).toBe(0);
+        expect(Array.isArray(response.body.items)).toBe(true);
+        expect(response.body.items.length).toBe(0);
+    });
+
+    it("should page through posts with a cursor", async () => {
+        const firstPage = await request.get("/post?limit=2").set({authorization: `JWT ${accessToken}`}).expect(200);
+        expect(firstPage.body.items.length).toBe(2);
+        expect(firstPage.body.nextCursor).toBeTruthy();
+
+        const secondPage = await request.get(`/post?limit=2&cursor=${firstPage.body.nextCursor}`).set({authorization: `JWT ${accessToken}`}).expect(200);
+        expect(secondPage.body.items.length).toBe(1);
+        expect(secondPage.body.nextCursor).toBeNull();
+
+        const ids = [...firstPage.body.items, ...secondPage.body.items].map((post: { _id: string }) => post._id);
+        expect(new Set(ids).size).toBe(3);
+    });
+
+    it("should sort posts from oldest to newest", async () => {
+        const response = await request.get("/post?sort=oldest").set({authorization: `JWT ${accessToken}`}).expect(200);
+        const dates = response.body.items.map((post: { createdAt: string }) => new Date(post.createdAt).getTime());
+        expect(dates).toEqual([...dates].sort((a, b) => a - b));
+    });
+
+    it("should sort posts by comment count", async () => {
+        const secretPost = await postModel.findOne({ title: "secret post" });
+        await commentModel.create([
+            { postId: secretPost?._id, sender: userId, content: "first" },
+            { postId: secretPost?._id, sender: userId, content: "second" }
+        ]);
+
+        const response = await request.get("/post?sort=mostCommented").set({authorization: `JWT ${accessToken}`}).expect(200);
+        expect(response.body.items[0]._id).toBe(secretPost?._id.toString());
+        expect(response.body.items[0].commentCount).toBe(2);
+    });
+
+    it("should filter posts by date range", async () => {
+        const future = new Date(Date.now() + 60 * 1000).toISOString();
+        const response = await request.get(`/post?from=${future}`).set({authorization: `JWT ${accessToken}`}).expect(200);
+        expect(response.body.items.length).toBe(0);
+    });
+
+    it("should return 400 for invalid query parameters", async () => {
+        const badLimit = await request.get("/post?limit=0").set({authorization: `JWT ${accessToken}`}).expect(400);
+        expect(badLimit.body.error.message).toBe("Invalid limit");
+        const badSort = await request.get("/post?sort=random").set({authorization: `JWT ${accessToken}`}).expect(400);
+        expect(badSort.body.error.message).toBe("Invalid sort");
+        const badCursor = await request.get("/post?cursor=notacursor").set({authorization: `JWT ${accessToken}`}).expect(400);
+        expect(badCursor.body.error.message).toBe("Invalid Cursor");
+        expect(badCursor.body.error.code).toBe("INVALID_QUERY");
     });
 })
 
@@ -120,17 +179,19 @@ describe("Get Post By Id", () => {
         expect(response.body).toBeDefined();
         expect(response.body._id).toBe(postId);
         expect(response.body.content).toBe(testPost.content);
+        expect(response.body.sender).toBe(userId);
+        expect(response.body.__v).toBeUndefined();
     });
     
     it("Invalid post ID format", async () => {
         const response = await request.get("/post/invalid-id").set({authorization: `JWT ${accessToken}`}).expect(400);
-        expect(response.text).toBe("Invalid Post Id");
+        expect(response.body.error.message).toBe("Invalid Post Id");
     });
     
     it("Non-existent post ID", async () => {
         const nonExistentId = new mongoose.Types.ObjectId().toString();
         const response = await request.get(`/post/${nonExistentId}`).set({authorization: `JWT ${accessToken}`}).expect(404);
-        expect(response.text).toBe("Post Not Found");
+        expect(response.body.error.message).toBe("Post Not Found");
     });
 })
 
@@ -163,17 +224,17 @@ describe("Update Post By Id", () => {
             content: "Updated post content"
         };
         const response = await request.put("/post/invalid-id").set({authorization: `JWT ${accessToken}`}).send(updatedPost).expect(400);
-        expect(response.text).toBe("Invalid Post Id");
+        expect(response.body.error.message).toBe("Invalid Post Id");
     });
     
     it("should return 400 when body is missing", async () => {
         const response = await request.put(`/post/${postId}`).set({authorization: `JWT ${accessToken}`}).expect(400);
-        expect(response.text).toBe("Missing Body");
+        expect(response.body.error.message).toBe("Missing Body");
     });
     
     it("should return 400 when field is missing in body", async () => {
         const response = await request.put(`/post/${postId}`).set({authorization: `JWT ${accessToken}`}).send({}).expect(400);
-        expect(response.text).toBe("Invalid Post");
+        expect(response.body.error.message).toBe("title is required");
     });
     
     it("should return 404 for non-existent post ID", async () => {
@@ -183,7 +244,7 @@ describe("Update Post By Id", () => {
         };
         const nonExistentId = new mongoose.Types.ObjectId().toString();
         const response = await request.put(`/post/${nonExistentId}`).set({authorization: `JWT ${accessToken}`}).send(updatedPost).expect(404);
-        expect(response.text).toBe("Post Not Found");
+        expect(response.body.error.message).toBe("Post Not Found");
     });
 
     it("Block user from editing other user's post", async () => {
@@ -194,8 +255,94 @@ describe("Update Post By Id", () => {
         const nonExistentId = new mongoose.Types.ObjectId().toString();
         const post = await postModel.create({ ...testPost, sender: nonExistentId });
         postId = post._id.toString();
-        const response = await request.put(`/post/${postId}`).set({authorization: `JWT ${accessToken}`}).send(updatedPost).expect(400);
-        expect(response.text).toBe("Unauthorized");
+        const response = await request.put(`/post/${postId}`).set({authorization: `JWT ${accessToken}`}).send(updatedPost).expect(403);
+        expect(response.body.error.message).toBe("Forbidden");
     });
     
-})
\ No newline at end of file
+})
+
+describe("Delete Post By Id", () => {
+    let postId: string;
+        
+    beforeEach(async () => {
+        const post = await postModel.create({ ...testPost, sender: userId });
+        postId = post._id.toString();
+    });
+    
+    it("delete post and its comments", async () => {
+        const otherPost = await postModel.create({ ...testPost, sender: userId });
+        await commentModel.create([
+            { postId, sender: userId, content: "first comment" },
+            { postId, sender: new mongoose.Types.ObjectId(), content: "second comment" },
+            { postId: otherPost._id, sender: userId, content: "unrelated comment" }
+        ]);
+
+        const response = await request.delete(`/post/${postId}`).set({authorization: `JWT ${accessToken}`}).expect(200);
+        expect(response.body._id).toBe(postId);
+
+        expect(await postModel.findById(postId)).toBeNull();
+        expect(await commentModel.countDocuments({ postId })).toBe(0);
+        expect(await commentModel.countDocuments({ postId: otherPost._id })).toBe(1);
+    });
+    
+    it("should not leave comments behind that are added while the post is deleted", async () => {
+        const comments = [1, 2, 3].map(index => request.post("/comment")
+            .set({authorization: `JWT ${accessToken}`})
+            .send({ postId, content: `racing comment ${index}` }));
+        const [deleted, ...created] = await Promise.all([request.delete(`/post/${postId}`).set({authorization: `JWT ${accessToken}`}), ...comments]);
+
+        expect(deleted.status).toBe(200);
+        created.forEach(response => expect([200, 400]).toContain(response.status));
+        expect(await commentModel.countDocuments({ postId })).toBe(0);
+    });
+
+    it("should return 400 for invalid post ID format", async () => {
+        const response = await request.delete("/post/invalid-id").set({authorization: `JWT ${accessToken}`}).expect(400);
+        expect(response.body.error.message).toBe("Invalid Post Id");
+    });
+    
+    it("should return 404 for non-existent post ID", async () => {
+        const nonExistentId = new mongoose.Types.ObjectId().toString();
+        const response = await request.delete(`/post/${nonExistentId}`).set({authorization: `JWT ${accessToken}`}).expect(404);
+        expect(response.body.error.message).toBe("Post Not Found");
+    });
+
+    it("Block user from deleting other user's post", async () => {
+        const post = await postModel.create({ ...testPost, sender: new mongoose.Types.ObjectId() });
+        await commentModel.create({ postId: post._id, sender: userId, content: "keep me" });
+
+        const response = await request.delete(`/post/${post._id}`).set({authorization: `JWT ${accessToken}`}).expect(403);
+        expect(response.body.error.message).toBe("Forbidden");
+        expect(await postModel.findById(post._id)).toBeTruthy();
+        expect(await commentModel.countDocuments({ postId: post._id })).toBe(1);
+    });
+})
+
+describe("Moderation", () => {
+    let moderatorToken: string;
+    let postId: string;
+
+    beforeAll(async () => {
+        const moderator = { username: "moderator", email: "moderator@example.com", password: "moderatorpassword" };
+        const registered = await request.post("/auth/register").send(moderator);
+        await userModel.findByIdAndUpdate(registered.body._id, { role: Role.MODERATOR });
+        const loggedIn = await request.post("/auth/login").send({ username: moderator.username, password: moderator.password });
+        moderatorToken = loggedIn.body.accessToken;
+    });
+
+    beforeEach(async () => {
+        const post = await postModel.create({ ...testPost, sender: userId });
+        postId = post._id.toString();
+    });
+
+    it("moderator can edit another user's post without taking ownership", async () => {
+        const response = await request.put(`/post/${postId}`).set({authorization: `JWT ${moderatorToken}`}).send({ title: "moderated", content: "moderated content" }).expect(200);
+        expect(response.body.title).toBe("moderated");
+        expect(response.body.sender).toBe(userId);
+    });
+
+    it("moderator can delete another user's post", async () => {
+        await request.delete(`/post/${postId}`).set({authorization: `JWT ${moderatorToken}`}).expect(200);
+        expect(await postModel.findById(postId)).toBeNull();
+    });
+})
@@ -0,0 +1,182 @@
+import supertest from "supertest";
+import mongoose from "mongoose";
+import TestAgent from "supertest/lib/agent";
+import { createApp, Mode, TestableApplication } from "../server/server";
+import rateLimitModel from "../models/rateLimit";
+import env from "../utils/env";
+import { getRateLimitStore, memoryStore, mongoStore, setRateLimitStore } from "../utils/rateLimitStore";
+
+let app: TestableApplication;
+let request: TestAgent;
+let accessToken: string = '';
+
+const testUser = {
+    username: "limituser",
+    email: "limituser@example.com",
+    password: "limitpassword123"
+};
+
+const credentials = { username: testUser.username, password: testUser.password };
+const wrongPassword = { username: testUser.username, password: "wrongpassword" };
+
+beforeAll(async () => {
+    app = await createApp(Mode.TEST)
+    request = supertest(app);
+
+    await request.post("/auth/register").send(testUser).expect(200);
+    const response = await request.post("/auth/login").send(credentials).expect(200);
+    accessToken = response.body.accessToken;
+
+    env.RATE_LIMIT_ENABLED = true;
+});
+
+beforeEach(() => {
+    setRateLimitStore(memoryStore());
+});
+
+afterAll(async () => {
+    env.RATE_LIMIT_ENABLED = false;
+    await mongoose.connection.dropDatabase();
+    await mongoose.connection.close();
+    if (app.close) {
+        await app.close()
+    }
+});
+
+describe("Rate limits", () => {
+    it("should send RateLimit headers on limited routes", async () => {
+        const response = await request.post("/auth/login").send(credentials).expect(200);
+        expect(response.headers['ratelimit-limit']).toBe('20');
+        expect(response.headers['ratelimit-remaining']).toBe('19');
+        expect(Number(response.headers['ratelimit-reset'])).toBeGreaterThan(0);
+    });
+
+    it("should not send RateLimit headers on other routes", async () => {
+        const response = await request.get("/post").set({ authorization: `JWT ${accessToken}` }).expect(200);
+        expect(response.headers['ratelimit-limit']).toBeUndefined();
+    });
+
+    it("should reject requests over the per-IP limit with Retry-After", async () => {
+        for (let i = 0; i < 5; i++) {
+            await request.post("/auth/forgotPassword").send({ email: testUser.email }).expect(200);
+        }
+
+        const response = await request.post("/auth/forgotPassword").send({ email: testUser.email }).expect(429);
+        expect(response.body.error.code).toBe("RATE_LIMITED");
+        expect(response.headers['ratelimit-remaining']).toBe('0');
+        expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+        expect(response.body.error.details.retryAfter).toBe(Number(response.headers['retry-after']));
+    });
+
+    it("should limit post creation per user", async () => {
+        for (let i = 0; i < 10; i++) {
+            await request.post("/post")
+                .set({ authorization: `JWT ${accessToken}` })
+                .send({ title: `Post ${i}`, content: "content" })
+                .expect(200);
+        }
+
+        const response = await request.post("/post")
+            .set({ authorization: `JWT ${accessToken}` })
+            .send({ title: "One too many", content: "content" })
+            .expect(429);
+        expect(response.body.error.code).toBe("RATE_LIMITED");
+    });
+
+    it("should not limit anything when disabled", async () => {
+        env.RATE_LIMIT_ENABLED = false;
+        for (let i = 0; i < 6; i++) {
+            await request.post("/auth/forgotPassword").send({ email: testUser.email }).expect(200);
+        }
+        env.RATE_LIMIT_ENABLED = true;
+    });
+});
+
+describe("Login lockout", () => {
+    it("should lock the account after 5 failed logins", async () => {
+        for (let i = 0; i < 5; i++) {
+            const response = await request.post("/auth/login").send(wrongPassword).expect(400);
+            expect(response.body.error.code).toBe("INVALID_CREDENTIALS");
+        }
+
+        const response = await request.post("/auth/login").send(credentials).expect(429);
+        expect(response.body.error.code).toBe("ACCOUNT_LOCKED");
+        expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+        expect(Number(response.headers['retry-after'])).toBeLessThanOrEqual(60);
+    });
+
+    it("should double the lockout on repeated lockouts", async () => {
+        for (let i = 0; i < 5; i++) {
+            await request.post("/auth/login").send(wrongPassword).expect(400);
+        }
+        // Let the first lockout end without forgetting that it happened.
+        await getRateLimitStore().reset(`login-lock:${testUser.username}`);
+
+        for (let i = 0; i < 5; i++) {
+            await request.post("/auth/login").send(wrongPassword).expect(400);
+        }
+
+        const response = await request.post("/auth/login").send(credentials).expect(429);
+        expect(Number(response.headers['retry-after'])).toBeGreaterThan(60);
+        expect(Number(response.headers['retry-after'])).toBeLessThanOrEqual(120);
+    });
+
+    it("should reset failed logins after a successful login", async () => {
+        for (let i = 0; i < 4; i++) {
+            await request.post("/auth/login").send(wrongPassword).expect(400);
+        }
+        await request.post("/auth/login").send(credentials).expect(200);
+
+        for (let i = 0; i < 4; i++) {
+            await request.post("/auth/login").send(wrongPassword).expect(400);
+        }
+        await request.post("/auth/login").send(credentials).expect(200);
+    });
+
+    it("should track unknown usernames like existing ones", async () => {
+        for (let i = 0; i < 5; i++) {
+            await request.post("/auth/login").send({ username: "nosuchuser", password: "whatever" }).expect(400);
+        }
+
+        const response = await request.post("/auth/login").send({ username: "nosuchuser", password: "whatever" }).expect(429);
+        expect(response.body.error.code).toBe("ACCOUNT_LOCKED");
+    });
+});
+
+describe("Mongo rate limit store", () => {
+    beforeAll(async () => {
+        await rateLimitModel.init();
+    });
+
+    it("should count requests in a shared window", async () => {
+        const first = await mongoStore.increment("test:counter", 60 * 1000);
+        const second = await mongoStore.increment("test:counter", 60 * 1000);
+
+        expect(first.count).toBe(1);
+        expect(second.count).toBe(2);
+        expect(second.resetAt.getTime()).toBe(first.resetAt.getTime());
+        expect((await mongoStore.get("test:counter"))?.count).toBe(2);
+    });
+
+    it("should start a new window once the previous one ended", async () => {
+        await rateLimitModel.create({ key: "test:ended", count: 7, resetAt: new Date(Date.now() - 1000) });
+
+        expect(await mongoStore.get("test:ended")).toBeNull();
+        const counter = await mongoStore.increment("test:ended", 60 * 1000);
+        expect(counter.count).toBe(1);
+        expect(counter.resetAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it("should handle concurrent increments of a new key", async () => {
+        const counters = await Promise.all(Array.from({ length: 5 }, () => mongoStore.increment("test:concurrent", 60 * 1000)));
+
+        expect(counters.map(counter => counter.count).sort()).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("should reset a counter", async () => {
+        await mongoStore.increment("test:reset", 60 * 1000);
+        await mongoStore.reset("test:reset");
+
+        expect(await mongoStore.get("test:reset")).toBeNull();
+    });
+});
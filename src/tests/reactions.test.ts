@@ -0,0 +1,158 @@
+import supertest from "supertest";
+import mongoose from "mongoose";
+import postModel from "../models/post";
+import commentModel from "../models/comment";
+import reactionModel, { ReactionTarget, ReactionType } from "../models/reaction";
+import TestAgent from "supertest/lib/agent";
+import { createApp, Mode, TestableApplication } from "../server/server";
+
+let app: TestableApplication;
+let request: TestAgent;
+let accessToken: string;
+let userId: string;
+let postId: string;
+let commentId: string;
+
+const testUser = {
+    username: "reactor",
+    email: "reactor@example.com",
+    password: "password123"
+};
+
+beforeAll(async () => {
+    app = await createApp(Mode.TEST);
+    request = supertest(app);
+
+    const registerUser = await request.post("/auth/register").send(testUser);
+    userId = registerUser.body._id.toString();
+    const loggedInUser = await request.post("/auth/login").send({ username: testUser.username, password: testUser.password });
+    accessToken = loggedInUser.body.accessToken;
+});
+
+afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await mongoose.connection.close();
+    if (app.close) {
+        await app.close()
+    }
+});
+
+beforeEach(async () => {
+    await postModel.deleteMany({});
+    await commentModel.deleteMany({});
+    await reactionModel.deleteMany({});
+
+    const post = await postModel.create({ title: "Reactions", content: "React to me", sender: userId });
+    const comment = await commentModel.create({ postId: post._id, sender: userId, content: "Me too" });
+    postId = post._id.toString();
+    commentId = comment._id.toString();
+});
+
+describe("Reactions", () => {
+    it("should add a reaction and return the updated counts", async () => {
+        const response = await request
+            .put(`/post/${postId}/reactions/like`)
+            .set({ authorization: `JWT ${accessToken}` })
+            .expect(200);
+
+        expect(response.body.reactions.like).toBe(1);
+        expect(response.body.reactions.love).toBe(0);
+        expect(response.body.mine).toEqual(["like"]);
+    });
+
+    it("should not count the same reaction twice", async () => {
+        await request.put(`/post/${postId}/reactions/like`).set({ authorization: `JWT ${accessToken}` }).expect(200);
+        const response = await request.put(`/post/${postId}/reactions/like`).set({ authorization: `JWT ${accessToken}` }).expect(200);
+
+        expect(response.body.reactions.like).toBe(1);
+        expect(await reactionModel.countDocuments({ targetId: postId })).toBe(1);
+    });
+
+    it("should add a reaction once when the same request arrives twice at once", async () => {
+        const responses = await Promise.all([1, 2, 3].map(() => request.put(`/post/${postId}/reactions/like`).set({ authorization: `JWT ${accessToken}` })));
+
+        responses.forEach(response => expect(response.status).toBe(200));
+        expect(await reactionModel.countDocuments({ targetId: postId })).toBe(1);
+    });
+
+    it("should remove a reaction and ignore removing it again", async () => {
+        await request.put(`/comment/${commentId}/reactions/laugh`).set({ authorization: `JWT ${accessToken}` }).expect(200);
+        await request.delete(`/comment/${commentId}/reactions/laugh`).set({ authorization: `JWT ${accessToken}` }).expect(200);
+        const response = await request
+            .delete(`/comment/${commentId}/reactions/laugh`)
+            .set({ authorization: `JWT ${accessToken}` })
+            .expect(200);
+
+        expect(response.body.reactions.laugh).toBe(0);
+        expect(response.body.mine).toEqual([]);
+    });
+
+    it("should return 400 for an unknown reaction type", async () => {
+        const response = await request
+            .put(`/post/${postId}/reactions/meh`)
+            .set({ authorization: `JWT ${accessToken}` })
+            .expect(400);
+
+        expect(response.body.error.message).toBe("Invalid Reaction Type");
+    });
+
+    it("should return 404 when the post does not exist", async () => {
+        const response = await request
+            .put(`/post/${new mongoose.Types.ObjectId()}/reactions/like`)
+            .set({ authorization: `JWT ${accessToken}` })
+            .expect(404);
+
+        expect(response.body.error.message).toBe("Post Not Found");
+    });
+
+    it("should list who reacted", async () => {
+        await request.put(`/post/${postId}/reactions/like`).set({ authorization: `JWT ${accessToken}` }).expect(200);
+        await request.put(`/post/${postId}/reactions/wow`).set({ authorization: `JWT ${accessToken}` }).expect(200);
+
+        const response = await request
+            .get(`/post/${postId}/reactions?type=wow`)
+            .set({ authorization: `JWT ${accessToken}` })
+            .expect(200);
+
+        expect(response.body.items).toHaveLength(1);
+        expect(response.body.items[0].type).toBe("wow");
+        expect(response.body.items[0].user).toEqual({ _id: userId, username: testUser.username });
+        expect(response.body.nextCursor).toBeNull();
+    });
+
+    it("should return reaction counts with posts and comments", async () => {
+        await request.put(`/post/${postId}/reactions/love`).set({ authorization: `JWT ${accessToken}` }).expect(200);
+        await request.put(`/comment/${commentId}/reactions/like`).set({ authorization: `JWT ${accessToken}` }).expect(200);
+
+        const post = await request.get(`/post/${postId}`).set({ authorization: `JWT ${accessToken}` }).expect(200);
+        expect(post.body.reactions.love).toBe(1);
+
+        const comments = await request.get(`/comment?postId=${postId}`).set({ authorization: `JWT ${accessToken}` }).expect(200);
+        expect(comments.body.items[0].reactions.like).toBe(1);
+
+        const tree = await request.get(`/post/${postId}/comments`).set({ authorization: `JWT ${accessToken}` }).expect(200);
+        expect(tree.body.items[0].reactions.like).toBe(1);
+    });
+
+    it("should sort posts by most likes", async () => {
+        const popular = await postModel.create({ title: "Popular", content: "Liked a lot", sender: userId });
+        await reactionModel.create([
+            { targetType: ReactionTarget.POST, targetId: popular._id, user: userId, type: ReactionType.LIKE },
+            { targetType: ReactionTarget.POST, targetId: popular._id, user: new mongoose.Types.ObjectId(), type: ReactionType.LIKE }
+        ]);
+
+        const response = await request.get("/post?sort=mostLiked").set({ authorization: `JWT ${accessToken}` }).expect(200);
+
+        expect(response.body.items[0]._id).toBe(popular._id.toString());
+        expect(response.body.items[0].reactions.like).toBe(2);
+    });
+
+    it("should remove reactions when the post is deleted", async () => {
+        await request.put(`/post/${postId}/reactions/like`).set({ authorization: `JWT ${accessToken}` }).expect(200);
+        await request.put(`/comment/${commentId}/reactions/like`).set({ authorization: `JWT ${accessToken}` }).expect(200);
+
+        await request.delete(`/post/${postId}`).set({ authorization: `JWT ${accessToken}` }).expect(200);
+
+        expect(await reactionModel.countDocuments({})).toBe(0);
+    });
+});
@@ -0,0 +1,207 @@
+import supertest from "supertest";
+import mongoose from "mongoose";
+import TestAgent from "supertest/lib/agent";
+import { createApp, Mode, TestableApplication } from "../server/server";
+import postModel from "../models/post";
+import commentModel from "../models/comment";
+import revisionModel from "../models/revision";
+import userModel, { Role } from "../models/user";
+import { register, TestUser } from "./testUtils";
+
+let app: TestableApplication;
+let request: TestAgent;
+
+let owner: TestUser;
+let other: TestUser;
+let moderator: TestUser;
+
+const auth = (user: TestUser) => ({ authorization: `JWT ${user.accessToken}` });
+
+const createPost = async (title: string, content: string) => {
+    return (await request.post("/post").set(auth(owner)).send({ title, content }).expect(200)).body;
+}
+
+const editPost = async (id: string, title: string, content: string, editor = owner) => {
+    return (await request.put(`/post/${id}`).set(auth(editor)).send({ title, content }).expect(200)).body;
+}
+
+const joined = (changes: { type: string, value: string }[], type: string) => changes
+    .filter(change => change.type === "unchanged" || change.type === type)
+    .map(change => change.value)
+    .join("");
+
+beforeAll(async () => {
+    app = await createApp(Mode.TEST);
+    request = supertest(app);
+
+    owner = await register(request, "owner");
+    other = await register(request, "other");
+    moderator = await register(request, "moderator");
+    await userModel.findByIdAndUpdate(moderator._id, { role: Role.MODERATOR });
+});
+
+afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await mongoose.connection.close();
+    if (app.close) {
+        await app.close()
+    }
+});
+
+beforeEach(async () => {
+    await postModel.deleteMany({});
+    await commentModel.deleteMany({});
+    await revisionModel.deleteMany({});
+});
+
+describe("Post revisions", () => {
+    it("should keep the replaced version of an edited post with its author", async () => {
+        const post = await createPost("first title", "first content");
+        expect(post.editedAt).toBeNull();
+        expect(post.editedBy).toBeNull();
+
+        const edited = await editPost(post._id, "second title", "second content", moderator);
+        expect(edited.editedAt).toBeTruthy();
+        expect(edited.editedBy).toBe(moderator._id);
+
+        const response = await request.get(`/post/${post._id}/revisions`).set(auth(other)).expect(200);
+        expect(response.body.items).toHaveLength(1);
+        expect(response.body.items[0]).toMatchObject({
+            title: "first title",
+            content: "first content",
+            contentHtml: "<p>first content</p>\n",
+            editor: { _id: owner._id, username: "owner" },
+            editedAt: post.createdAt
+        });
+    });
+
+    it("should attribute each version to the user who wrote it", async () => {
+        const post = await createPost("title", "by owner");
+        const moderated = await editPost(post._id, "title", "by moderator", moderator);
+        await editPost(post._id, "title", "by owner again");
+
+        const response = await request.get(`/post/${post._id}/revisions`).set(auth(owner)).expect(200);
+        expect(response.body.items).toMatchObject([
+            { content: "by moderator", editor: { _id: moderator._id }, editedAt: moderated.editedAt },
+            { content: "by owner", editor: { _id: owner._id }, editedAt: post.createdAt }
+        ]);
+    });
+
+    it("should not record a revision when nothing changed", async () => {
+        const post = await createPost("title", "content");
+
+        const edited = await editPost(post._id, "title", "content");
+
+        expect(edited.editedAt).toBeNull();
+        expect(await revisionModel.countDocuments({ targetId: post._id })).toBe(0);
+    });
+
+    it("should list revisions newest first", async () => {
+        const post = await createPost("title", "v1");
+        await editPost(post._id, "title", "v2");
+        await editPost(post._id, "title", "v3");
+
+        const newest = await request.get(`/post/${post._id}/revisions`).set(auth(owner)).expect(200);
+        expect(newest.body.items.map((revision: { content: string }) => revision.content)).toEqual(["v2", "v1"]);
+
+        const oldest = await request.get(`/post/${post._id}/revisions?sort=oldest&limit=1`).set(auth(owner)).expect(200);
+        expect(oldest.body.items.map((revision: { content: string }) => revision.content)).toEqual(["v1"]);
+        expect(oldest.body.nextCursor).toBeTruthy();
+    });
+
+    it("should diff a revision against the current version or another revision", async () => {
+        const post = await createPost("old title", "the quick brown fox");
+        await editPost(post._id, "new title", "the slow brown fox");
+        await editPost(post._id, "new title", "the slow brown dog");
+        const [second, first] = (await request.get(`/post/${post._id}/revisions`).set(auth(owner)).expect(200)).body.items;
+
+        const current = await request.get(`/post/${post._id}/revisions/${first._id}/diff`).set(auth(other)).expect(200);
+        expect(current.body.from).toBe(first._id);
+        expect(current.body.to).toBeNull();
+        expect(joined(current.body.content, "removed")).toBe("the quick brown fox");
+        expect(joined(current.body.content, "added")).toBe("the slow brown dog");
+        expect(joined(current.body.title, "added")).toBe("new title");
+
+        const between = await request.get(`/post/${post._id}/revisions/${first._id}/diff?against=${second._id}`).set(auth(other)).expect(200);
+        expect(between.body.to).toBe(second._id);
+        expect(between.body.content).toEqual([
+            { type: "unchanged", value: "the " },
+            { type: "removed", value: "quick" },
+            { type: "added", value: "slow" },
+            { type: "unchanged", value: " brown fox" }
+        ]);
+    });
+
+    it("should return 404 for a revision of another post", async () => {
+        const post = await createPost("title", "v1");
+        await editPost(post._id, "title", "v2");
+        const revision = (await request.get(`/post/${post._id}/revisions`).set(auth(owner)).expect(200)).body.items[0];
+        const unrelated = await createPost("title", "unrelated");
+
+        await request.get(`/post/${unrelated._id}/revisions/${revision._id}/diff`).set(auth(owner)).expect(404);
+        await request.post(`/post/${unrelated._id}/revisions/${revision._id}/restore`).set(auth(owner)).expect(404);
+    });
+
+    it("should let the owner or a moderator restore a revision, keeping the replaced version", async () => {
+        const post = await createPost("original", "original content");
+        await editPost(post._id, "vandalized", "vandalized content");
+        const revision = (await request.get(`/post/${post._id}/revisions`).set(auth(owner)).expect(200)).body.items[0];
+
+        await request.post(`/post/${post._id}/revisions/${revision._id}/restore`).set(auth(other)).expect(403);
+
+        const restored = await request.post(`/post/${post._id}/revisions/${revision._id}/restore`).set(auth(moderator)).expect(200);
+        expect(restored.body.title).toBe("original");
+        expect(restored.body.content).toBe("original content");
+
+        expect(restored.body.editedBy).toBe(moderator._id);
+
+        const revisions = await request.get(`/post/${post._id}/revisions`).set(auth(owner)).expect(200);
+        expect(revisions.body.items[0]).toMatchObject({ content: "vandalized content", editor: { _id: owner._id } });
+    });
+
+    it("should delete the revisions of a deleted post and its comments", async () => {
+        const post = await createPost("title", "v1");
+        await editPost(post._id, "title", "v2");
+        const comment = (await request.post("/comment").set(auth(owner)).send({ postId: post._id, content: "c1" }).expect(200)).body;
+        await request.patch(`/comment/${comment._id}`).set(auth(owner)).send({ content: "c2" }).expect(200);
+
+        await request.delete(`/post/${post._id}`).set(auth(owner)).expect(200);
+
+        expect(await revisionModel.countDocuments({})).toBe(0);
+    });
+});
+
+describe("Comment revisions", () => {
+    it("should keep, diff and restore the versions of a comment", async () => {
+        const post = await createPost("title", "content");
+        const comment = (await request.post("/comment").set(auth(owner)).send({ postId: post._id, content: "first" }).expect(200)).body;
+        const edited = await request.patch(`/comment/${comment._id}`).set(auth(owner)).send({ content: "second" }).expect(200);
+        expect(edited.body.editedAt).toBeTruthy();
+
+        const revisions = await request.get(`/comment/${comment._id}/revisions`).set(auth(other)).expect(200);
+        expect(revisions.body.items).toHaveLength(1);
+        const revision = revisions.body.items[0];
+        expect(revision.content).toBe("first");
+        expect(revision.title).toBeUndefined();
+
+        const diff = await request.get(`/comment/${comment._id}/revisions/${revision._id}/diff`).set(auth(other)).expect(200);
+        expect(diff.body.title).toBeUndefined();
+        expect(diff.body.content).toEqual([{ type: "removed", value: "first" }, { type: "added", value: "second" }]);
+
+        await request.post(`/comment/${comment._id}/revisions/${revision._id}/restore`).set(auth(other)).expect(403);
+        const restored = await request.post(`/comment/${comment._id}/revisions/${revision._id}/restore`).set(auth(owner)).expect(200);
+        expect(restored.body.content).toBe("first");
+    });
+
+    it("should drop the history of a deleted comment kept as a placeholder", async () => {
+        const post = await createPost("title", "content");
+        const comment = (await request.post("/comment").set(auth(owner)).send({ postId: post._id, content: "secret" }).expect(200)).body;
+        await request.patch(`/comment/${comment._id}`).set(auth(owner)).send({ content: "edited" }).expect(200);
+        await request.post("/comment").set(auth(other)).send({ postId: post._id, parentCommentId: comment._id, content: "reply" }).expect(200);
+
+        await request.delete(`/comment/${comment._id}`).set(auth(owner)).expect(200);
+
+        expect(await revisionModel.countDocuments({ targetId: comment._id })).toBe(0);
+        await request.get(`/comment/${comment._id}/revisions`).set(auth(owner)).expect(404);
+    });
+});
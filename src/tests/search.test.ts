@@ -0,0 +1,146 @@
+import supertest from "supertest";
+import mongoose from "mongoose";
+import postModel from "../models/post";
+import commentModel from "../models/comment";
+import userModel from "../models/user";
+import TestAgent from "supertest/lib/agent";
+import { createApp, Mode, TestableApplication } from "../server/server";
+
+let app: TestableApplication;
+let request: TestAgent;
+let accessToken: string;
+let userId: string;
+
+const testUser = {
+    username: "gardener",
+    email: "gardener@example.com",
+    password: "password123"
+};
+
+beforeAll(async () => {
+    app = await createApp(Mode.TEST);
+    request = supertest(app);
+
+    // Text searches fail until the text indexes exist.
+    await Promise.all([postModel.init(), commentModel.init(), userModel.init()]);
+
+    const registerUser = await request.post("/auth/register").send(testUser);
+    userId = registerUser.body._id.toString();
+    const loggedInUser = await request.post("/auth/login").send({ username: testUser.username, password: testUser.password });
+    accessToken = loggedInUser.body.accessToken;
+});
+
+afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await mongoose.connection.close();
+    if (app.close) {
+        await app.close()
+    }
+});
+
+beforeEach(async () => {
+    await postModel.deleteMany({});
+    await commentModel.deleteMany({});
+
+    const post = await postModel.create({ title: "Growing tomatoes", content: "Tomatoes need plenty of sun and water.", sender: userId });
+    await postModel.create({ title: "Watering schedule", content: "Water the garden early, before the tomatoes get hot.", sender: userId });
+    await commentModel.create({ postId: post._id, sender: userId, content: "My tomato plants love the <sun>" });
+    await commentModel.create({ postId: post._id, sender: userId, content: "Unrelated remark" });
+});
+
+describe("GET /search", () => {
+    it("should find posts and comments ranked by relevance", async () => {
+        const response = await request
+            .get("/search?q=tomatoes")
+            .set({ authorization: `JWT ${accessToken}` })
+            .expect(200);
+
+        expect(response.body.items).toHaveLength(3);
+        expect(response.body.items[0].type).toBe("post");
+        expect(response.body.items[0].item.title).toBe("Growing tomatoes");
+        const scores = response.body.items.map((result: { score: number }) => result.score);
+        expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    });
+
+    it("should filter results by type", async () => {
+        const response = await request
+            .get("/search?q=tomatoes&type=comment")
+            .set({ authorization: `JWT ${accessToken}` })
+            .expect(200);
+
+        expect(response.body.items).toHaveLength(1);
+        expect(response.body.items[0].type).toBe("comment");
+    });
+
+    it("should find users by username", async () => {
+        const response = await request
+            .get(`/search?q=${testUser.username}&type=user`)
+            .set({ authorization: `JWT ${accessToken}` })
+            .expect(200);
+
+        expect(response.body.items[0].item._id).toBe(userId);
+        expect(response.body.items[0].item.passwordHash).toBeUndefined();
+        expect(response.body.items[0].item.email).toBeUndefined();
+        expect(response.body.items[0].item.twoFactorEnabled).toBeUndefined();
+    });
+
+    it("should return escaped snippets with highlighted matches", async () => {
+        const response = await request
+            .get("/search?q=sun&type=comment")
+            .set({ authorization: `JWT ${accessToken}` })
+            .expect(200);
+
+        expect(response.body.items[0].snippet).toEqual({
+            field: "content",
+            text: "My tomato plants love the &lt;<mark>sun</mark>&gt;"
+        });
+    });
+
+    it("should page through results with a cursor", async () => {
+        const firstPage = await request
+            .get("/search?q=tomatoes&limit=2")
+            .set({ authorization: `JWT ${accessToken}` })
+            .expect(200);
+        expect(firstPage.body.items).toHaveLength(2);
+        expect(firstPage.body.nextCursor).toBeTruthy();
+
+        const secondPage = await request
+            .get(`/search?q=tomatoes&limit=2&cursor=${firstPage.body.nextCursor}`)
+            .set({ authorization: `JWT ${accessToken}` })
+            .expect(200);
+        expect(secondPage.body.items).toHaveLength(1);
+        expect(secondPage.body.nextCursor).toBeNull();
+
+        const ids = [...firstPage.body.items, ...secondPage.body.items].map((result: { item: { _id: string } }) => result.item._id);
+        expect(new Set(ids).size).toBe(3);
+    });
+
+    it("should not return deleted comments", async () => {
+        await commentModel.updateMany({}, { content: "[deleted]", deleted: true });
+
+        const response = await request
+            .get("/search?q=deleted&type=comment")
+            .set({ authorization: `JWT ${accessToken}` })
+            .expect(200);
+
+        expect(response.body.items).toHaveLength(0);
+    });
+
+    it("should return 400 when the query is missing", async () => {
+        const response = await request
+            .get("/search")
+            .set({ authorization: `JWT ${accessToken}` })
+            .expect(400);
+
+        expect(response.body.error.message).toBe("q is required");
+    });
+
+    it("should return 400 for an invalid cursor", async () => {
+        const response = await request
+            .get("/search?q=tomatoes&cursor=invalid")
+            .set({ authorization: `JWT ${accessToken}` })
+            .expect(400);
+
+        expect(response.body.error.message).toBe("Invalid Cursor");
+    });
+});
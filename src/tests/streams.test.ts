@@ -0,0 +1,160 @@
+import http from "http";
+import { AddressInfo } from "net";
+import supertest from "supertest";
+import mongoose from "mongoose";
+import TestAgent from "supertest/lib/agent";
+import { createApp, Mode, TestableApplication } from "../server/server";
+import postModel from "../models/post";
+import { memoryPubSub } from "../utils/pubSub";
+import { register, TestUser } from "./testUtils";
+
+let app: TestableApplication;
+let server: http.Server;
+let request: TestAgent;
+
+interface StreamEvent {
+    event: string,
+    data: Record<string, unknown>
+}
+
+interface OpenStream {
+    status: number,
+    events: StreamEvent[],
+    waitFor: (count: number) => Promise<StreamEvent[]>,
+    close: () => void
+}
+
+let author: TestUser;
+let reader: TestUser;
+
+const auth = (user: TestUser) => ({ authorization: `JWT ${user.accessToken}` });
+
+// Resolves once the response headers arrived, then collects the events of the stream.
+const openStream = (path: string, user: TestUser) => new Promise<OpenStream>((resolve, reject) => {
+    const port = (server.address() as AddressInfo).port;
+    const req = http.get({ port, path, headers: auth(user) }, res => {
+        const events: StreamEvent[] = [];
+        let buffer = "";
+
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => {
+            buffer += chunk;
+            const blocks = buffer.split("\n\n");
+            buffer = blocks.pop() ?? "";
+
+            for (const block of blocks) {
+                const event = block.match(/^event: (.*)$/m);
+                const data = block.match(/^data: (.*)$/m);
+                if (event && data) {
+                    events.push({ event: event[1], data: JSON.parse(data[1]) });
+                }
+            }
+        });
+
+        const waitFor = async (count: number) => {
+            for (let attempt = 0; attempt < 100 && events.length < count; attempt++) {
+                await new Promise(done => setTimeout(done, 20));
+            }
+            return events;
+        };
+
+        resolve({ status: res.statusCode ?? 0, events, waitFor, close: () => req.destroy() });
+    });
+    req.on("error", reject);
+});
+
+beforeAll(async () => {
+    app = await createApp(Mode.TEST);
+    server = app.listen(0);
+    request = supertest(server);
+
+    author = await register(request, "streamer");
+    reader = await register(request, "watcher");
+});
+
+afterAll(async () => {
+    server.close();
+    await mongoose.connection.dropDatabase();
+    await mongoose.connection.close();
+    if (app.close) {
+        await app.close()
+    }
+});
+
+beforeEach(async () => {
+    await postModel.deleteMany({});
+});
+
+describe("Post streams", () => {
+    it("should stream new, edited and deleted comments and post edits", async () => {
+        const post = (await request.post("/post").set(auth(author)).send({ title: "Live", content: "Watch this" }).expect(200)).body;
+        const stream = await openStream(`/stream/post/${post._id}`, reader);
+        expect(stream.status).toBe(200);
+
+        const comment = (await request.post("/comment").set(auth(reader)).send({ postId: post._id, content: "First!" }).expect(200)).body;
+        await request.patch(`/comment/${comment._id}`).set(auth(reader)).send({ content: "Second!" }).expect(200);
+        await request.delete(`/comment/${comment._id}`).set(auth(reader)).expect(200);
+        await request.put(`/post/${post._id}`).set(auth(author)).send({ title: "Live", content: "Edited" }).expect(200);
+
+        const events = await stream.waitFor(4);
+        stream.close();
+
+        expect(events.map(event => event.event)).toEqual(["comment.created", "comment.updated", "comment.deleted", "post.updated"]);
+        expect(events[0].data).toMatchObject({ _id: comment._id, content: "First!" });
+        expect(events[1].data).toMatchObject({ content: "Second!" });
+        expect(events[2].data).toEqual({ _id: comment._id, postId: post._id, kept: false });
+        expect(events[3].data).toMatchObject({ _id: post._id, content: "Edited" });
+    });
+
+    it("should not stream other posts' comments", async () => {
+        const watched = (await request.post("/post").set(auth(author)).send({ title: "Watched", content: "here" }).expect(200)).body;
+        const other = (await request.post("/post").set(auth(author)).send({ title: "Other", content: "there" }).expect(200)).body;
+        const stream = await openStream(`/stream/post/${watched._id}`, reader);
+
+        await request.post("/comment").set(auth(reader)).send({ postId: other._id, content: "Elsewhere" }).expect(200);
+        await request.post("/comment").set(auth(reader)).send({ postId: watched._id, content: "Here" }).expect(200);
+
+        const events = await stream.waitFor(1);
+        stream.close();
+        expect(events).toHaveLength(1);
+        expect(events[0].data).toMatchObject({ content: "Here" });
+    });
+
+    it("should reject unknown posts and missing authentication", async () => {
+        await request.get(`/stream/post/${new mongoose.Types.ObjectId()}`).set(auth(reader)).expect(404);
+        await request.get("/stream/notifications").expect(401);
+    });
+});
+
+describe("Notification streams", () => {
+    it("should stream new notifications with the unread count", async () => {
+        const post = (await request.post("/post").set(auth(author)).send({ title: "Notify me", content: "please" }).expect(200)).body;
+        const stream = await openStream("/stream/notifications", author);
+
+        await request.post("/comment").set(auth(reader)).send({ postId: post._id, content: "Hello" }).expect(200);
+
+        const events = await stream.waitFor(1);
+        stream.close();
+        expect(events).toHaveLength(1);
+        expect(events[0].event).toBe("notification");
+        expect(events[0].data).toMatchObject({
+            notification: { type: "comment", actor: { _id: reader._id, username: "watcher" }, postId: post._id, read: false },
+            unreadCount: 1
+        });
+    });
+});
+
+describe("In-process pub/sub", () => {
+    it("should stop delivering messages after unsubscribing", async () => {
+        const pubSub = memoryPubSub();
+        const received: unknown[] = [];
+        const unsubscribe = await pubSub.subscribe("channel", message => received.push(message.data));
+
+        await pubSub.publish("channel", { event: "test", data: 1 });
+        await pubSub.publish("other", { event: "test", data: 2 });
+        await unsubscribe();
+        await pubSub.publish("channel", { event: "test", data: 3 });
+
+        expect(received).toEqual([1]);
+    });
+});
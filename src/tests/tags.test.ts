@@ -0,0 +1,118 @@
+import supertest from "supertest";
+import mongoose from "mongoose";
+import TestAgent from "supertest/lib/agent";
+import { createApp, Mode, TestableApplication } from "../server/server";
+import postModel from "../models/post";
+import commentModel from "../models/comment";
+import { register, TestUser } from "./testUtils";
+
+let app: TestableApplication;
+let request: TestAgent;
+
+let writer: TestUser;
+let mentioned: TestUser;
+
+const auth = (user: TestUser) => ({ authorization: `JWT ${user.accessToken}` });
+
+const createPost = async (content: string) => {
+    return (await request.post("/post").set(auth(writer)).send({ title: "title", content }).expect(200)).body;
+}
+
+const contents = (body: { items: { content: string }[] }) => body.items.map(item => item.content);
+
+beforeAll(async () => {
+    app = await createApp(Mode.TEST);
+    request = supertest(app);
+
+    writer = await register(request, "writer");
+    mentioned = await register(request, "mentioned");
+});
+
+afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await mongoose.connection.close();
+    if (app.close) {
+        await app.close()
+    }
+});
+
+beforeEach(async () => {
+    await postModel.deleteMany({});
+    await commentModel.deleteMany({});
+});
+
+describe("Mentions and hashtags", () => {
+    it("should store the mentions and hashtags of a new post", async () => {
+        const post = await createPost("Hi @mentioned and @ghost, see #TypeScript #typescript #2024 and mail@example.com");
+
+        expect(post.mentions).toEqual([mentioned._id]);
+        expect(post.tags).toEqual(["typescript"]);
+    });
+
+    it("should parse them again when a post or comment is edited", async () => {
+        const post = await createPost("#old");
+        const updated = await request.put(`/post/${post._id}`).set(auth(writer)).send({ title: "title", content: "#new for @mentioned" }).expect(200);
+        expect(updated.body.tags).toEqual(["new"]);
+        expect(updated.body.mentions).toEqual([mentioned._id]);
+
+        const comment = (await request.post("/comment").set(auth(writer)).send({ postId: post._id, content: "@mentioned #first" }).expect(200)).body;
+        expect(comment.tags).toEqual(["first"]);
+        const edited = await request.patch(`/comment/${comment._id}`).set(auth(writer)).send({ content: "no more references" }).expect(200);
+        expect(edited.body.mentions).toEqual([]);
+        expect(edited.body.tags).toEqual([]);
+    });
+
+    it("should list the posts with a tag, case-insensitively", async () => {
+        await createPost("first #News");
+        await createPost("unrelated #sports");
+        await createPost("second #news");
+
+        const response = await request.get("/tag/NEWS").set(auth(writer)).expect(200);
+        expect(contents(response.body)).toEqual(["second #news", "first #News"]);
+    });
+
+    it("should reject invalid tags", async () => {
+        await request.get("/tag/not-a-tag").set(auth(writer)).expect(400);
+        await request.get("/tag/2024").set(auth(writer)).expect(400);
+    });
+
+    it("should rank trending tags of the time window", async () => {
+        const post = await createPost("#popular #rare");
+        await createPost("#popular again");
+        await request.post("/comment").set(auth(writer)).send({ postId: post._id, content: "so #popular" }).expect(200);
+        await postModel.create({ title: "old", content: "#stale", tags: ["stale"], sender: writer._id, createdAt: new Date("2020-01-01") });
+
+        const response = await request.get("/tag").set(auth(writer)).expect(200);
+        expect(response.body).toEqual([
+            { tag: "popular", count: 3, postCount: 2 },
+            { tag: "rare", count: 1, postCount: 1 }
+        ]);
+
+        const past = await request.get("/tag?from=2019-12-31&to=2020-01-02").set(auth(writer)).expect(200);
+        expect(past.body).toEqual([{ tag: "stale", count: 1, postCount: 1 }]);
+    });
+
+    it("should list the posts and comments mentioning a user", async () => {
+        const post = await createPost("hello @mentioned");
+        await createPost("nobody here");
+        await request.post("/comment").set(auth(writer)).send({ postId: post._id, content: "ping @mentioned" }).expect(200);
+
+        const posts = await request.get(`/user/mentioned/mentions`).set(auth(writer)).expect(200);
+        expect(contents(posts.body)).toEqual(["hello @mentioned"]);
+
+        const comments = await request.get(`/user/${mentioned._id}/mentions?type=comment`).set(auth(writer)).expect(200);
+        expect(contents(comments.body)).toEqual(["ping @mentioned"]);
+    });
+
+    it("should drop the references of deleted comments kept for their replies", async () => {
+        const post = await createPost("thread");
+        const parent = (await request.post("/comment").set(auth(writer)).send({ postId: post._id, content: "@mentioned #topic" }).expect(200)).body;
+        await request.post("/comment").set(auth(writer)).send({ postId: post._id, parentCommentId: parent._id, content: "reply" }).expect(200);
+
+        await request.delete(`/comment/${parent._id}`).set(auth(writer)).expect(200);
+
+        const stored = await commentModel.findById(parent._id);
+        expect(stored!.mentions).toEqual([]);
+        expect(stored!.tags).toEqual([]);
+    });
+});
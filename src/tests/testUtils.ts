@@ -1,11 +1,28 @@
 import mongoose from "mongoose";
-import { MongoMemoryServer } from "mongodb-memory-server-core/lib/MongoMemoryServer";
+import TestAgent from "supertest/lib/agent";
+import { MongoMemoryReplSet } from "mongodb-memory-server-core/lib/MongoMemoryReplSet";
 
 export async function createMongoMemoryDatabase() {
 
-    const mongoServer: MongoMemoryServer = await MongoMemoryServer.create();
+    // A single-node replica set, since cascading deletes run inside transactions.
+    const mongoServer: MongoMemoryReplSet = await MongoMemoryReplSet.create({ replSet: { count: 1 } });
     const mongoUri = mongoServer.getUri();
         
     await mongoose.connect(mongoUri);
     return mongoServer;
-}
\ No newline at end of file
+}
+
+export interface TestUser {
+    _id: string,
+    username: string,
+    accessToken: string
+}
+
+// Registers a user with a password and logs them in.
+export async function register(request: TestAgent, username: string): Promise<TestUser> {
+    const user = { username, email: `${username}@example.com`, password: "password123" };
+    const registered = await request.post("/auth/register").send(user).expect(200);
+    const loggedIn = await request.post("/auth/login").send({ username, password: user.password }).expect(200);
+
+    return { _id: registered.body._id.toString(), username, accessToken: loggedIn.body.accessToken };
+}
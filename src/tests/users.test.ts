@@ -2,7 +2,12 @@ import supertest from "supertest";
 import mongoose from "mongoose";
 import bcrypt from "bcrypt";
 
-import userModel from "../models/user";
+import userModel, { Role } from "../models/user";
+import postModel from "../models/post";
+import commentModel from "../models/comment";
+import { DELETED_USER_ID } from "../controllers/user";
+import sharp from "sharp";
+import { FileStorage, getFileStorage, setFileStorage } from "../utils/fileStorage";
 import TestAgent from "supertest/lib/agent";
 import { createApp, Mode, TestableApplication } from "../server/server";
 
@@ -32,7 +37,7 @@ beforeAll(async () => {
     // Create test user
     const registerUser = await request.post("/auth/register").send(testUser);
     userId = registerUser.body._id.toString();
-    const loggedInUser = await request.post("/auth/login").send(testUser);
+    const loggedInUser = await request.post("/auth/login").send({ username: testUser.username, password: testUser.password });
     accessToken = loggedInUser.body.accessToken;
 });
 
@@ -55,7 +60,7 @@ const createUserWithHashedPassword = async (userData: { username: string; email:
 };
 
 // Helper function to create and authenticate a unique user
-const createAuthenticatedUser = async () => {
+const createAuthenticatedUser = async (role: Role = Role.USER) => {
     userCounter++;
     const newUser = {
         username: `user_${userCounter}`,
@@ -64,7 +69,8 @@ const createAuthenticatedUser = async () => {
     };
     const registerUser = await request.post("/auth/register").send(newUser);
     const userId = registerUser.body._id.toString();
-    const loggedInUser = await request.post("/auth/login").send(newUser);
+    await userModel.findByIdAndUpdate(userId, { role });
+    const loggedInUser = await request.post("/auth/login").send({ username: newUser.username, password: newUser.password });
     const accessToken = loggedInUser.body.accessToken;
     return { userId, accessToken };
 };
@@ -86,6 +92,18 @@ describe("User Routes", () => {
             expect(Array.isArray(response.body)).toBe(true);
             expect(response.body.length).toBe(2);
         });
+
+        it("should not expose password hashes or refresh tokens", async () => {
+            const response = await request
+                .get("/user")
+                .set({authorization: `JWT ${accessToken}`})
+                .expect(200);
+
+            response.body.forEach((user: Record<string, unknown>) => {
+                expect(user.passwordHash).toBeUndefined();
+                expect(user.tokens).toBeUndefined();
+            });
+        });
     });
     
     describe("GET /user/:id", () => {
@@ -98,6 +116,11 @@ describe("User Routes", () => {
                 
             expect(response.body).toBeDefined();
             expect(response.body._id).toBe(userId);
+            expect(response.body.passwordHash).toBeUndefined();
+            expect(response.body.tokens).toBeUndefined();
+            expect(response.body.email).toBeUndefined();
+            expect(response.body.emailVerified).toBeUndefined();
+            expect(response.body.twoFactorEnabled).toBeUndefined();
         });
         
         it("should return user by valid username", async () => {
@@ -117,7 +140,7 @@ describe("User Routes", () => {
                 .set({authorization: `JWT ${accessToken}`})
                 .expect(404);
                 
-            expect(response.text).toBe("User Not Found");
+            expect(response.body.error.message).toBe("User Not Found");
         });
         
         it("should return 404 for non-existent user ID", async () => {
@@ -128,7 +151,7 @@ describe("User Routes", () => {
                 .set({authorization: `JWT ${accessToken}`})
                 .expect(404);
                 
-            expect(response.text).toBe("User Not Found");
+            expect(response.body.error.message).toBe("User Not Found");
         });
     });
     
@@ -156,6 +179,10 @@ describe("User Routes", () => {
             expect(response.body).toBeDefined();
             expect(response.body._id).toBe(testUserId);
             expect(response.body.email).toBe(updatedEmail);
+            expect(response.body.passwordHash).toBeUndefined();
+            expect(response.body.tokens).toBeUndefined();
+            expect(response.body.emailVerified).toBe(false);
+            expect(response.body.twoFactorEnabled).toBe(false);
             
             const updatedUser = await userModel.findById(testUserId);
             expect(updatedUser?.email).toBe(updatedEmail);
@@ -184,7 +211,7 @@ describe("User Routes", () => {
                 .send({ email: "updated@example.com" })
                 .expect(400);
                 
-            expect(response.text).toBe("Invalid User Id");
+            expect(response.body.error.message).toBe("Invalid User Id");
         });
         
         it("should return 400 when body is missing", async () => {
@@ -193,7 +220,7 @@ describe("User Routes", () => {
                 .set({authorization: `JWT ${testUserAccessToken}`})
                 .expect(400);
                 
-            expect(response.text).toBe("Missing Body");
+            expect(response.body.error.message).toBe("Missing Body");
         });
         
         it("should return 400 when trying to update username", async () => {
@@ -203,7 +230,30 @@ describe("User Routes", () => {
                 .send({ username: "newusername" })
                 .expect(400);
                 
-            expect(response.text).toBe("Username cannot be updated");
+            expect(response.body.error.code).toBe("VALIDATION_FAILED");
+            expect(response.body.error.message).toBe('Unrecognized key: "username"');
+        });
+
+        it("should reject attempts to set protected fields", async () => {
+            const response = await request
+                .patch(`/user/${testUserId}`)
+                .set({authorization: `JWT ${testUserAccessToken}`})
+                .send({ passwordHash: "hash", tokens: ["token"] })
+                .expect(400);
+
+            expect(response.body.error.code).toBe("VALIDATION_FAILED");
+            const updatedUser = await userModel.findById(testUserId);
+            expect(updatedUser?.passwordHash).not.toBe("hash");
+        });
+
+        it("should return 400 for an invalid email", async () => {
+            const response = await request
+                .patch(`/user/${testUserId}`)
+                .set({authorization: `JWT ${testUserAccessToken}`})
+                .send({ email: "not-an-email" })
+                .expect(400);
+
+            expect(response.body.error.message).toBe("email must be a valid email address");
         });
         
         it("should return 400 when email already exists", async () => {
@@ -215,19 +265,19 @@ describe("User Routes", () => {
                 .send({ email: testUser2.email })
                 .expect(400);
                 
-            expect(response.text).toBe("Email already exists");
+            expect(response.body.error.message).toBe("Email already exists");
         });
         
-        it("should return 400 for non-existent user ID (authorization check first)", async () => {
+        it("should return 403 for non-existent user ID (authorization check first)", async () => {
             const nonExistentId = new mongoose.Types.ObjectId().toString();
             
             const response = await request
                 .patch(`/user/${nonExistentId}`)
                 .set({authorization: `JWT ${testUserAccessToken}`})
                 .send({ email: "updated@example.com" })
-                .expect(400);
+                .expect(403);
                 
-            expect(response.text).toBe("Unauthorized");
+            expect(response.body.error.message).toBe("Forbidden");
         });
         
         it("Block user from editing other user's data", async () => {
@@ -238,9 +288,9 @@ describe("User Routes", () => {
                 .patch(`/user/${otherUserId}`)
                 .set({authorization: `JWT ${testUserAccessToken}`})
                 .send({ email: "unauthorized@example.com" })
-                .expect(400);
+                .expect(403);
                 
-            expect(response.text).toBe("Unauthorized");
+            expect(response.body.error.message).toBe("Forbidden");
         });
     });
     
@@ -250,6 +300,8 @@ describe("User Routes", () => {
         
         beforeEach(async () => {
             await userModel.deleteMany({});
+            await postModel.deleteMany({});
+            await commentModel.deleteMany({});
             const result = await createAuthenticatedUser();
             testUserId = result.userId;
             testUserAccessToken = result.accessToken;
@@ -262,11 +314,86 @@ describe("User Routes", () => {
                 .expect(200);
                 
             expect(response.body).toBeDefined();
-            expect(response.body._id).toBe(testUserId);
+            expect(response.body.user._id).toBe(testUserId);
+            expect(response.body.mode).toBe("anonymize");
+            expect(response.body.sessionsRevoked).toBe(1);
+            expect(response.body.user.passwordHash).toBeUndefined();
+            expect(response.body.user.tokens).toBeUndefined();
             
             const deletedUser = await userModel.findById(testUserId);
             expect(deletedUser).toBeNull();
         });
+
+        it("should not let the deleted user's access token write anymore", async () => {
+            await request.delete(`/user/${testUserId}`).set({authorization: `JWT ${testUserAccessToken}`}).expect(200);
+
+            const response = await request
+                .post("/post")
+                .set({authorization: `JWT ${testUserAccessToken}`})
+                .send({ title: "ghost", content: "posted after deletion" })
+                .expect(401);
+
+            expect(response.body.error.message).toBe("User No Longer Exists");
+            expect(await postModel.countDocuments({ sender: testUserId })).toBe(0);
+        });
+
+        it("should anonymize the user's posts and comments by default", async () => {
+            const post = await postModel.create({ title: "my post", content: "content", sender: testUserId });
+            await commentModel.create({ postId: post._id, sender: testUserId, content: "my comment" });
+
+            const response = await request
+                .delete(`/user/${testUserId}`)
+                .set({authorization: `JWT ${testUserAccessToken}`})
+                .expect(200);
+
+            expect(response.body.posts).toBe(1);
+            expect(response.body.comments).toBe(1);
+
+            const anonymizedPost = await postModel.findById(post._id);
+            expect(anonymizedPost?.sender.toString()).toBe(DELETED_USER_ID.toString());
+            expect(await commentModel.countDocuments({ sender: DELETED_USER_ID })).toBe(1);
+
+            const users = await request
+                .get("/user")
+                .set({authorization: `JWT ${accessToken}`})
+                .expect(200);
+            expect(users.body.some((user: { _id: string }) => user._id === DELETED_USER_ID.toString())).toBe(false);
+        });
+
+        it("should remove the user's posts and comments in hard mode", async () => {
+            const otherUserId = new mongoose.Types.ObjectId();
+            const post = await postModel.create({ title: "my post", content: "content", sender: testUserId });
+            const otherPost = await postModel.create({ title: "other post", content: "content", sender: otherUserId });
+            await commentModel.create([
+                { postId: post._id, sender: otherUserId, content: "comment on my post" },
+                { postId: otherPost._id, sender: testUserId, content: "my comment elsewhere" },
+                { postId: otherPost._id, sender: otherUserId, content: "unrelated comment" }
+            ]);
+
+            const response = await request
+                .delete(`/user/${testUserId}?mode=hard`)
+                .set({authorization: `JWT ${testUserAccessToken}`})
+                .expect(200);
+
+            expect(response.body.mode).toBe("hard");
+            expect(response.body.posts).toBe(1);
+            expect(response.body.comments).toBe(1);
+            expect(response.body.commentsOnDeletedPosts).toBe(1);
+
+            expect(await postModel.findById(post._id)).toBeNull();
+            expect(await postModel.findById(otherPost._id)).toBeTruthy();
+            expect(await commentModel.countDocuments({})).toBe(1);
+        });
+
+        it("should return 400 for an invalid deletion mode", async () => {
+            const response = await request
+                .delete(`/user/${testUserId}?mode=soft`)
+                .set({authorization: `JWT ${testUserAccessToken}`})
+                .expect(400);
+
+            expect(response.body.error.message).toBe("Invalid Deletion Mode");
+            expect(await userModel.findById(testUserId)).toBeTruthy();
+        });
         
         it("should return 400 for invalid user ID format", async () => {
             const response = await request
@@ -274,18 +401,18 @@ describe("User Routes", () => {
                 .set({authorization: `JWT ${testUserAccessToken}`})
                 .expect(400);
                 
-            expect(response.text).toBe("Invalid User Id");
+            expect(response.body.error.message).toBe("Invalid User Id");
         });
         
-        it("should return 400 for non-existent user ID (authorization check first)", async () => {
+        it("should return 403 for non-existent user ID (authorization check first)", async () => {
             const nonExistentId = new mongoose.Types.ObjectId().toString();
             
             const response = await request
                 .delete(`/user/${nonExistentId}`)
                 .set({authorization: `JWT ${testUserAccessToken}`})
-                .expect(400);
+                .expect(403);
                 
-            expect(response.text).toBe("Unauthorized");
+            expect(response.body.error.message).toBe("Forbidden");
         });
         
         it("Block user from deleting other user", async () => {
@@ -295,9 +422,206 @@ describe("User Routes", () => {
             const response = await request
                 .delete(`/user/${otherUserId}`)
                 .set({authorization: `JWT ${testUserAccessToken}`})
-                .expect(400);
+                .expect(403);
                 
-            expect(response.text).toBe("Unauthorized");
+            expect(response.body.error.message).toBe("Forbidden");
+        });
+
+        it("should let an admin delete another user", async () => {
+            const admin = await createAuthenticatedUser(Role.ADMIN);
+
+            const response = await request
+                .delete(`/user/${testUserId}`)
+                .set({authorization: `JWT ${admin.accessToken}`})
+                .expect(200);
+
+            expect(response.body.user._id).toBe(testUserId);
+            expect(await userModel.findById(testUserId)).toBeNull();
+        });
+
+        it("should not let a moderator delete another user", async () => {
+            const moderator = await createAuthenticatedUser(Role.MODERATOR);
+
+            await request
+                .delete(`/user/${testUserId}`)
+                .set({authorization: `JWT ${moderator.accessToken}`})
+                .expect(403);
+        });
+    });
+
+    describe("PATCH /user/:id/role", () => {
+        let testUserId: string;
+        let testUserAccessToken: string;
+
+        beforeEach(async () => {
+            await userModel.deleteMany({});
+            const result = await createAuthenticatedUser();
+            testUserId = result.userId;
+            testUserAccessToken = result.accessToken;
+        });
+
+        it("should let an admin change a user's role", async () => {
+            const admin = await createAuthenticatedUser(Role.ADMIN);
+
+            const response = await request
+                .patch(`/user/${testUserId}/role`)
+                .set({authorization: `JWT ${admin.accessToken}`})
+                .send({ role: Role.MODERATOR })
+                .expect(200);
+
+            expect(response.body.role).toBe(Role.MODERATOR);
+            const updatedUser = await userModel.findById(testUserId);
+            expect(updatedUser?.role).toBe(Role.MODERATOR);
+        });
+
+        it("should block non-admins from changing roles", async () => {
+            const response = await request
+                .patch(`/user/${testUserId}/role`)
+                .set({authorization: `JWT ${testUserAccessToken}`})
+                .send({ role: Role.ADMIN })
+                .expect(403);
+
+            expect(response.body.error.code).toBe("FORBIDDEN");
+            const user = await userModel.findById(testUserId);
+            expect(user?.role).toBe(Role.USER);
+        });
+
+        it("should reject unknown roles", async () => {
+            const admin = await createAuthenticatedUser(Role.ADMIN);
+
+            const response = await request
+                .patch(`/user/${testUserId}/role`)
+                .set({authorization: `JWT ${admin.accessToken}`})
+                .send({ role: "superuser" })
+                .expect(400);
+
+            expect(response.body.error.message).toBe("Invalid Role");
         });
     });
-});
\ No newline at end of file
+
+    describe("Profiles", () => {
+        let testUserId: string;
+        let testUserAccessToken: string;
+        const stored = new Map<string, Buffer>();
+        const originalStorage = getFileStorage();
+
+        const memoryStorage: FileStorage = {
+            put: async (key, data) => {
+                stored.set(key, data);
+            },
+            delete: async (key) => {
+                stored.delete(key);
+            },
+            url: (key) => `/files/${key}`
+        };
+
+        const uploadAvatar = async () => {
+            const image = await sharp({ create: { width: 600, height: 400, channels: 3, background: "green" } }).jpeg().toBuffer();
+
+            return await request
+                .patch(`/user/${testUserId}`)
+                .set({authorization: `JWT ${testUserAccessToken}`})
+                .attach("avatar", image, { filename: "me.jpg", contentType: "image/jpeg" })
+                .expect(200);
+        };
+
+        beforeAll(() => {
+            setFileStorage(memoryStorage);
+        });
+
+        afterAll(() => {
+            setFileStorage(originalStorage);
+        });
+
+        beforeEach(async () => {
+            stored.clear();
+            const result = await createAuthenticatedUser();
+            testUserId = result.userId;
+            testUserAccessToken = result.accessToken;
+        });
+
+        it("should update and clear profile fields", async () => {
+            const profile = { displayName: "  Test User ", bio: "Hello there", website: "https://example.com", location: "Haifa" };
+
+            const response = await request
+                .patch(`/user/${testUserId}`)
+                .set({authorization: `JWT ${testUserAccessToken}`})
+                .send(profile)
+                .expect(200);
+            expect(response.body).toMatchObject({ ...profile, displayName: "Test User", avatarUrl: null });
+
+            const cleared = await request
+                .patch(`/user/${testUserId}`)
+                .set({authorization: `JWT ${testUserAccessToken}`})
+                .send({ bio: "", website: "" })
+                .expect(200);
+            expect(cleared.body).toMatchObject({ displayName: "Test User", bio: null, website: null, location: "Haifa" });
+
+            const user = await userModel.findById(testUserId);
+            expect(user?.bio).toBeUndefined();
+        });
+
+        it("should reject invalid profile fields", async () => {
+            for (const body of [{ website: "javascript:alert(1)" }, { bio: "a".repeat(501) }, { displayName: "a".repeat(51) }]) {
+                const response = await request
+                    .patch(`/user/${testUserId}`)
+                    .set({authorization: `JWT ${testUserAccessToken}`})
+                    .send(body)
+                    .expect(400);
+                expect(response.body.error.code).toBe("VALIDATION_FAILED");
+            }
+        });
+
+        it("should resize uploaded avatars and replace the old one", async () => {
+            const first = await uploadAvatar();
+            expect(first.body.avatarUrl).toMatch(/^\/files\/avatars\/.+\.webp$/);
+
+            const avatar = await sharp(stored.get(first.body.avatarUrl.replace("/files/", ""))).metadata();
+            expect(avatar.width).toBe(256);
+            expect(avatar.height).toBe(256);
+
+            const second = await uploadAvatar();
+            expect(second.body.avatarUrl).not.toBe(first.body.avatarUrl);
+            expect(stored.size).toBe(1);
+        });
+
+        it("should remove the avatar", async () => {
+            await uploadAvatar();
+
+            const response = await request
+                .patch(`/user/${testUserId}`)
+                .set({authorization: `JWT ${testUserAccessToken}`})
+                .send({ avatar: null })
+                .expect(200);
+            expect(response.body.avatarUrl).toBeNull();
+            expect(stored.size).toBe(0);
+        });
+
+        it("should reject avatars that are not images", async () => {
+            const response = await request
+                .patch(`/user/${testUserId}`)
+                .set({authorization: `JWT ${testUserAccessToken}`})
+                .attach("avatar", Buffer.from("not an image"), { filename: "me.png", contentType: "image/png" })
+                .expect(400);
+            expect(response.body.error.code).toBe("INVALID_ATTACHMENT");
+        });
+
+        it("should return the public profile with content counts", async () => {
+            await request.patch(`/user/${testUserId}`).set({authorization: `JWT ${testUserAccessToken}`}).send({ displayName: "Counted" }).expect(200);
+            const post = await postModel.create({ title: "t", content: "c", sender: testUserId });
+            await commentModel.create({ postId: post._id, sender: testUserId, content: "first" });
+            await commentModel.create({ postId: post._id, sender: testUserId, content: "[deleted]", deleted: true });
+
+            const byId = await request.get(`/user/${testUserId}/profile`).set({authorization: `JWT ${testUserAccessToken}`}).expect(200);
+            expect(byId.body).toMatchObject({ _id: testUserId, displayName: "Counted", postCount: 1, commentCount: 1 });
+            expect(byId.body.email).toBeUndefined();
+
+            const byUsername = await request.get(`/user/${byId.body.username}/profile`).set({authorization: `JWT ${testUserAccessToken}`}).expect(200);
+            expect(byUsername.body._id).toBe(testUserId);
+        });
+
+        it("should return 404 for the profile of an unknown user", async () => {
+            await request.get(`/user/${new mongoose.Types.ObjectId()}/profile`).set({authorization: `JWT ${testUserAccessToken}`}).expect(404);
+        });
+    });
+});
@@ -0,0 +1,105 @@
+import { Request, Response, CookieOptions } from 'express';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import env from './env';
+import { hashToken, tokenExpiry } from './jwt';
+
+export const ACCESS_TOKEN_COOKIE = 'accessToken';
+export const REFRESH_TOKEN_COOKIE = 'refreshToken';
+export const CSRF_TOKEN_COOKIE = 'csrfToken';
+export const CSRF_TOKEN_HEADER = 'x-csrf-token';
+export const OIDC_STATE_COOKIE = 'oidcState';
+
+// The refresh token is only needed to refresh and to log out.
+const REFRESH_TOKEN_PATH = '/auth';
+
+// The OIDC state is only needed to complete a login.
+const OIDC_STATE_PATH = '/auth/oidc';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+interface AuthTokens {
+    accessToken: string,
+    refreshToken: string
+}
+
+const cookieOptions = (token: string, path: string, httpOnly = true): CookieOptions => ({
+    httpOnly,
+    secure: env.COOKIE_SECURE,
+    sameSite: env.COOKIE_SAME_SITE,
+    path,
+    expires: tokenExpiry(token)
+});
+
+/**
+ * Sets the tokens as httpOnly cookies, out of reach of page scripts, together with a
+ * new CSRF token. The CSRF cookie is readable by scripts so the client can echo it
+ * in the `X-CSRF-Token` header; other sites can neither read it nor set the header.
+ */
+export const setAuthCookies = (res: Response, tokens: AuthTokens) => {
+    const csrfToken = randomBytes(32).toString('base64url');
+
+    res.cookie(ACCESS_TOKEN_COOKIE, tokens.accessToken, cookieOptions(tokens.accessToken, '/'));
+    res.cookie(REFRESH_TOKEN_COOKIE, tokens.refreshToken, cookieOptions(tokens.refreshToken, REFRESH_TOKEN_PATH));
+    res.cookie(CSRF_TOKEN_COOKIE, csrfToken, cookieOptions(tokens.refreshToken, '/', false));
+
+    return csrfToken;
+}
+
+export const clearAuthCookies = (res: Response) => {
+    const options = { secure: env.COOKIE_SECURE, sameSite: env.COOKIE_SAME_SITE };
+
+    res.clearCookie(ACCESS_TOKEN_COOKIE, { ...options, httpOnly: true, path: '/' });
+    res.clearCookie(REFRESH_TOKEN_COOKIE, { ...options, httpOnly: true, path: REFRESH_TOKEN_PATH });
+    res.clearCookie(CSRF_TOKEN_COOKIE, { ...options, path: '/' });
+}
+
+export const isSafeMethod = (req: Request) => SAFE_METHODS.includes(req.method);
+
+const matches = (expected: string, actual: string) => {
+    const expectedBytes = Buffer.from(expected);
+    const actualBytes = Buffer.from(actual);
+    return expectedBytes.length === actualBytes.length && timingSafeEqual(expectedBytes, actualBytes);
+}
+
+/**
+ * Ties an OIDC login to the browser that started it. Without this, someone could start
+ * a login, complete it at the provider as themselves and get a victim to post the
+ * resulting code and state, logging the victim into their account.
+ */
+export const setOidcStateCookie = (res: Response, state: string) => {
+    res.cookie(OIDC_STATE_COOKIE, hashToken(state), {
+        httpOnly: true,
+        secure: env.COOKIE_SECURE,
+        sameSite: env.COOKIE_SAME_SITE,
+        path: OIDC_STATE_PATH,
+        maxAge: env.OIDC_AUTHORIZATION_TTL_MINUTES * 60 * 1000
+    });
+}
+
+export const clearOidcStateCookie = (res: Response) => {
+    res.clearCookie(OIDC_STATE_COOKIE, { httpOnly: true, secure: env.COOKIE_SECURE, sameSite: env.COOKIE_SAME_SITE, path: OIDC_STATE_PATH });
+}
+
+export const hasOidcStateCookie = (req: Request, state: string) => {
+    const cookie = req.cookies?.[OIDC_STATE_COOKIE];
+    return typeof cookie === 'string' && matches(cookie, hashToken(state));
+}
+
+/**
+ * Double-submit check for requests authenticated by cookie: state-changing methods
+ * must repeat the CSRF cookie in the `X-CSRF-Token` header.
+ */
+export const hasValidCsrfToken = (req: Request) => {
+    if (isSafeMethod(req)) {
+        return true;
+    }
+
+    const cookie = req.cookies?.[CSRF_TOKEN_COOKIE];
+    const header = req.get(CSRF_TOKEN_HEADER);
+
+    if (typeof cookie !== 'string' || !cookie || !header) {
+        return false;
+    }
+
+    return matches(cookie, header);
+}
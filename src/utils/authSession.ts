@@ -0,0 +1,58 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { ClientInfo, createSession, SessionToken } from '../controllers/session';
+import { issueUserToken } from '../controllers/userToken';
+import { IUser } from '../models/user';
+import { TokenPurpose } from '../models/userToken';
+import { setAuthCookies } from './authCookies';
+import env from './env';
+import { generateToken, hashToken, tokenExpiry, TokenType } from './jwt';
+
+type LoginUser = IUser & { _id: mongoose.Types.ObjectId };
+
+export const clientInfo = (req: Request): ClientInfo => ({
+    userAgent: req.get('user-agent'),
+    ip: req.ip
+});
+
+export const sessionToken = (refreshToken: string): SessionToken => ({
+    tokenHash: hashToken(refreshToken),
+    expiresAt: tokenExpiry(refreshToken)
+});
+
+// Both tokens carry the session ID so the session can be looked up and revoked.
+export const generateTokens = async (user: LoginUser, sessionId: mongoose.Types.ObjectId) => ({
+    accessToken: await generateToken({ '_id': user._id, 'role': user.role, 'sid': sessionId }, TokenType.ACCESS),
+    refreshToken: await generateToken({ '_id': user._id, 'sid': sessionId }, TokenType.REFRESH)
+});
+
+export type AuthTokens = Awaited<ReturnType<typeof generateTokens>>;
+
+// Cookie clients get the tokens as cookies, so only the CSRF token is sent in the body.
+export const sendTokens = (res: Response, tokens: AuthTokens, useCookies: boolean) => {
+    if (useCookies) {
+        return res.status(200).send({ csrfToken: setAuthCookies(res, tokens) });
+    }
+    return res.status(200).send(tokens);
+}
+
+export const startSession = async (req: Request, res: Response, user: LoginUser, useCookies: boolean) => {
+    const sessionId = new mongoose.Types.ObjectId();
+    const tokens = await generateTokens(user, sessionId);
+    await createSession(sessionId, user._id, sessionToken(tokens.refreshToken), clientInfo(req));
+
+    return sendTokens(res, tokens, useCookies);
+}
+
+/**
+ * Finishes a login whose first factor was checked: accounts with two-factor
+ * authentication get a challenge for `/auth/login/2fa`, all others a new session.
+ */
+export const completeLogin = async (req: Request, res: Response, user: LoginUser, useCookies: boolean) => {
+    if (user.twoFactorEnabled) {
+        const challengeToken = await issueUserToken(user._id, TokenPurpose.TWO_FACTOR_CHALLENGE, env.TWO_FACTOR_CHALLENGE_TTL_MINUTES);
+        return res.status(200).send({ twoFactorRequired: true, challengeToken });
+    }
+
+    return await startSession(req, res, user, useCookies);
+}
@@ -0,0 +1,21 @@
+import { diffWordsWithSpace } from 'diff';
+
+export enum ChangeType {
+    ADDED = 'added',
+    REMOVED = 'removed',
+    UNCHANGED = 'unchanged',
+}
+
+export interface TextChange {
+    type: ChangeType,
+    value: string
+}
+
+/**
+ * Word-level changes turning `before` into `after`. Whitespace is kept, so joining the
+ * unchanged and removed parts gives `before` back, and the unchanged and added ones `after`.
+ */
+export const diffText = (before: string, after: string): TextChange[] => diffWordsWithSpace(before, after).map(change => ({
+    type: change.added ? ChangeType.ADDED : change.removed ? ChangeType.REMOVED : ChangeType.UNCHANGED,
+    value: change.value
+}));
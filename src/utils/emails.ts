@@ -0,0 +1,45 @@
+import mongoose from 'mongoose';
+import { getMailer } from './mailer';
+import env from './env';
+import { issueUserToken } from '../controllers/userToken';
+import { TokenPurpose } from '../models/userToken';
+
+interface Recipient {
+    _id: mongoose.Types.ObjectId,
+    username: string,
+    email: string
+}
+
+export const sendVerificationEmail = async (user: Recipient) => {
+    const token = await issueUserToken(user._id, TokenPurpose.EMAIL_VERIFICATION, env.EMAIL_VERIFICATION_TTL_MINUTES);
+
+    await getMailer().send({
+        to: user.email,
+        subject: 'Verify your email address',
+        text: [
+            `Hi ${user.username},`,
+            '',
+            'Confirm your email address by submitting this token to POST /auth/verifyEmail:',
+            token,
+            '',
+            `The token expires in ${env.EMAIL_VERIFICATION_TTL_MINUTES} minutes.`
+        ].join('\n')
+    });
+}
+
+export const sendPasswordResetEmail = async (user: Recipient) => {
+    const token = await issueUserToken(user._id, TokenPurpose.PASSWORD_RESET, env.PASSWORD_RESET_TTL_MINUTES);
+
+    await getMailer().send({
+        to: user.email,
+        subject: 'Reset your password',
+        text: [
+            `Hi ${user.username},`,
+            '',
+            'Choose a new password by submitting this token to POST /auth/resetPassword:',
+            token,
+            '',
+            `The token expires in ${env.PASSWORD_RESET_TTL_MINUTES} minutes. If you did not ask to reset your password, ignore this email.`
+        ].join('\n')
+    });
+}
@@ -11,12 +11,82 @@ const requiredEnvVar = (varname: string) => {
     return value;
 }
 
+export enum EmailVerificationRequirement {
+    NONE = 'none',
+    LOGIN = 'login',
+    POSTING = 'posting',
+}
+
+export enum RateLimitStoreType {
+    MEMORY = 'memory',
+    MONGO = 'mongo',
+}
+
+export enum CookieSameSite {
+    STRICT = 'strict',
+    LAX = 'lax',
+    NONE = 'none',
+}
+
+export enum StorageDriver {
+    LOCAL = 'local',
+    S3 = 's3',
+}
+
+export enum MailTransport {
+    CONSOLE = 'console',
+    FILE = 'file',
+}
+
 const env = {
     PORT: process.env.PORT || 4000,
     DATABASE_URI: process.env.DATABASE_URI || 'mongodb://localhost:27017',
     ACCESS_TOKEN_SECRET: requiredEnvVar("ACCESS_TOKEN_SECRET"),
     REFRESH_TOKEN_SECRET: requiredEnvVar("REFRESH_TOKEN_SECRET"),
-    JWT_TOKEN_EXPIRATION: requiredEnvVar("JWT_TOKEN_EXPIRATION") as StringValue
+    JWT_TOKEN_EXPIRATION: requiredEnvVar("JWT_TOKEN_EXPIRATION") as StringValue,
+    REFRESH_TOKEN_EXPIRATION: (process.env.REFRESH_TOKEN_EXPIRATION || '7d') as StringValue,
+    MAIL_TRANSPORT: (process.env.MAIL_TRANSPORT || MailTransport.CONSOLE) as MailTransport,
+    MAIL_FILE_PATH: process.env.MAIL_FILE_PATH || 'mail.log',
+    MAIL_FROM: process.env.MAIL_FROM || 'no-reply@localhost',
+    // Unverified accounts cannot log in (LOGIN) or create posts and comments (POSTING).
+    EMAIL_VERIFICATION_REQUIRED: (process.env.EMAIL_VERIFICATION_REQUIRED || EmailVerificationRequirement.NONE) as EmailVerificationRequirement,
+    EMAIL_VERIFICATION_TTL_MINUTES: Number(process.env.EMAIL_VERIFICATION_TTL_MINUTES || 24 * 60),
+    PASSWORD_RESET_TTL_MINUTES: Number(process.env.PASSWORD_RESET_TTL_MINUTES || 60),
+    // Time to enter the second factor after the password step of a login.
+    TWO_FACTOR_CHALLENGE_TTL_MINUTES: Number(process.env.TWO_FACTOR_CHALLENGE_TTL_MINUTES || 5),
+    // Shown next to the account in authenticator apps.
+    TOTP_ISSUER: process.env.TOTP_ISSUER || 'API',
+    // JSON array of OpenID Connect providers: [{ name, issuer, clientId, clientSecret, redirectUri, scope? }].
+    OIDC_PROVIDERS: process.env.OIDC_PROVIDERS || '[]',
+    // Time to complete a login at the provider and return with the authorization code.
+    OIDC_AUTHORIZATION_TTL_MINUTES: Number(process.env.OIDC_AUTHORIZATION_TTL_MINUTES || 10),
+    // Disables rate limits and login lockouts, e.g. for test suites that log in repeatedly.
+    RATE_LIMIT_ENABLED: process.env.RATE_LIMIT_ENABLED !== 'false',
+    // Use MONGO when running several instances so they share counters.
+    RATE_LIMIT_STORE: (process.env.RATE_LIMIT_STORE || RateLimitStoreType.MEMORY) as RateLimitStoreType,
+    // Number of reverse proxies in front of the app. Client IPs, which per-IP limits and sessions rely on, are read from X-Forwarded-For behind them.
+    TRUST_PROXY_HOPS: Number(process.env.TRUST_PROXY_HOPS || 0),
+    // Attributes of the auth cookies set for browser clients that log in with `useCookies`.
+    // Disable COOKIE_SECURE only for local development over plain HTTP.
+    COOKIE_SECURE: process.env.COOKIE_SECURE !== 'false',
+    COOKIE_SAME_SITE: (process.env.COOKIE_SAME_SITE || CookieSameSite.LAX) as CookieSameSite,
+    // Where post attachments are stored. LOCAL serves them from UPLOAD_DIR at /uploads.
+    STORAGE_DRIVER: (process.env.STORAGE_DRIVER || StorageDriver.LOCAL) as StorageDriver,
+    UPLOAD_DIR: process.env.UPLOAD_DIR || 'uploads',
+    // Any S3-compatible service, e.g. a local MinIO at http://localhost:9000.
+    S3_ENDPOINT: process.env.S3_ENDPOINT,
+    S3_REGION: process.env.S3_REGION || 'us-east-1',
+    S3_BUCKET: process.env.S3_BUCKET || 'attachments',
+    S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID,
+    S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY,
+    // Base URL the bucket's objects are publicly readable at. Defaults to the bucket on S3_ENDPOINT.
+    S3_PUBLIC_URL: process.env.S3_PUBLIC_URL,
+    ATTACHMENT_MAX_SIZE_MB: Number(process.env.ATTACHMENT_MAX_SIZE_MB || 5),
+    ATTACHMENT_MAX_COUNT: Number(process.env.ATTACHMENT_MAX_COUNT || 4),
+    // Limit of the uploaded file; avatars are stored resized to 256x256 pixels.
+    AVATAR_MAX_SIZE_MB: Number(process.env.AVATAR_MAX_SIZE_MB || 2),
+    // Idle event streams get a comment line this often, so proxies do not close them.
+    STREAM_HEARTBEAT_SECONDS: Number(process.env.STREAM_HEARTBEAT_SECONDS || 25)
 }
 
 export default env;
\ No newline at end of file
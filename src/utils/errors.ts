@@ -0,0 +1,89 @@
+export enum ErrorCode {
+    MISSING_BODY = 'MISSING_BODY',
+    INVALID_JSON = 'INVALID_JSON',
+    INVALID_BODY = 'INVALID_BODY',
+    VALIDATION_FAILED = 'VALIDATION_FAILED',
+    INVALID_ID = 'INVALID_ID',
+    INVALID_QUERY = 'INVALID_QUERY',
+    INVALID_CREDENTIALS = 'INVALID_CREDENTIALS',
+    DUPLICATE_RESOURCE = 'DUPLICATE_RESOURCE',
+    MISSING_AUTHORIZATION = 'MISSING_AUTHORIZATION',
+    INVALID_TOKEN = 'INVALID_TOKEN',
+    TOKEN_EXPIRED = 'TOKEN_EXPIRED',
+    INVALID_CSRF_TOKEN = 'INVALID_CSRF_TOKEN',
+    FORBIDDEN = 'FORBIDDEN',
+    EMAIL_NOT_VERIFIED = 'EMAIL_NOT_VERIFIED',
+    INVALID_TWO_FACTOR_CODE = 'INVALID_TWO_FACTOR_CODE',
+    TWO_FACTOR_ALREADY_ENABLED = 'TWO_FACTOR_ALREADY_ENABLED',
+    TWO_FACTOR_NOT_ENABLED = 'TWO_FACTOR_NOT_ENABLED',
+    OIDC_LOGIN_FAILED = 'OIDC_LOGIN_FAILED',
+    IDENTITY_PROVIDER_ERROR = 'IDENTITY_PROVIDER_ERROR',
+    LAST_LOGIN_METHOD = 'LAST_LOGIN_METHOD',
+    INVALID_ATTACHMENT = 'INVALID_ATTACHMENT',
+    ATTACHMENT_TOO_LARGE = 'ATTACHMENT_TOO_LARGE',
+    TOO_MANY_ATTACHMENTS = 'TOO_MANY_ATTACHMENTS',
+    NOT_FOUND = 'NOT_FOUND',
+    RATE_LIMITED = 'RATE_LIMITED',
+    ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
+    INTERNAL_ERROR = 'INTERNAL_ERROR',
+}
+
+export class HttpError extends Error {
+    constructor(
+        public readonly status: number,
+        public readonly code: ErrorCode,
+        message: string,
+        public readonly details?: unknown
+    ) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+export class BadRequestError extends HttpError {
+    constructor(code: ErrorCode, message: string, details?: unknown) {
+        super(400, code, message, details);
+    }
+}
+
+export class UnauthorizedError extends HttpError {
+    constructor(code: ErrorCode, message: string, details?: unknown) {
+        super(401, code, message, details);
+    }
+}
+
+export class ForbiddenError extends HttpError {
+    constructor(code: ErrorCode, message: string, details?: unknown) {
+        super(403, code, message, details);
+    }
+}
+
+export class NotFoundError extends HttpError {
+    constructor(message: string, details?: unknown) {
+        super(404, ErrorCode.NOT_FOUND, message, details);
+    }
+}
+
+export class ConflictError extends HttpError {
+    constructor(code: ErrorCode, message: string, details?: unknown) {
+        super(409, code, message, details);
+    }
+}
+
+export class PayloadTooLargeError extends HttpError {
+    constructor(code: ErrorCode, message: string, details?: unknown) {
+        super(413, code, message, details);
+    }
+}
+
+export class BadGatewayError extends HttpError {
+    constructor(code: ErrorCode, message: string, details?: unknown) {
+        super(502, code, message, details);
+    }
+}
+
+export class TooManyRequestsError extends HttpError {
+    constructor(code: ErrorCode, message: string, public readonly retryAfterSeconds: number) {
+        super(429, code, message, { retryAfter: retryAfterSeconds });
+    }
+}
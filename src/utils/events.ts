@@ -0,0 +1,49 @@
+import mongoose from 'mongoose';
+import { IComment } from '../models/comment';
+import { IPost } from '../models/post';
+import { INotification } from '../models/notification';
+
+type WithId<T> = T & { _id: mongoose.Types.ObjectId };
+
+// What happened, for whoever needs to react to it, e.g. by notifying users.
+export interface DomainEvents {
+    postCreated: { post: WithId<IPost> },
+    // `newMentions` are the users the edit mentions for the first time.
+    postUpdated: { post: WithId<IPost>, newMentions: mongoose.Types.ObjectId[] },
+    postDeleted: { post: WithId<IPost> },
+    commentCreated: { comment: WithId<IComment> },
+    commentUpdated: { comment: WithId<IComment>, newMentions: mongoose.Types.ObjectId[] },
+    // `comment` is the "[deleted]" placeholder when the comment is kept for its replies.
+    commentDeleted: { comment: WithId<IComment> },
+    userFollowed: { follower: mongoose.Types.ObjectId, following: mongoose.Types.ObjectId },
+    // Created together, so they share the type, actor and subject.
+    notificationsCreated: { notifications: WithId<INotification>[] }
+}
+
+export type DomainEvent = keyof DomainEvents;
+
+type Listener<E extends DomainEvent> = (payload: DomainEvents[E]) => Promise<void> | void;
+
+const listeners = new Map<DomainEvent, Set<(payload: never) => Promise<void> | void>>();
+
+// Subscribing the same listener twice has no effect.
+export const onEvent = <E extends DomainEvent>(event: E, listener: Listener<E>) => {
+    const subscribed = listeners.get(event) ?? new Set();
+    subscribed.add(listener);
+    listeners.set(event, subscribed);
+}
+
+/**
+ * Runs the listeners of an event and waits for them. Their failures are only logged,
+ * since whatever caused the event has already happened.
+ */
+export const emitEvent = async <E extends DomainEvent>(event: E, payload: DomainEvents[E]) => {
+    const subscribed = [...(listeners.get(event) ?? [])] as Listener<E>[];
+    const results = await Promise.allSettled(subscribed.map(async listener => await listener(payload)));
+
+    for (const result of results) {
+        if (result.status === 'rejected') {
+            console.error(result.reason);
+        }
+    }
+}
@@ -0,0 +1,103 @@
+import { mkdir, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { DeleteObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import env, { StorageDriver } from './env';
+
+export interface FileStorage {
+    put(key: string, data: Buffer, contentType: string): Promise<void>,
+    delete(key: string): Promise<void>,
+    // Where clients download the file from.
+    url(key: string): string
+}
+
+export interface S3StorageOptions {
+    endpoint?: string,
+    region: string,
+    bucket: string,
+    accessKeyId?: string,
+    secretAccessKey?: string,
+    publicUrl?: string
+}
+
+// Keys are generated by the server, but are still kept from escaping the directory.
+const resolveKey = (directory: string, key: string) => {
+    const root = path.resolve(directory);
+    const file = path.resolve(root, key);
+
+    if (!file.startsWith(root + path.sep)) {
+        throw new Error(`Invalid Storage Key: ${key}`);
+    }
+    return file;
+}
+
+// Stores files under `directory`, which the app serves at `publicPath`.
+export const diskStorage = (directory: string, publicPath = '/uploads'): FileStorage => ({
+    put: async (key, data) => {
+        const file = resolveKey(directory, key);
+        await mkdir(path.dirname(file), { recursive: true });
+        await writeFile(file, data);
+    },
+    delete: async (key) => {
+        await rm(resolveKey(directory, key), { force: true });
+    },
+    url: (key) => `${publicPath}/${key}`
+});
+
+// Stores files in a bucket of any S3-compatible service, such as MinIO.
+export const s3Storage = (options: S3StorageOptions): FileStorage => {
+    const client = new S3Client({
+        endpoint: options.endpoint,
+        region: options.region,
+        // MinIO and most self-hosted services only support path-style bucket URLs.
+        forcePathStyle: Boolean(options.endpoint),
+        ...(options.accessKeyId && options.secretAccessKey && {
+            credentials: { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        })
+    });
+    const bucketUrl = options.endpoint
+        ? `${options.endpoint.replace(/\/$/, '')}/${options.bucket}`
+        : `https://${options.bucket}.s3.${options.region}.amazonaws.com`;
+    const publicUrl = (options.publicUrl ?? bucketUrl).replace(/\/$/, '');
+
+    return {
+        put: async (key, data, contentType) => {
+            await client.send(new PutObjectCommand({ Bucket: options.bucket, Key: key, Body: data, ContentType: contentType }));
+        },
+        delete: async (key) => {
+            await client.send(new DeleteObjectCommand({ Bucket: options.bucket, Key: key }));
+        },
+        url: (key) => `${publicUrl}/${key}`
+    };
+}
+
+let storage: FileStorage = env.STORAGE_DRIVER === StorageDriver.S3
+    ? s3Storage({
+        endpoint: env.S3_ENDPOINT,
+        region: env.S3_REGION,
+        bucket: env.S3_BUCKET,
+        accessKeyId: env.S3_ACCESS_KEY_ID,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+        publicUrl: env.S3_PUBLIC_URL
+    })
+    : diskStorage(env.UPLOAD_DIR);
+
+export const getFileStorage = () => storage;
+
+// Replaces the configured storage, e.g. with another object store or a test double.
+export const setFileStorage = (fileStorage: FileStorage) => {
+    storage = fileStorage;
+}
+
+/**
+ * Deletes stored files whose records are already gone. Failures are only logged,
+ * since an orphaned file is harmless and the records cannot be restored.
+ */
+export const deleteFiles = async (keys: string[]) => {
+    const results = await Promise.allSettled(keys.map(key => storage.delete(key)));
+
+    for (const result of results) {
+        if (result.status === 'rejected') {
+            console.error(result.reason);
+        }
+    }
+}
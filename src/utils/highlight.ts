@@ -0,0 +1,72 @@
+const SNIPPET_RADIUS = 60;
+
+const HTML_ESCAPES: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+};
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Mongo matches stemmed words, so "posting" also finds "posted". Matching on a
+// crudely stemmed prefix highlights most of those words too.
+const stem = (term: string) => {
+    const stemmed = term.replace(/(ing|ed|es|s)$/, '');
+    return stemmed.length >= 3 ? stemmed : term;
+}
+
+/**
+ * Extracts the words of a text search query, leaving out negated terms ("-word")
+ * since they never appear in the results.
+ */
+export const searchTerms = (query: string) => {
+    const words = query.toLowerCase()
+        .split(/\s+/)
+        .filter(word => !word.startsWith('-'))
+        .flatMap(word => word.match(/[\p{L}\p{N}]+/gu) ?? []);
+
+    return [...new Set(words)];
+}
+
+const termPattern = (terms: string[]) => terms.length > 0
+    ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(term => escapeRegExp(stem(term))).join('|')})[\\p{L}\\p{N}]*`, 'giu')
+    : null;
+
+export const matchesTerms = (text: string, terms: string[]) => {
+    return termPattern(terms)?.test(text) ?? false;
+}
+
+/**
+ * Cuts an HTML-escaped excerpt around the first matching term of `text`, with
+ * every match inside it wrapped in `<mark>`. Falls back to the start of the text
+ * when nothing matches.
+ */
+export const highlight = (text: string, terms: string[]) => {
+    const pattern = termPattern(terms);
+    const first = pattern ? pattern.exec(text) : null;
+    const center = first ? first.index : 0;
+
+    // Cut at whitespace so the excerpt does not begin or end mid-word.
+    const spaceBefore = text.lastIndexOf(' ', Math.max(0, center - SNIPPET_RADIUS));
+    const spaceAfter = text.indexOf(' ', center + SNIPPET_RADIUS);
+    const start = center - SNIPPET_RADIUS > 0 && spaceBefore > 0 ? spaceBefore + 1 : 0;
+    const end = spaceAfter === -1 ? text.length : spaceAfter;
+    const excerpt = text.slice(start, end);
+
+    let snippet = '';
+    let position = 0;
+    if (pattern) {
+        pattern.lastIndex = 0;
+    }
+    for (const match of pattern ? excerpt.matchAll(pattern) : []) {
+        snippet += escapeHtml(excerpt.slice(position, match.index)) + `<mark>${escapeHtml(match[0])}</mark>`;
+        position = match.index + match[0].length;
+    }
+    snippet += escapeHtml(excerpt.slice(position));
+
+    return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
@@ -0,0 +1,96 @@
+import sharp, { FormatEnum } from 'sharp';
+import { BadRequestError, ErrorCode } from './errors';
+
+// Formats accepted for uploaded images, by the format name sharp detects from the file's content.
+export const IMAGE_TYPES: Record<string, { mimeType: string, extension: string }> = {
+    jpeg: { mimeType: 'image/jpeg', extension: 'jpg' },
+    png: { mimeType: 'image/png', extension: 'png' },
+    gif: { mimeType: 'image/gif', extension: 'gif' },
+    webp: { mimeType: 'image/webp', extension: 'webp' }
+};
+
+export const ALLOWED_IMAGE_MIME_TYPES = Object.values(IMAGE_TYPES).map(type => type.mimeType);
+
+const THUMBNAIL_SIZE = 320;
+const AVATAR_SIZE = 256;
+
+const invalidImage = () => new BadRequestError(ErrorCode.INVALID_ATTACHMENT, 'File Is Not A Valid Image');
+
+export interface ProcessedImage {
+    mimeType: string,
+    extension: string,
+    width: number,
+    height: number,
+    data: Buffer,
+    thumbnail: Buffer
+}
+
+/**
+ * Reads the format and size of an uploaded image. The type is taken from the content
+ * rather than the name or declared MIME type, so files that are not really images
+ * of an allowed format are rejected.
+ */
+const readImage = async (data: Buffer) => {
+    const metadata = await sharp(data).metadata().catch(() => {
+        throw invalidImage();
+    });
+    const type = IMAGE_TYPES[metadata.format];
+
+    // Checked before decoding the whole image, so other formats sharp reads (e.g. SVG) are never rendered.
+    if (!type || !metadata.width || !metadata.height) {
+        throw new BadRequestError(ErrorCode.INVALID_ATTACHMENT, 'Unsupported Image Type');
+    }
+    // Orientations 5 to 8 turn the image on its side.
+    const sideways = (metadata.orientation ?? 1) >= 5;
+
+    return {
+        ...type,
+        format: metadata.format,
+        width: sideways ? metadata.height : metadata.width,
+        height: sideways ? metadata.width : metadata.height
+    };
+}
+
+/**
+ * Re-encodes an upload in its own format, upright and without its metadata, so EXIF
+ * data such as where a photo was taken is never served. Animations are kept.
+ */
+const renderOriginal = async (data: Buffer, format: keyof FormatEnum) => {
+    return await sharp(data, { animated: true })
+        .rotate()
+        .toFormat(format)
+        .toBuffer()
+        .catch(() => {
+            throw invalidImage();
+        });
+}
+
+// Re-encodes as WebP, following the EXIF orientation since the metadata is dropped.
+const renderWebp = async (data: Buffer, size: number, fit: 'inside' | 'cover') => {
+    return await sharp(data)
+        .rotate()
+        .resize(size, size, { fit, withoutEnlargement: fit === 'inside' })
+        .webp()
+        .toBuffer()
+        .catch(() => {
+            throw invalidImage();
+        });
+}
+
+// Reads an uploaded attachment and renders the stored copy and its thumbnail.
+export const processImage = async (data: Buffer): Promise<ProcessedImage> => {
+    const { format, ...image } = await readImage(data);
+
+    return {
+        ...image,
+        data: await renderOriginal(data, format),
+        thumbnail: await renderWebp(data, THUMBNAIL_SIZE, 'inside')
+    };
+}
+
+// Crops an uploaded avatar to a square and scales it to AVATAR_SIZE.
+export const renderAvatar = async (data: Buffer) => {
+    await readImage(data);
+
+    return await renderWebp(data, AVATAR_SIZE, 'cover');
+}
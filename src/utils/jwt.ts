@@ -1,14 +1,22 @@
 import jwt, { JwtPayload } from 'jsonwebtoken'
+import { createHash, randomUUID } from 'crypto';
 import env from './env';
 import mongoose from 'mongoose';
-import { getUserById, updateUser } from '../controllers/user';
+import { getUserById } from '../controllers/user';
+import { getSessionById } from '../controllers/session';
+import { BadRequestError, ErrorCode } from './errors';
+import { Role } from '../models/user';
 
 interface JwtUserPayload extends JwtPayload {
   _id: string;
+  role?: Role;
+  sid?: string;
 }
 
 type payload = {
   _id: mongoose.Types.ObjectId;
+  role?: Role;
+  sid: mongoose.Types.ObjectId;
 };
 
 export enum TokenType {
@@ -25,29 +33,57 @@ const tokenConfig = {
   },
   [TokenType.REFRESH]: {
     secret: env.REFRESH_TOKEN_SECRET,
-    options: {},
+    options: {
+      expiresIn: env.REFRESH_TOKEN_EXPIRATION,
+    },
   },
 }
 
 export const generateToken = async (payload: payload, type: TokenType) => {
   const token = tokenConfig[type];
-  return await jwt.sign(payload, token.secret, token.options);
+  // A unique ID keeps tokens issued within the same second from being identical.
+  return await jwt.sign(payload, token.secret, { ...token.options, jwtid: randomUUID() });
+}
+
+// Sessions store only this hash, so a leaked database does not leak usable refresh tokens.
+export const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export const tokenExpiry = (token: string) => {
+  const { exp } = jwt.decode(token) as JwtPayload;
+  return new Date(exp! * 1000);
 }
 
+const invalidRefreshToken = () => new BadRequestError(ErrorCode.INVALID_TOKEN, 'Invalid Refresh Token');
+
+/**
+ * Resolves a refresh token to its user and session. A session is one rotation
+ * family: every refresh replaces its token, so presenting a token the session has
+ * already rotated away from means it was copied, and only that session is revoked.
+ */
 export const verifyRefreshToken = async (token: string) => {
-  const userInfo = jwt.verify(token, env.REFRESH_TOKEN_SECRET) as JwtUserPayload;
-  const user = await getUserById(userInfo._id);
+  let userInfo: JwtUserPayload;
+  try {
+    userInfo = jwt.verify(token, env.REFRESH_TOKEN_SECRET) as JwtUserPayload;
+  } catch {
+    throw invalidRefreshToken();
+  }
 
-  if (!user) {
-    throw new Error("invalid token");
+  const session = userInfo.sid && mongoose.isValidObjectId(userInfo.sid) ? await getSessionById(userInfo.sid) : null;
+
+  if (!session || !session.user.equals(userInfo._id)) {
+    throw invalidRefreshToken();
   }
 
-  if (!user.tokens.includes(token)) {
-    user.tokens = []
-    await updateUser(userInfo._id, user);
-    throw new Error("invalid token");
+  if (session.tokenHash !== hashToken(token)) {
+    await session.deleteOne();
+    throw invalidRefreshToken();
   }
 
-  return user;
-}
+  const user = await getUserById(userInfo._id);
 
+  if (!user) {
+    throw invalidRefreshToken();
+  }
+
+  return { user, session };
+}
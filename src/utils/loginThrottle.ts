@@ -0,0 +1,52 @@
+import env from './env';
+import { ErrorCode, TooManyRequestsError } from './errors';
+import { getRateLimitStore, secondsUntil } from './rateLimitStore';
+
+const MAX_FAILED_LOGINS = 5;
+const FAILED_LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+// Lockouts within this period count towards the next lockout's length.
+const LOCKOUT_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+const failuresKey = (username: string) => `login-failures:${username}`;
+const lockoutsKey = (username: string) => `login-lockouts:${username}`;
+const lockKey = (username: string) => `login-lock:${username}`;
+
+/**
+ * Rejects logins to a locked account before the password is checked. Accounts are
+ * tracked by the submitted username, whether or not it exists, so the response
+ * does not reveal which usernames are registered.
+ */
+export const assertLoginAllowed = async (username: string) => {
+    if (!env.RATE_LIMIT_ENABLED) return;
+
+    const lock = await getRateLimitStore().get(lockKey(username));
+    if (lock) {
+        throw new TooManyRequestsError(ErrorCode.ACCOUNT_LOCKED, 'Account Temporarily Locked', secondsUntil(lock.resetAt));
+    }
+}
+
+/**
+ * Locks the account after `MAX_FAILED_LOGINS` failures within 15 minutes. The
+ * lockout starts at a minute and doubles with every further lockout in the last
+ * 24 hours, up to an hour.
+ */
+export const recordFailedLogin = async (username: string) => {
+    if (!env.RATE_LIMIT_ENABLED) return;
+
+    const store = getRateLimitStore();
+    const failures = await store.increment(failuresKey(username), FAILED_LOGIN_WINDOW_MS);
+    if (failures.count < MAX_FAILED_LOGINS) return;
+
+    await store.reset(failuresKey(username));
+    const lockouts = await store.increment(lockoutsKey(username), LOCKOUT_MEMORY_MS);
+    const lockoutMs = Math.min(BASE_LOCKOUT_MS * 2 ** (lockouts.count - 1), MAX_LOCKOUT_MS);
+    await store.increment(lockKey(username), lockoutMs);
+}
+
+export const clearFailedLogins = async (username: string) => {
+    if (!env.RATE_LIMIT_ENABLED) return;
+
+    await getRateLimitStore().reset(failuresKey(username));
+}
@@ -0,0 +1,42 @@
+import { appendFile } from 'fs/promises';
+import env, { MailTransport } from './env';
+
+export interface MailMessage {
+    to: string,
+    subject: string,
+    text: string
+}
+
+export interface Mailer {
+    send(message: MailMessage): Promise<void>
+}
+
+const format = (message: MailMessage) => [
+    `From: ${env.MAIL_FROM}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    '',
+    message.text
+].join('\n');
+
+export const consoleMailer: Mailer = {
+    send: async (message) => {
+        console.info(`Sending email\n${format(message)}`);
+    }
+};
+
+// Appends every message to a file, separated by blank lines, for inspecting emails in development.
+export const fileMailer = (path: string): Mailer => ({
+    send: async (message) => {
+        await appendFile(path, `${format(message)}\n\n`);
+    }
+});
+
+let mailer: Mailer = env.MAIL_TRANSPORT === MailTransport.FILE ? fileMailer(env.MAIL_FILE_PATH) : consoleMailer;
+
+export const getMailer = () => mailer;
+
+// Replaces the configured transport, e.g. with an SMTP client or a test double.
+export const setMailer = (transport: Mailer) => {
+    mailer = transport;
+}
@@ -0,0 +1,33 @@
+import MarkdownIt from 'markdown-it';
+import sanitizeHtml from 'sanitize-html';
+
+/**
+ * The supported subset: paragraphs and line breaks, emphasis, strikethrough, inline
+ * code and code blocks, block quotes, lists and links. Headings, images and tables are
+ * left as text, and so is raw HTML.
+ */
+const markdown = new MarkdownIt('zero', { breaks: true, linkify: true })
+    .enable(['blockquote', 'code', 'fence', 'list', 'emphasis', 'strikethrough', 'backticks', 'link', 'autolink', 'linkify', 'escape', 'entity', 'newline']);
+
+// Bare URLs become links too, including ones without a protocol such as "www.example.com".
+markdown.linkify.set({ fuzzyLink: true });
+
+// Applied to the rendered HTML as well, so a rendering bug cannot let scripts or event handlers through.
+const sanitizeOptions: sanitizeHtml.IOptions = {
+    allowedTags: ['p', 'br', 'em', 'strong', 's', 'code', 'pre', 'blockquote', 'ul', 'ol', 'li', 'a'],
+    allowedAttributes: {
+        a: ['href', 'rel', 'target'],
+        ol: ['start']
+    },
+    allowedClasses: {
+        code: ['language-*']
+    },
+    allowedSchemes: ['http', 'https', 'mailto'],
+    allowProtocolRelative: false,
+    // Links lead away from the site, so they get no referrer, no access to this window and no search ranking.
+    transformTags: {
+        a: sanitizeHtml.simpleTransform('a', { rel: 'nofollow noopener noreferrer', target: '_blank' })
+    }
+};
+
+export const renderMarkdown = (source: string) => sanitizeHtml(markdown.render(source), sanitizeOptions);
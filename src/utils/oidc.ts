@@ -0,0 +1,212 @@
+import { createHash, createPublicKey } from 'crypto';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import env from './env';
+import { BadGatewayError, BadRequestError, ErrorCode, NotFoundError } from './errors';
+
+export interface OidcProvider {
+    // Used in URLs and stored on linked identities, so it must not change.
+    name: string,
+    issuer: string,
+    clientId: string,
+    clientSecret: string,
+    // The client page that receives the authorization code and posts it to the callback route.
+    redirectUri: string,
+    scope?: string
+}
+
+interface DiscoveryDocument {
+    issuer: string,
+    authorization_endpoint: string,
+    token_endpoint: string,
+    jwks_uri: string
+}
+
+export interface AuthorizationRequest {
+    state: string,
+    nonce: string,
+    codeVerifier: string
+}
+
+export interface OidcClaims {
+    subject: string,
+    email?: string,
+    emailVerified: boolean,
+    preferredUsername?: string
+}
+
+type Jwk = JsonWebKey & { kid?: string };
+
+const DEFAULT_SCOPE = 'openid email profile';
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Asymmetric algorithms only; the client secret is never accepted as a signing key.
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'ES256'];
+
+let providers: OidcProvider[] = JSON.parse(env.OIDC_PROVIDERS);
+const discoveryDocuments = new Map<string, DiscoveryDocument>();
+const signingKeys = new Map<string, Jwk[]>();
+
+export const getOidcProviders = () => providers;
+
+export const getOidcProvider = (name: string) => {
+    const provider = providers.find(provider => provider.name === name);
+
+    if (!provider) {
+        throw new NotFoundError('Provider Not Found');
+    }
+    return provider;
+}
+
+// Replaces the configured providers, e.g. with a local mock provider in tests.
+export const setOidcProviders = (oidcProviders: OidcProvider[]) => {
+    providers = oidcProviders;
+    discoveryDocuments.clear();
+    signingKeys.clear();
+}
+
+const providerError = () => new BadGatewayError(ErrorCode.IDENTITY_PROVIDER_ERROR, 'Identity Provider Request Failed');
+const loginFailed = (message: string) => new BadRequestError(ErrorCode.OIDC_LOGIN_FAILED, message);
+
+const request = async (url: string, init?: RequestInit) => {
+    try {
+        return await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    } catch {
+        throw providerError();
+    }
+}
+
+const fetchJson = async (url: string) => {
+    const response = await request(url, { headers: { accept: 'application/json' } });
+
+    if (!response.ok) {
+        throw providerError();
+    }
+    return await response.json();
+}
+
+const discover = async (provider: OidcProvider) => {
+    const cached = discoveryDocuments.get(provider.issuer);
+    if (cached) return cached;
+
+    const document = await fetchJson(`${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`) as DiscoveryDocument;
+
+    // The discovery document must describe the configured issuer, not some other one.
+    if (document.issuer !== provider.issuer) {
+        throw providerError();
+    }
+
+    discoveryDocuments.set(provider.issuer, document);
+    return document;
+}
+
+// Keys are cached, and fetched again when a token names an unknown key after the provider rotated them.
+const signingKey = async (discovery: DiscoveryDocument, kid?: string) => {
+    const find = (keys: Jwk[]) => kid ? keys.find(key => key.kid === kid) : keys.length === 1 ? keys[0] : undefined;
+
+    let key = find(signingKeys.get(discovery.jwks_uri) ?? []);
+
+    if (!key) {
+        const { keys } = await fetchJson(discovery.jwks_uri) as { keys: Jwk[] };
+        signingKeys.set(discovery.jwks_uri, keys ?? []);
+        key = find(keys ?? []);
+    }
+
+    if (!key) {
+        throw loginFailed('Invalid ID Token');
+    }
+    return createPublicKey({ key, format: 'jwk' });
+}
+
+const verifyIdToken = async (provider: OidcProvider, discovery: DiscoveryDocument, idToken: string, nonce: string) => {
+    const decoded = jwt.decode(idToken, { complete: true });
+
+    if (!decoded) {
+        throw loginFailed('Invalid ID Token');
+    }
+
+    const key = await signingKey(discovery, decoded.header.kid);
+    let claims: JwtPayload;
+
+    try {
+        claims = jwt.verify(idToken, key, {
+            algorithms: ID_TOKEN_ALGORITHMS,
+            issuer: discovery.issuer,
+            audience: provider.clientId
+        }) as JwtPayload;
+    } catch {
+        throw loginFailed('Invalid ID Token');
+    }
+
+    // The nonce ties the token to the authorization this server started.
+    if (!claims.sub || claims.nonce !== nonce) {
+        throw loginFailed('Invalid ID Token');
+    }
+    return claims;
+}
+
+const codeChallenge = (codeVerifier: string) => createHash('sha256').update(codeVerifier).digest('base64url');
+
+export const authorizationUrl = async (provider: OidcProvider, authorization: AuthorizationRequest) => {
+    const { authorization_endpoint } = await discover(provider);
+    const url = new URL(authorization_endpoint);
+
+    const params = {
+        response_type: 'code',
+        client_id: provider.clientId,
+        redirect_uri: provider.redirectUri,
+        scope: provider.scope ?? DEFAULT_SCOPE,
+        state: authorization.state,
+        nonce: authorization.nonce,
+        code_challenge: codeChallenge(authorization.codeVerifier),
+        code_challenge_method: 'S256'
+    };
+
+    for (const [name, value] of Object.entries(params)) {
+        url.searchParams.set(name, value);
+    }
+    return url.toString();
+}
+
+/**
+ * Exchanges an authorization code for the user's verified ID token claims. The
+ * PKCE verifier and nonce must be the ones the authorization was started with.
+ */
+export const exchangeCode = async (provider: OidcProvider, code: string, codeVerifier: string, nonce: string): Promise<OidcClaims> => {
+    const discovery = await discover(provider);
+
+    const response = await request(discovery.token_endpoint, {
+        method: 'POST',
+        headers: { 'content-type': 'application/x-www-form-urlencoded', accept: 'application/json' },
+        body: new URLSearchParams({
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: provider.redirectUri,
+            client_id: provider.clientId,
+            client_secret: provider.clientSecret,
+            code_verifier: codeVerifier
+        })
+    });
+
+    // Providers answer 400 for codes that are invalid, expired or already used.
+    if (response.status === 400) {
+        throw loginFailed('Invalid Authorization Code');
+    }
+    if (!response.ok) {
+        throw providerError();
+    }
+
+    const { id_token: idToken } = await response.json();
+
+    if (typeof idToken !== 'string') {
+        throw providerError();
+    }
+
+    const claims = await verifyIdToken(provider, discovery, idToken, nonce);
+
+    return {
+        subject: String(claims.sub),
+        email: typeof claims.email === 'string' ? claims.email : undefined,
+        // Some providers send the flag as a string.
+        emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+        preferredUsername: typeof claims.preferred_username === 'string' ? claims.preferred_username : undefined
+    };
+}
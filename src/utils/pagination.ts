@@ -0,0 +1,150 @@
+import mongoose, { Model, PipelineStage } from 'mongoose';
+import { BadRequestError, ErrorCode } from './errors';
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+export enum SortOrder {
+    NEWEST = 'newest',
+    OLDEST = 'oldest',
+    MOST_COMMENTED = 'mostCommented',
+    MOST_LIKED = 'mostLiked',
+    MOST_REPLIED = 'mostReplied',
+}
+
+type SortDirection = 1 | -1;
+
+interface SortSpec {
+    field: string,
+    direction: SortDirection,
+    fromCursor: (value: unknown) => unknown,
+    // Whether the field is added by the `paginate` stages rather than stored.
+    computed: boolean
+}
+
+const toDate = (value: unknown) => {
+    const date = new Date(value as string);
+    if (isNaN(date.getTime())) {
+        throw new InvalidQueryError('Invalid Cursor');
+    }
+    return date;
+}
+
+const toNumber = (value: unknown) => {
+    if (typeof value !== 'number') {
+        throw new InvalidQueryError('Invalid Cursor');
+    }
+    return value;
+}
+
+const sortSpecs: Record<SortOrder, SortSpec> = {
+    [SortOrder.NEWEST]: { field: 'createdAt', direction: -1, fromCursor: toDate, computed: false },
+    [SortOrder.OLDEST]: { field: 'createdAt', direction: 1, fromCursor: toDate, computed: false },
+    [SortOrder.MOST_COMMENTED]: { field: 'commentCount', direction: -1, fromCursor: toNumber, computed: true },
+    [SortOrder.MOST_LIKED]: { field: 'likeCount', direction: -1, fromCursor: toNumber, computed: true },
+    [SortOrder.MOST_REPLIED]: { field: 'replyCount', direction: -1, fromCursor: toNumber, computed: true },
+}
+
+export interface PageOptions {
+    limit: number,
+    sort: SortOrder,
+    cursor?: string
+}
+
+export interface Page<T> {
+    items: T[],
+    nextCursor: string | null
+}
+
+type WithId<T> = T & { _id: mongoose.Types.ObjectId };
+
+export interface DateRange {
+    from?: Date,
+    to?: Date
+}
+
+export class InvalidQueryError extends BadRequestError {
+    constructor(message: string) {
+        super(ErrorCode.INVALID_QUERY, message);
+    }
+}
+
+const encodeCursor = (value: unknown, id: mongoose.Types.ObjectId) => {
+    return Buffer.from(JSON.stringify({ v: value, id: id.toString() })).toString('base64url');
+}
+
+const decodeCursor = (cursor: string, spec: SortSpec) => {
+    let decoded;
+    try {
+        decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    } catch {
+        throw new InvalidQueryError('Invalid Cursor');
+    }
+
+    if (!decoded || !mongoose.isValidObjectId(decoded.id)) {
+        throw new InvalidQueryError('Invalid Cursor');
+    }
+
+    return { value: spec.fromCursor(decoded.v), id: new mongoose.Types.ObjectId(decoded.id as string) };
+}
+
+export const createdAtFilter = (range: DateRange) => {
+    if (!range.from && !range.to) {
+        return {};
+    }
+
+    return {
+        createdAt: {
+            ...(range.from && { $gte: range.from }),
+            ...(range.to && { $lte: range.to }),
+        }
+    };
+}
+
+/**
+ * Runs a keyset-paginated aggregation. `stages` may add computed fields (e.g.
+ * `commentCount` or `likeCount`) that the selected sort order relies on, and then run
+ * on every matching document. When sorting by a stored field they only run on the
+ * page, after an index can serve the sort and limit, so they must not drop documents.
+ * `R` is the type of the documents the stages produce, when they reshape them.
+ */
+export const paginate = async <T, R extends { _id: mongoose.Types.ObjectId } = WithId<T>>(
+    model: Model<T>,
+    filter: Record<string, unknown>,
+    stages: PipelineStage[],
+    options: PageOptions
+): Promise<Page<R>> => {
+    const spec = sortSpecs[options.sort];
+    const pipeline: PipelineStage[] = [{ $match: filter }, ...(spec.computed ? stages : [])];
+
+    if (options.cursor) {
+        const { value, id } = decodeCursor(options.cursor, spec);
+        const comparison = spec.direction === 1 ? '$gt' : '$lt';
+        pipeline.push({
+            $match: {
+                $or: [
+                    { [spec.field]: { [comparison]: value } },
+                    { [spec.field]: value, _id: { [comparison]: id } }
+                ]
+            }
+        });
+    }
+
+    pipeline.push(
+        { $sort: { [spec.field]: spec.direction, _id: spec.direction } },
+        { $limit: options.limit + 1 },
+        ...(spec.computed ? [] : stages)
+    );
+
+    const docs = await model.aggregate<R>(pipeline);
+    const items = docs.slice(0, options.limit);
+    const last = items[items.length - 1];
+    const nextCursor = docs.length > options.limit ? encodeCursor((last as Record<string, unknown>)[spec.field], last._id) : null;
+
+    return { items, nextCursor };
+}
+
+export const mapPage = <T, R>(page: Page<T>, mapper: (item: T) => R): Page<R> => ({
+    items: page.items.map(mapper),
+    nextCursor: page.nextCursor
+});
@@ -0,0 +1,17 @@
+import { Role } from '../models/user';
+
+export enum Permission {
+    MODERATE_POSTS = 'posts:moderate',
+    MODERATE_COMMENTS = 'comments:moderate',
+    MANAGE_USERS = 'users:manage',
+}
+
+const rolePermissions: Record<Role, Permission[]> = {
+    [Role.USER]: [],
+    [Role.MODERATOR]: [Permission.MODERATE_POSTS, Permission.MODERATE_COMMENTS],
+    [Role.ADMIN]: Object.values(Permission),
+}
+
+export const hasPermission = (role: Role | undefined, permission: Permission) => {
+    return rolePermissions[role ?? Role.USER]?.includes(permission) ?? false;
+}
@@ -0,0 +1,47 @@
+// Messages are plain JSON, so they can be sent through a message broker unchanged.
+export interface RealtimeMessage {
+    event: string,
+    data: unknown
+}
+
+export type MessageListener = (message: RealtimeMessage) => void;
+
+export interface PubSub {
+    publish(channel: string, message: RealtimeMessage): Promise<void>,
+    // Resolves to a function that ends the subscription.
+    subscribe(channel: string, listener: MessageListener): Promise<() => Promise<void>>
+}
+
+// Only reaches subscribers connected to the same process.
+export const memoryPubSub = (): PubSub => {
+    const channels = new Map<string, Set<MessageListener>>();
+
+    return {
+        publish: async (channel, message) => {
+            for (const listener of channels.get(channel) ?? []) {
+                listener(message);
+            }
+        },
+        subscribe: async (channel, listener) => {
+            const listeners = channels.get(channel) ?? new Set();
+            listeners.add(listener);
+            channels.set(channel, listeners);
+
+            return async () => {
+                listeners.delete(listener);
+                if (listeners.size === 0 && channels.get(channel) === listeners) {
+                    channels.delete(channel);
+                }
+            };
+        }
+    };
+}
+
+let pubSub: PubSub = memoryPubSub();
+
+export const getPubSub = () => pubSub;
+
+// Replaces the in-process pub/sub, e.g. with a Redis or NATS client when running several instances.
+export const setPubSub = (instance: PubSub) => {
+    pubSub = instance;
+}
@@ -0,0 +1,110 @@
+import { MongoServerError } from 'mongodb';
+import rateLimitModel from '../models/rateLimit';
+import env, { RateLimitStoreType } from './env';
+
+export interface RateLimitCounter {
+    count: number,
+    resetAt: Date
+}
+
+/**
+ * Keeps fixed-window counters. `increment` starts a new window of `windowMs` when
+ * the key has no counter or its window has ended.
+ */
+export interface RateLimitStore {
+    increment(key: string, windowMs: number): Promise<RateLimitCounter>,
+    get(key: string): Promise<RateLimitCounter | null>,
+    reset(key: string): Promise<void>
+}
+
+export const secondsUntil = (date: Date) => Math.max(0, Math.ceil((date.getTime() - Date.now()) / 1000));
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Counters live in the process, so every instance enforces its own limits.
+export const memoryStore = (): RateLimitStore => {
+    const counters = new Map<string, RateLimitCounter>();
+    let nextSweep = Date.now() + SWEEP_INTERVAL_MS;
+
+    const active = (key: string) => {
+        const counter = counters.get(key);
+        if (counter && counter.resetAt.getTime() <= Date.now()) {
+            counters.delete(key);
+            return undefined;
+        }
+        return counter;
+    }
+
+    // Drops ended windows of keys that are not requested again.
+    const sweep = () => {
+        const now = Date.now();
+        if (now < nextSweep) return;
+
+        for (const [key, counter] of counters) {
+            if (counter.resetAt.getTime() <= now) counters.delete(key);
+        }
+        nextSweep = now + SWEEP_INTERVAL_MS;
+    }
+
+    return {
+        increment: async (key, windowMs) => {
+            sweep();
+            const counter = active(key) ?? { count: 0, resetAt: new Date(Date.now() + windowMs) };
+            counter.count++;
+            counters.set(key, counter);
+            return { ...counter };
+        },
+        get: async (key) => {
+            const counter = active(key);
+            return counter ? { ...counter } : null;
+        },
+        reset: async (key) => {
+            counters.delete(key);
+        }
+    };
+}
+
+const incrementCounter = async (key: string, windowMs: number) => {
+    const now = new Date();
+    const windowActive = { $gt: ['$resetAt', now] };
+
+    // A single pipeline update keeps concurrent increments atomic. The TTL index
+    // removes ended windows only periodically, so they are restarted here as well.
+    return await rateLimitModel.findOneAndUpdate({ key }, [{
+        $set: {
+            count: { $cond: [windowActive, { $add: ['$count', 1] }, 1] },
+            resetAt: { $cond: [windowActive, '$resetAt', new Date(now.getTime() + windowMs)] }
+        }
+    }], { upsert: true, new: true, updatePipeline: true }).lean();
+}
+
+// Counters are shared by every instance connected to the same database.
+export const mongoStore: RateLimitStore = {
+    increment: async (key, windowMs) => {
+        let counter;
+        try {
+            counter = await incrementCounter(key, windowMs);
+        } catch (error) {
+            // Two concurrent upserts of a new key; the loser retries as an update.
+            if (!(error instanceof MongoServerError && error.code === 11000)) throw error;
+            counter = await incrementCounter(key, windowMs);
+        }
+        return { count: counter!.count, resetAt: counter!.resetAt };
+    },
+    get: async (key) => {
+        const counter = await rateLimitModel.findOne({ key, resetAt: { $gt: new Date() } }).lean();
+        return counter ? { count: counter.count, resetAt: counter.resetAt } : null;
+    },
+    reset: async (key) => {
+        await rateLimitModel.deleteOne({ key });
+    }
+};
+
+let store: RateLimitStore = env.RATE_LIMIT_STORE === RateLimitStoreType.MONGO ? mongoStore : memoryStore();
+
+export const getRateLimitStore = () => store;
+
+// Replaces the configured store, e.g. with a Redis-backed one or a fresh store between tests.
+export const setRateLimitStore = (rateLimitStore: RateLimitStore) => {
+    store = rateLimitStore;
+}
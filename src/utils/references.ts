@@ -0,0 +1,29 @@
+// More mentions or hashtags than this in one text are ignored, so a single post cannot notify everyone.
+export const MAX_REFERENCES = 20;
+
+export const TAG_MAX_LENGTH = 50;
+
+// `@username`, unless the "@" is part of a word such as an email address. A trailing "." or "-" ends the sentence, not the username.
+const MENTION_PATTERN = /(?<![\w.@-])@([a-zA-Z0-9_.-]*[a-zA-Z0-9_])/g;
+
+// `#tag` of letters, digits and underscores in any script, unless the "#" is part of a word or an HTML entity such as `&#39;`.
+const HASHTAG_PATTERN = /(?<![\p{L}\p{N}_&#])#([\p{L}\p{N}_]+)/gu;
+
+// Tags are compared case-insensitively, and "#2024" is a number rather than a tag.
+export const TAG_PATTERN = /^(?=.*\p{L})[\p{L}\p{N}_]+$/u;
+
+const unique = (values: string[]) => [...new Set(values)].slice(0, MAX_REFERENCES);
+
+// Returns the usernames mentioned in a text, each once, in order of appearance.
+export const extractMentions = (text: string) => unique(
+    [...text.matchAll(MENTION_PATTERN)]
+        .map(match => match[1])
+        .filter(username => username.length >= 3 && username.length <= 30)
+);
+
+// Returns the lowercased hashtags of a text, each once, in order of appearance.
+export const extractHashtags = (text: string) => unique(
+    [...text.matchAll(HASHTAG_PATTERN)]
+        .map(match => match[1].toLowerCase())
+        .filter(tag => tag.length <= TAG_MAX_LENGTH && TAG_PATTERN.test(tag))
+);
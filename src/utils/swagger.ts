@@ -1,5 +1,34 @@
 import swaggerJsdoc from 'swagger-jsdoc';
 import swaggerUi from 'swagger-ui-express';
+import { z } from 'zod';
+import { ErrorCode } from './errors';
+import { registerBody, loginBody, logoutBody, verifyEmailBody, emailBody, resetPasswordBody, twoFactorCodeBody, disableTwoFactorBody, twoFactorLoginBody } from '../schemas/auth';
+import { updateRoleBody, updateUserBody } from '../schemas/user';
+import { Role } from '../models/user';
+import { ReactionType } from '../models/reaction';
+import { ChangeType } from './diff';
+import { postBody } from '../schemas/post';
+import { oidcLinkBody, oidcLoginBody } from '../schemas/oidc';
+import { createCommentBody, updateCommentBody } from '../schemas/comment';
+import { notificationPreferencesBody } from '../schemas/notification';
+import { NotificationType } from '../models/notification';
+
+// Request body schemas are generated from the same zod schemas the routes validate against.
+const requestSchema = (schema: z.ZodType) => z.toJSONSchema(schema, { target: 'openapi-3.0', io: 'input' });
+
+// Shared by the user returned to the account owner and the public profile.
+const profileProperties = {
+  displayName: { type: 'string', nullable: true, example: 'John Doe' },
+  bio: { type: 'string', nullable: true, example: 'Coffee, code and cats.' },
+  website: { type: 'string', nullable: true, example: 'https://johndoe.dev' },
+  location: { type: 'string', nullable: true, example: 'Tel Aviv' },
+  avatarUrl: {
+    type: 'string',
+    nullable: true,
+    description: '256x256 WebP image',
+    example: '/uploads/avatars/507f1f77bcf86cd799439011-65b7c9c8e2f0a9a1f2c9d888.webp',
+  },
+};
 
 const options = {
   definition: {
@@ -18,6 +47,34 @@ const options = {
         name: 'Comments',
         description: 'Comment management operations',
       },
+      {
+        name: 'Reactions',
+        description: 'Likes and emoji reactions on posts and comments',
+      },
+      {
+        name: 'Revisions',
+        description: 'Edit history of posts and comments',
+      },
+      {
+        name: 'Search',
+        description: 'Full-text search across posts, comments and users',
+      },
+      {
+        name: 'Feed',
+        description: 'Posts of followed users',
+      },
+      {
+        name: 'Tags',
+        description: 'Hashtags used in posts and comments',
+      },
+      {
+        name: 'Notifications',
+        description: 'Comments, replies, mentions and follows that concern the authenticated user',
+      },
+      {
+        name: 'Streams',
+        description: 'Real-time updates over Server-Sent Events',
+      },
     ],
     servers: [
       {
@@ -28,6 +85,9 @@ const options = {
     security: [
       {
         BearerAuth: []
+      },
+      {
+        CookieAuth: []
       }
     ],
     components: {
@@ -36,12 +96,19 @@ const options = {
           type: "http",
           scheme: "bearer",
           bearerFormat: "JWT"
+        },
+        CookieAuth: {
+          type: "apiKey",
+          in: "cookie",
+          name: "accessToken",
+          description: "Set by logging in with `useCookies`. State-changing requests must repeat the `csrfToken` cookie in the `X-CSRF-Token` header."
         }
       },
       schemas: {
         User: {
           type: 'object',
-          required: ['username', 'email', 'passwordHash'],
+          description: 'Public user profile. Password hashes and refresh tokens are never returned.',
+          required: ['_id', 'username'],
           properties: {
             _id: {
               type: 'string',
@@ -53,62 +120,228 @@ const options = {
               description: 'Unique username for the user',
               example: 'johndoe',
             },
-            email: {
+            role: {
               type: 'string',
-              format: 'email',
-              description: 'Unique email address for the user',
-              example: 'john@example.com',
+              enum: Object.values(Role),
+              description: 'Access role of the user',
+              example: 'user',
             },
-            passwordHash: {
-              type: 'string',
-              description: 'Bcrypt hashed password',
-              example: '$2b$10$...',
+            ...profileProperties,
+          },
+        },
+        AccountUser: {
+          description: 'User as the account owner and admins see it, including the email and the state of its security settings.',
+          allOf: [
+            { $ref: '#/components/schemas/User' },
+            {
+              type: 'object',
+              required: ['email'],
+              properties: {
+                email: {
+                  type: 'string',
+                  format: 'email',
+                  description: 'Unique email address for the user',
+                  example: 'john@example.com',
+                },
+                emailVerified: {
+                  type: 'boolean',
+                  description: 'Whether the user confirmed their email address',
+                  example: true,
+                },
+                twoFactorEnabled: {
+                  type: 'boolean',
+                  description: 'Whether logging in requires a code from an authenticator app',
+                  example: false,
+                },
+              },
             },
+          ],
+        },
+        UserProfile: {
+          type: 'object',
+          description: 'Public profile of a user, as anyone can see it.',
+          properties: {
+            _id: { type: 'string', example: '507f1f77bcf86cd799439011' },
+            username: { type: 'string', example: 'johndoe' },
+            role: { type: 'string', enum: Object.values(Role), example: 'user' },
+            ...profileProperties,
+            postCount: { type: 'integer', example: 12 },
+            commentCount: { type: 'integer', description: 'Comments that are not deleted', example: 48 },
+            followerCount: { type: 'integer', example: 30 },
+            followingCount: { type: 'integer', example: 25 },
           },
         },
-        UpdateUserRequest: {
+        Follow: {
           type: 'object',
           properties: {
-            email: {
+            _id: { type: 'string', example: '65b7c9c8e2f0a9a1f2c9d555' },
+            user: {
+              type: 'object',
+              description: 'The follower or the followed user, depending on the list',
+              properties: {
+                _id: { type: 'string', example: '507f1f77bcf86cd799439011' },
+                username: { type: 'string', example: 'johndoe' },
+                displayName: { type: 'string', nullable: true, example: 'John Doe' },
+                avatarUrl: { type: 'string', nullable: true, example: '/uploads/avatars/507f1f77bcf86cd799439011-65b7c9c8e2f0a9a1f2c9d666.webp' },
+              },
+            },
+            createdAt: { type: 'string', format: 'date-time', description: 'When the follow started', example: '2025-01-01T12:00:00.000Z' },
+          },
+        },
+        FollowPage: {
+          type: 'object',
+          properties: {
+            items: { type: 'array', items: { $ref: '#/components/schemas/Follow' } },
+            nextCursor: {
               type: 'string',
-              format: 'email',
-              description: 'New email address for the user',
-              example: 'newemail@example.com',
+              nullable: true,
+              description: 'Cursor for the next page, or null when there are no more results',
+              example: 'eyJ2IjoiMjAyNS0wMS0wMVQxMjowMDowMC4wMDBaIiwiaWQiOiI2NWI3YzljOGUyZjBhOWExZjJjOWQ1NTUifQ',
+            },
+          },
+        },
+        FollowStatus: {
+          type: 'object',
+          properties: {
+            following: { type: 'boolean', description: 'Whether the authenticated user follows the user', example: true },
+            followerCount: { type: 'integer', example: 31 },
+          },
+        },
+        AccountDeletionReport: {
+          type: 'object',
+          properties: {
+            user: {
+              $ref: '#/components/schemas/AccountUser',
             },
-            password: {
+            mode: {
               type: 'string',
-              description: 'New password (will be hashed)',
-              example: 'newPassword123',
+              enum: ['anonymize', 'hard'],
+              example: 'anonymize',
+            },
+            posts: {
+              type: 'integer',
+              description: 'Number of posts removed or anonymized',
+              example: 4,
+            },
+            comments: {
+              type: 'integer',
+              description: 'Number of comments removed or anonymized',
+              example: 12,
+            },
+            commentsOnDeletedPosts: {
+              type: 'integer',
+              description: "Other users' comments removed together with the user's posts (hard mode only)",
+              example: 7,
+            },
+            reactions: {
+              type: 'integer',
+              description: 'Number of reactions left by the user that were removed',
+              example: 25,
+            },
+            sessionsRevoked: {
+              type: 'integer',
+              description: 'Number of sessions revoked',
+              example: 2,
             },
           },
         },
-          RegisterRequest: {
+        UpdateUserRequest: requestSchema(updateUserBody),
+        UpdateUserWithAvatarRequest: {
+          allOf: [
+            { $ref: '#/components/schemas/UpdateUserRequest' },
+            {
+              type: 'object',
+              properties: {
+                avatar: { type: 'string', format: 'binary', description: 'JPEG, PNG, GIF or WebP image' },
+              },
+            },
+          ],
+        },
+        UpdateRoleRequest: requestSchema(updateRoleBody),
+        RegisterRequest: requestSchema(registerBody),
+        LoginRequest: requestSchema(loginBody),
+        LogoutRequest: requestSchema(logoutBody),
+        VerifyEmailRequest: requestSchema(verifyEmailBody),
+        EmailRequest: requestSchema(emailBody),
+        ResetPasswordRequest: requestSchema(resetPasswordBody),
+        TwoFactorLoginRequest: requestSchema(twoFactorLoginBody),
+        TwoFactorCodeRequest: requestSchema(twoFactorCodeBody),
+        DisableTwoFactorRequest: requestSchema(disableTwoFactorBody),
+        TwoFactorChallenge: {
           type: "object",
-          required: ["username", "email", "password"],
           properties: {
-            username: { type: "string", example: "niv" },
-            email: { type: "string", example: "niv@example.com" },
-            password: { type: "string", example: "strongpassword123" }
+            twoFactorRequired: { type: "boolean", example: true },
+            challengeToken: {
+              type: "string",
+              description: "Send with a code to `/auth/login/2fa` to complete the login",
+              example: "q6Xx0p3b2Yk9mW1tZr8sVn4uJc7aLd5eHf2gKi0oPq"
+            }
           }
         },
-        LoginRequest: {
+        OidcLoginRequest: requestSchema(oidcLoginBody),
+        OidcLinkRequest: requestSchema(oidcLinkBody),
+        OidcProvider: {
           type: "object",
-          required: ["username", "password"],
           properties: {
-            username: { type: "string", example: "niv" },
-            password: { type: "string", example: "strongpassword123" }
+            name: { type: "string", example: "google" }
           }
         },
-        LogoutRequest: {
+        OidcAuthorization: {
           type: "object",
-          required: ["refreshToken"],
           properties: {
-            refreshToken: {
+            authorizationUrl: {
               type: "string",
-              example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+              description: "Provider URL to send the user to",
+              example: "https://accounts.google.com/o/oauth2/v2/auth?response_type=code&client_id=...&code_challenge_method=S256"
+            }
+          }
+        },
+        Identity: {
+          type: "object",
+          properties: {
+            _id: { type: "string", example: "65b7c9c8e2f0a9a1f2c9d666" },
+            provider: { type: "string", example: "google" },
+            email: { type: "string", nullable: true, description: "Email of the provider account at its last login", example: "niv@gmail.com" },
+            createdAt: { type: "string", format: "date-time", example: "2025-01-01T12:00:00.000Z" },
+            lastLoginAt: { type: "string", format: "date-time", nullable: true, example: "2025-01-02T08:30:00.000Z" }
+          }
+        },
+        TwoFactorEnrollment: {
+          type: "object",
+          properties: {
+            secret: { type: "string", description: "Base32 TOTP secret, for entering into the authenticator app by hand", example: "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP" },
+            otpauthUri: { type: "string", example: "otpauth://totp/API:niv?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=API&algorithm=SHA1&digits=6&period=30" }
+          }
+        },
+        RecoveryCodes: {
+          type: "object",
+          properties: {
+            recoveryCodes: {
+              type: "array",
+              description: "One-time codes that replace an authenticator code, e.g. when the device is lost",
+              items: { type: "string", example: "3f9a1-c07e2" }
             }
           }
         },
+        TwoFactorStatus: {
+          type: "object",
+          properties: {
+            enabled: { type: "boolean", example: true },
+            recoveryCodesRemaining: { type: "integer", example: 8 }
+          }
+        },
+        Session: {
+          type: "object",
+          properties: {
+            _id: { type: "string", example: "65b7c9c8e2f0a9a1f2c9d555" },
+            userAgent: { type: "string", nullable: true, description: "User agent of the client that last used the session", example: "Mozilla/5.0 (X11; Linux x86_64)" },
+            ip: { type: "string", nullable: true, description: "IP address the session was last used from", example: "203.0.113.7" },
+            current: { type: "boolean", description: "Whether this is the session of the access token used for the request", example: true },
+            createdAt: { type: "string", format: "date-time", example: "2025-01-01T12:00:00.000Z" },
+            lastUsedAt: { type: "string", format: "date-time", example: "2025-01-02T08:30:00.000Z" },
+            expiresAt: { type: "string", format: "date-time", description: "When the session ends unless its refresh token is used before then", example: "2025-01-09T08:30:00.000Z" }
+          }
+        },
         AuthTokens: {
           type: "object",
           properties: {
@@ -116,20 +349,45 @@ const options = {
             refreshToken: { type: "string", example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..." }
           }
         },
-        CreatePostRequest: {
+        CsrfToken: {
           type: "object",
-          required: ["title", "content"],
           properties: {
-            title: { type: "string", example: "My first post" },
-            content: { type: "string", example: "This is the content of the post." }
+            csrfToken: {
+              type: "string",
+              description: "Also set as the `csrfToken` cookie; send it in the `X-CSRF-Token` header",
+              example: "N2k4c0Q3bV9yUXpLd1h5dEZnSGpMbU5vUHFSc1R1Vg"
+            }
+          }
+        },
+        CreatePostRequest: requestSchema(postBody),
+        UpdatePostRequest: requestSchema(postBody),
+        CreatePostWithAttachmentsRequest: {
+          allOf: [
+            { $ref: '#/components/schemas/CreatePostRequest' },
+            { $ref: '#/components/schemas/AttachmentUpload' }
+          ]
+        },
+        AttachmentUpload: {
+          type: "object",
+          properties: {
+            attachments: {
+              type: "array",
+              items: { type: "string", format: "binary" },
+              description: "JPEG, PNG, GIF or WebP images"
+            }
           }
         },
-        UpdatePostRequest: {
+        Attachment: {
           type: "object",
-          required: ["title", "content"],
           properties: {
-            title: { type: "string", example: "Updated post title" },
-            content: { type: "string", example: "Updated content of the post." }
+            _id: { type: "string", example: "65b7c9c8e2f0a9a1f2c9d777" },
+            url: { type: "string", example: "/uploads/attachments/65b7c9c8e2f0a9a1f2c9d777.jpg" },
+            thumbnailUrl: { type: "string", description: "WebP thumbnail of at most 320x320 pixels", example: "/uploads/attachments/65b7c9c8e2f0a9a1f2c9d777-thumbnail.webp" },
+            filename: { type: "string", description: "Name of the uploaded file", example: "beach.jpg" },
+            mimeType: { type: "string", enum: ["image/jpeg", "image/png", "image/gif", "image/webp"], example: "image/jpeg" },
+            size: { type: "integer", description: "Size in bytes", example: 482133 },
+            width: { type: "integer", example: 1920 },
+            height: { type: "integer", example: 1080 }
           }
         },
         Post: {
@@ -137,45 +395,326 @@ const options = {
           properties: {
             _id: { type: "string", example: "65b7c9c8e2f0a9a1f2c9d111" },
             title: { type: "string", example: "My first post" },
-            content: { type: "string", example: "This is the content of the post." },
-            sender: { type: "string", example: "65b7c9c8e2f0a9a1f2c9d111" }
+            content: { type: "string", description: "Markdown source", example: "This is the **content** of the post." },
+            contentHtml: { type: "string", description: "Sanitized HTML rendered from the content", example: "<p>This is the <strong>content</strong> of the post.</p>\n" },
+            sender: { type: "string", example: "65b7c9c8e2f0a9a1f2c9d111" },
+            attachments: { type: "array", items: { $ref: '#/components/schemas/Attachment' } },
+            mentions: { type: "array", description: "IDs of the users mentioned in the content", items: { type: "string" }, example: ["65b7c9c8e2f0a9a1f2c9d333"] },
+            tags: { type: "array", description: "Lowercased hashtags used in the content", items: { type: "string" }, example: ["typescript"] },
+            commentCount: { type: "integer", example: 3 },
+            reactions: { $ref: '#/components/schemas/ReactionCounts' },
+            editedAt: { type: "string", format: "date-time", nullable: true, description: "When the title or content was last changed, or null if never edited", example: null },
+            editedBy: { type: "string", nullable: true, description: "ID of the user who made the last edit, or null if never edited", example: null },
+            createdAt: { type: "string", format: "date-time", example: "2025-01-01T12:00:00.000Z" },
+            updatedAt: { type: "string", format: "date-time", example: "2025-01-01T12:00:00.000Z" }
           }
         },
-        CreateCommentRequest: {
+        PostPage: {
           type: "object",
-          required: ["postId", "content"],
           properties: {
+            items: { type: "array", items: { $ref: '#/components/schemas/Post' } },
+            nextCursor: {
+              type: "string",
+              nullable: true,
+              description: "Cursor for the next page, or null when there are no more results",
+              example: "eyJ2IjoiMjAyNS0wMS0wMVQxMjowMDowMC4wMDBaIiwiaWQiOiI2NWI3YzljOGUyZjBhOWExZjJjOWQxMTEifQ"
+            }
+          }
+        },
+        CreateCommentRequest: requestSchema(createCommentBody),
+        UpdateCommentRequest: requestSchema(updateCommentBody),
+        Comment: {
+          type: "object",
+          properties: {
+            _id: { type: "string", example: "65b7c9c8e2f0a9a1f2c9d222" },
             postId: { type: "string", example: "65b7c9c8e2f0a9a1f2c9d111" },
-            content: { type: "string", example: "This is a great post!" }
+            parentCommentId: { type: "string", nullable: true, description: "Comment this one replies to, or null for a top-level comment", example: null },
+            depth: { type: "integer", description: "Nesting level, 0 for a top-level comment", example: 0 },
+            sender: { type: "string", nullable: true, description: "Null for deleted comments", example: "65b7c9c8e2f0a9a1f2c9d333" },
+            content: { type: "string", description: "Markdown source", example: "This is a _great_ post!" },
+            contentHtml: { type: "string", description: "Sanitized HTML rendered from the content", example: "<p>This is a <em>great</em> post!</p>\n" },
+            mentions: { type: "array", description: "IDs of the users mentioned in the content", items: { type: "string" }, example: [] },
+            tags: { type: "array", description: "Lowercased hashtags used in the content", items: { type: "string" }, example: [] },
+            deleted: { type: "boolean", description: 'True for a "[deleted]" placeholder kept because the comment has replies', example: false },
+            replyCount: { type: "integer", description: "Number of direct replies", example: 2 },
+            reactions: { $ref: '#/components/schemas/ReactionCounts' },
+            editedAt: { type: "string", format: "date-time", nullable: true, description: "When the content was last changed, or null if never edited", example: null },
+            editedBy: { type: "string", nullable: true, description: "ID of the user who made the last edit, or null if never edited", example: null },
+            createdAt: { type: "string", format: "date-time", example: "2025-01-01T12:00:00.000Z" },
+            updatedAt: { type: "string", format: "date-time", example: "2025-01-01T12:00:00.000Z" }
           }
         },
-        UpdateCommentRequest: {
+        CommentPage: {
           type: "object",
-          required: ["content"],
           properties: {
-            content: { type: "string", example: "Updated comment content" }
+            items: { type: "array", items: { $ref: '#/components/schemas/Comment' } },
+            nextCursor: {
+              type: "string",
+              nullable: true,
+              description: "Cursor for the next page, or null when there are no more results",
+              example: "eyJ2IjoiMjAyNS0wMS0wMVQxMjowMDowMC4wMDBaIiwiaWQiOiI2NWI3YzljOGUyZjBhOWExZjJjOWQyMjIifQ"
+            }
           }
         },
-        Comment: {
+        CommentNode: {
+          allOf: [
+            { $ref: '#/components/schemas/Comment' },
+            {
+              type: "object",
+              properties: {
+                replies: { type: "array", items: { $ref: '#/components/schemas/CommentNode' } }
+              }
+            }
+          ]
+        },
+        CommentTree: {
           type: "object",
           properties: {
-            _id: { type: "string", example: "65b7c9c8e2f0a9a1f2c9d222" },
-            postId: { type: "string", example: "65b7c9c8e2f0a9a1f2c9d111" },
-            sender: { type: "string", example: "65b7c9c8e2f0a9a1f2c9d333" },
-            content: { type: "string", example: "This is a great post!" }
+            items: { type: "array", items: { $ref: '#/components/schemas/CommentNode' } }
+          }
+        },
+        ReactionCounts: {
+          type: "object",
+          description: "Number of reactions of every type",
+          properties: Object.fromEntries(Object.values(ReactionType).map(type => [type, { type: "integer", example: 0 }])),
+        },
+        ReactionSummary: {
+          type: "object",
+          properties: {
+            reactions: { $ref: '#/components/schemas/ReactionCounts' },
+            mine: {
+              type: "array",
+              description: "Reaction types left by the authenticated user",
+              items: { type: "string", enum: Object.values(ReactionType) },
+              example: ["like"]
+            }
+          }
+        },
+        Reaction: {
+          type: "object",
+          properties: {
+            _id: { type: "string", example: "65b7c9c8e2f0a9a1f2c9d444" },
+            user: {
+              type: "object",
+              properties: {
+                _id: { type: "string", example: "65b7c9c8e2f0a9a1f2c9d333" },
+                username: { type: "string", example: "johndoe" }
+              }
+            },
+            type: { type: "string", enum: Object.values(ReactionType), example: "like" },
+            createdAt: { type: "string", format: "date-time", example: "2025-01-01T12:00:00.000Z" }
+          }
+        },
+        ReactionPage: {
+          type: "object",
+          properties: {
+            items: { type: "array", items: { $ref: '#/components/schemas/Reaction' } },
+            nextCursor: {
+              type: "string",
+              nullable: true,
+              description: "Cursor for the next page, or null when there are no more results",
+              example: "eyJ2IjoiMjAyNS0wMS0wMVQxMjowMDowMC4wMDBaIiwiaWQiOiI2NWI3YzljOGUyZjBhOWExZjJjOWQ0NDQifQ"
+            }
+          }
+        },
+        Revision: {
+          type: "object",
+          description: "A version of a post or comment that an edit replaced",
+          properties: {
+            _id: { type: "string", example: "65b7c9c8e2f0a9a1f2c9d555" },
+            title: { type: "string", description: "Only present for post revisions", example: "My first post" },
+            content: { type: "string", description: "Markdown source", example: "This is the content of the post." },
+            contentHtml: { type: "string", description: "Sanitized HTML rendered from the content", example: "<p>This is the content of the post.</p>\n" },
+            editor: {
+              type: "object",
+              nullable: true,
+              description: "The user who wrote this version",
+              properties: {
+                _id: { type: "string", example: "65b7c9c8e2f0a9a1f2c9d333" },
+                username: { type: "string", example: "johndoe" }
+              }
+            },
+            editedAt: { type: "string", format: "date-time", description: "When this version was written", example: "2025-01-01T12:00:00.000Z" },
+            createdAt: { type: "string", format: "date-time", description: "When this version was replaced", example: "2025-01-02T12:00:00.000Z" }
+          }
+        },
+        RevisionPage: {
+          type: "object",
+          properties: {
+            items: { type: "array", items: { $ref: '#/components/schemas/Revision' } },
+            nextCursor: {
+              type: "string",
+              nullable: true,
+              description: "Cursor for the next page, or null when there are no more results",
+              example: "eyJ2IjoiMjAyNS0wMS0wMVQxMjowMDowMC4wMDBaIiwiaWQiOiI2NWI3YzljOGUyZjBhOWExZjJjOWQ1NTUifQ"
+            }
+          }
+        },
+        TextChange: {
+          type: "object",
+          properties: {
+            type: { type: "string", enum: Object.values(ChangeType), example: "added" },
+            value: { type: "string", example: "**content**" }
+          }
+        },
+        RevisionDiff: {
+          type: "object",
+          description: "Word-level changes from one version to another. Joining the unchanged and removed parts gives the older text, the unchanged and added parts the newer one.",
+          properties: {
+            from: { type: "string", description: "ID of the revision compared", example: "65b7c9c8e2f0a9a1f2c9d555" },
+            to: { type: "string", nullable: true, description: "ID of the revision compared against, or null for the current version", example: null },
+            title: { type: "array", description: "Only present for posts", items: { $ref: '#/components/schemas/TextChange' } },
+            content: { type: "array", items: { $ref: '#/components/schemas/TextChange' } }
           }
         },
+        SearchResult: {
+          type: "object",
+          properties: {
+            type: { type: "string", enum: ["post", "comment", "user"], example: "post" },
+            score: { type: "number", description: "Relevance of the result, higher is better", example: 1.5 },
+            item: {
+              description: "The matching post, comment or user",
+              oneOf: [
+                { $ref: '#/components/schemas/Post' },
+                { $ref: '#/components/schemas/Comment' },
+                { $ref: '#/components/schemas/User' }
+              ]
+            },
+            snippet: {
+              type: "object",
+              properties: {
+                field: { type: "string", description: "Field the excerpt was taken from", example: "content" },
+                text: {
+                  type: "string",
+                  description: "HTML-escaped excerpt with matching words wrapped in <mark>",
+                  example: "…saying <mark>hello</mark> to the <mark>world</mark>…"
+                }
+              }
+            }
+          }
+        },
+        SearchPage: {
+          type: "object",
+          properties: {
+            items: { type: "array", items: { $ref: '#/components/schemas/SearchResult' } },
+            nextCursor: {
+              type: "string",
+              nullable: true,
+              description: "Cursor for the next page, or null when there are no more results",
+              example: "eyJzIjoxLjUsInQiOiJwb3N0IiwiaWQiOiI2NWI3YzljOGUyZjBhOWExZjJjOWQxMTEifQ"
+            }
+          }
+        },
+        TrendingTag: {
+          type: "object",
+          properties: {
+            tag: { type: "string", example: "typescript" },
+            count: { type: "integer", description: "Posts and comments of the window using the tag", example: 12 },
+            postCount: { type: "integer", description: "Posts of the window using the tag", example: 5 }
+          }
+        },
+        Notification: {
+          type: "object",
+          properties: {
+            _id: { type: "string", example: "65b7c9c8e2f0a9a1f2c9d777" },
+            type: { type: "string", enum: Object.values(NotificationType), example: "comment" },
+            actor: {
+              type: "object",
+              nullable: true,
+              description: "The user who caused the notification, or null once their account is deleted",
+              properties: {
+                _id: { type: "string", example: "507f1f77bcf86cd799439011" },
+                username: { type: "string", example: "johndoe" },
+                displayName: { type: "string", nullable: true, example: "John Doe" },
+                avatarUrl: { type: "string", nullable: true, example: null }
+              }
+            },
+            postId: { type: "string", nullable: true, description: "The post commented on or mentioned in", example: "65b7c9c8e2f0a9a1f2c9d111" },
+            commentId: { type: "string", nullable: true, description: "The new comment or reply", example: "65b7c9c8e2f0a9a1f2c9d222" },
+            read: { type: "boolean", example: false },
+            createdAt: { type: "string", format: "date-time", example: "2025-01-01T12:00:00.000Z" }
+          }
+        },
+        NotificationPage: {
+          type: "object",
+          properties: {
+            items: { type: "array", items: { $ref: '#/components/schemas/Notification' } },
+            nextCursor: {
+              type: "string",
+              nullable: true,
+              description: "Cursor for the next page, or null when there are no more results",
+              example: "eyJ2IjoiMjAyNS0wMS0wMVQxMjowMDowMC4wMDBaIiwiaWQiOiI2NWI3YzljOGUyZjBhOWExZjJjOWQ3NzcifQ"
+            },
+            unreadCount: { type: "integer", description: "Unread notifications in total, not only on this page", example: 3 }
+          }
+        },
+        UnreadCount: {
+          type: "object",
+          properties: {
+            unreadCount: { type: "integer", example: 3 }
+          }
+        },
+        NotificationPreferences: {
+          type: "object",
+          description: "Whether each type of notification is received",
+          properties: Object.fromEntries(Object.values(NotificationType).map(type => [type, { type: "boolean", example: true }]))
+        },
+        UpdateNotificationPreferencesRequest: requestSchema(notificationPreferencesBody),
         Error: {
           type: 'object',
+          required: ['error'],
           properties: {
-            message: {
-              type: 'string',
-              description: 'Error message',
-              example: 'User Not Found',
+            error: {
+              type: 'object',
+              required: ['code', 'message'],
+              properties: {
+                code: {
+                  type: 'string',
+                  description: 'Stable machine-readable error code',
+                  enum: Object.values(ErrorCode),
+                  example: 'NOT_FOUND',
+                },
+                message: {
+                  type: 'string',
+                  description: 'Human-readable error message',
+                  example: 'User Not Found',
+                },
+                details: {
+                  description: 'Optional additional information about the error',
+                },
+              },
             },
           },
         },
       },
+      responses: {
+        TooManyRequests: {
+          description: 'Rate limit exceeded (`RATE_LIMITED`) or account temporarily locked after repeated failed logins (`ACCOUNT_LOCKED`)',
+          headers: {
+            'Retry-After': {
+              description: 'Seconds until the request may be retried',
+              schema: { type: 'integer' }
+            },
+            'RateLimit-Limit': {
+              description: 'Requests allowed in the current window',
+              schema: { type: 'integer' }
+            },
+            'RateLimit-Remaining': {
+              description: 'Requests left in the current window',
+              schema: { type: 'integer' }
+            },
+            'RateLimit-Reset': {
+              description: 'Seconds until the current window ends',
+              schema: { type: 'integer' }
+            }
+          },
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/Error' }
+            }
+          }
+        }
+      },
     },
   },
   apis: ['./src/routes/*.ts'], // paths to files containing OpenAPI definitions